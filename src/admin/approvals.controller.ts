@@ -0,0 +1,104 @@
+/**
+ * Admin Approvals Controller
+ *
+ * Lists the grants held for approval from mapping entries marked
+ * requiresApproval, and approves or denies them.
+ */
+
+import type { Request, Response } from 'express';
+import { createScimError } from '../scim/schemas/core.js';
+import {
+  RoleApprovalStatus,
+  getRoleApproval,
+  listRoleApprovals,
+  countRoleApprovals,
+} from '../db/role-approvals.js';
+import { ApprovalQueue, ApprovalConflictError } from '../mapping/approvals.js';
+import { handleError } from '../scim/server/errors.js';
+
+const APPROVAL_STATUSES: RoleApprovalStatus[] = ['pending', 'approved', 'denied', 'expired'];
+
+/**
+ * Create the admin approvals controller
+ */
+export function createApprovalsController(approvalQueue: ApprovalQueue) {
+  return {
+    /**
+     * GET /admin/approvals?status=&aliceId=&limit= - Approval counts and the oldest matching requests
+     */
+    listApprovals(req: Request, res: Response): void {
+      const status = req.query.status as RoleApprovalStatus | undefined;
+      if (status !== undefined && !APPROVAL_STATUSES.includes(status)) {
+        res.status(400).json(createScimError(400, `status must be one of: ${APPROVAL_STATUSES.join(', ')}`, 'invalidValue'));
+        return;
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const aliceId = req.query.aliceId as string | undefined;
+      res.json({ counts: countRoleApprovals(), approvals: listRoleApprovals({ status, aliceId, limit }) });
+    },
+
+    /**
+     * GET /admin/approvals/:id - A single request
+     */
+    getApproval(req: Request, res: Response): void {
+      const approval = getRoleApproval(req.params.id);
+      if (!approval) {
+        res.status(404).json(createScimError(404, 'Approval not found', 'noTarget'));
+        return;
+      }
+      res.json(approval);
+    },
+
+    /**
+     * POST /admin/approvals/:id/approve - Approve a pending request and apply its grant
+     */
+    async approve(req: Request, res: Response): Promise<void> {
+      try {
+        const approval = await approvalQueue.approve(req.params.id, decisionComment(req));
+        if (!approval) {
+          res.status(404).json(createScimError(404, 'Approval not found', 'noTarget'));
+          return;
+        }
+        res.json(approval);
+      } catch (error) {
+        handleDecisionError(error, res);
+      }
+    },
+
+    /**
+     * POST /admin/approvals/:id/deny - Deny a pending request
+     */
+    deny(req: Request, res: Response): void {
+      try {
+        const approval = approvalQueue.deny(req.params.id, decisionComment(req));
+        if (!approval) {
+          res.status(404).json(createScimError(404, 'Approval not found', 'noTarget'));
+          return;
+        }
+        res.json(approval);
+      } catch (error) {
+        handleDecisionError(error, res);
+      }
+    },
+  };
+}
+
+/**
+ * The optional comment of a decision, from a { "comment": "..." } body
+ */
+function decisionComment(req: Request): string | null {
+  const comment = (req.body as { comment?: unknown } | undefined)?.comment;
+  return typeof comment === 'string' && comment.trim() ? comment.trim() : null;
+}
+
+/**
+ * Map decisions on requests no longer pending to 409, anything else to the shared handler
+ */
+function handleDecisionError(error: unknown, res: Response): void {
+  if (error instanceof ApprovalConflictError) {
+    res.status(409).json(createScimError(409, error.message));
+    return;
+  }
+  handleError(error, res);
+}
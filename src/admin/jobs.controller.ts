@@ -0,0 +1,104 @@
+/**
+ * Admin Jobs Controller
+ *
+ * Inspects the outbound job queue used in async write mode and for the
+ * additional LaunchDarkly accounts in LD_TARGETS, and replays or discards
+ * jobs in the dead-letter state.
+ */
+
+import type { Request, Response } from 'express';
+import { createScimError } from '../scim/schemas/core.js';
+import {
+  JobStatus,
+  getJob,
+  listJobs,
+  countJobsByStatus,
+  replayJob,
+  replayDeadJobs,
+  discardJob,
+} from '../db/jobs.js';
+import { logger } from '../middleware/logging.js';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'succeeded', 'dead', 'discarded'];
+
+/**
+ * Create the admin jobs controller
+ */
+export function createJobsController() {
+  return {
+    /**
+     * GET /admin/jobs?status=&aliceId=&target=&limit= - Job counts and the newest matching jobs
+     */
+    listJobs(req: Request, res: Response): void {
+      const status = req.query.status as JobStatus | undefined;
+      if (status !== undefined && !JOB_STATUSES.includes(status)) {
+        res.status(400).json(createScimError(400, `status must be one of: ${JOB_STATUSES.join(', ')}`, 'invalidValue'));
+        return;
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const aliceId = req.query.aliceId as string | undefined;
+      const target = req.query.target as string | undefined;
+      res.json({ counts: countJobsByStatus(target), jobs: listJobs({ status, aliceId, target, limit }) });
+    },
+
+    /**
+     * GET /admin/jobs/:id - A single job
+     */
+    getJob(req: Request, res: Response): void {
+      const job = getJob(Number(req.params.id));
+      if (!job) {
+        res.status(404).json(createScimError(404, 'Job not found', 'noTarget'));
+        return;
+      }
+      res.json(job);
+    },
+
+    /**
+     * POST /admin/jobs/:id/replay - Retry a dead job with a fresh set of attempts
+     */
+    replayJob(req: Request, res: Response): void {
+      const id = Number(req.params.id);
+      const job = getJob(id);
+      if (!job) {
+        res.status(404).json(createScimError(404, 'Job not found', 'noTarget'));
+        return;
+      }
+      if (!replayJob(id)) {
+        res.status(409).json(createScimError(409, `A ${job.status} job cannot be replayed`));
+        return;
+      }
+
+      logger.info({ jobId: id, aliceId: job.aliceId, operation: job.operation }, 'Job replayed');
+      res.status(202).json(getJob(id));
+    },
+
+    /**
+     * POST /admin/jobs/replay - Replay every dead job
+     */
+    replayDeadJobs(_req: Request, res: Response): void {
+      const replayed = replayDeadJobs();
+      logger.info({ replayed }, 'Dead jobs replayed');
+      res.status(202).json({ replayed });
+    },
+
+    /**
+     * POST /admin/jobs/:id/discard - Give up on a dead job, releasing the user's later jobs
+     */
+    discardJob(req: Request, res: Response): void {
+      const id = Number(req.params.id);
+      const job = getJob(id);
+      if (!job) {
+        res.status(404).json(createScimError(404, 'Job not found', 'noTarget'));
+        return;
+      }
+      if (!discardJob(id)) {
+        res.status(409).json(createScimError(409, `A ${job.status} job cannot be discarded`));
+        return;
+      }
+
+      logger.warn({ jobId: id, aliceId: job.aliceId, operation: job.operation }, 'Job discarded');
+      res.json(getJob(id));
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Admin Mappings Controller
+ *
+ * Previews mapping changes and manages re-application runs that bring every
+ * provisioned user in line with the active mapping configuration.
+ */
+
+import type { Request, Response } from 'express';
+import { createScimError } from '../scim/schemas/core.js';
+import { MappingConfigError, hashContents, parseMappingConfig } from '../config/mappings.js';
+import { MappingReapplier, ReapplyConflictError, CandidateMappings } from '../mapping/reapply.js';
+import { handleError } from '../scim/server/errors.js';
+import { logger } from '../middleware/logging.js';
+
+/**
+ * Create the admin mappings controller
+ */
+export function createMappingsController(reapplier: MappingReapplier) {
+  return {
+    /**
+     * POST /admin/mappings/preview - Per-user role diff for a candidate mappings.yaml
+     * (request body), or for the active configuration if the body is empty
+     */
+    async preview(req: Request, res: Response): Promise<void> {
+      try {
+        let candidate: CandidateMappings | undefined;
+        const body = typeof req.body === 'string' ? req.body : '';
+
+        if (body.trim()) {
+          try {
+            const { mappings, version } = parseMappingConfig(body);
+            candidate = { mappings, version, hash: hashContents(body) };
+          } catch (error) {
+            if (error instanceof MappingConfigError) {
+              res.status(400).json({
+                ...createScimError(400, 'Invalid mapping config', 'invalidValue'),
+                issues: error.issues,
+              });
+              return;
+            }
+            throw error;
+          }
+        }
+
+        const preview = await reapplier.preview(candidate);
+        logger.info({ hash: preview.mappings.hash, ...preview.summary }, 'Mapping change previewed');
+        res.json(preview);
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * POST /admin/mappings/reapply - Start applying the active mappings to every user
+     */
+    startRun(req: Request, res: Response): void {
+      try {
+        const expectedHash = (req.body as { expectedHash?: string } | undefined)?.expectedHash;
+        const run = reapplier.start(expectedHash);
+        res.status(202)
+          .header('Location', `${req.baseUrl}/mappings/reapply/${run.id}`)
+          .json(run);
+      } catch (error) {
+        handleRunError(error, res);
+      }
+    },
+
+    /**
+     * GET /admin/mappings/reapply - List runs
+     */
+    listRuns(_req: Request, res: Response): void {
+      res.json({ runs: reapplier.listRuns() });
+    },
+
+    /**
+     * GET /admin/mappings/reapply/:id - Run progress
+     */
+    getRun(req: Request, res: Response): void {
+      const run = reapplier.getRun(req.params.id);
+      if (!run) {
+        res.status(404).json(createScimError(404, 'Run not found', 'noTarget'));
+        return;
+      }
+      res.json(run);
+    },
+
+    /**
+     * POST /admin/mappings/reapply/:id/resume - Resume a cancelled or interrupted run
+     */
+    resumeRun(req: Request, res: Response): void {
+      try {
+        const run = reapplier.resume(req.params.id);
+        if (!run) {
+          res.status(404).json(createScimError(404, 'Run not found', 'noTarget'));
+          return;
+        }
+        res.status(202).json(run);
+      } catch (error) {
+        handleRunError(error, res);
+      }
+    },
+
+    /**
+     * POST /admin/mappings/reapply/:id/cancel - Stop a running run
+     */
+    cancelRun(req: Request, res: Response): void {
+      try {
+        const run = reapplier.cancel(req.params.id);
+        if (!run) {
+          res.status(404).json(createScimError(404, 'Run not found', 'noTarget'));
+          return;
+        }
+        res.status(202).json(run);
+      } catch (error) {
+        handleRunError(error, res);
+      }
+    },
+  };
+}
+
+/**
+ * Map run state conflicts to 409, anything else to the shared handler
+ */
+function handleRunError(error: unknown, res: Response): void {
+  if (error instanceof ReapplyConflictError) {
+    res.status(409).json(createScimError(409, error.message));
+    return;
+  }
+  handleError(error, res);
+}
@@ -0,0 +1,52 @@
+/**
+ * Admin Reconciliation Controller
+ *
+ * Runs the drift reconciler on demand and returns its latest report.
+ */
+
+import type { Request, Response } from 'express';
+import { createScimError } from '../scim/schemas/core.js';
+import { ReconcileMode } from '../config/index.js';
+import { Reconciler, ReconcileInProgressError } from '../mapping/reconcile.js';
+import { handleError } from '../scim/server/errors.js';
+
+/**
+ * Create the admin reconciliation controller
+ */
+export function createReconcileController(reconciler: Reconciler) {
+  return {
+    /**
+     * POST /admin/reconcile?mode=report|correct - Run a reconciliation now
+     */
+    async runReconcile(req: Request, res: Response): Promise<void> {
+      try {
+        const mode = req.query.mode as string | undefined;
+        if (mode !== undefined && mode !== 'report' && mode !== 'correct') {
+          res.status(400).json(createScimError(400, 'mode must be either report or correct', 'invalidValue'));
+          return;
+        }
+
+        const report = await reconciler.run(mode as ReconcileMode | undefined);
+        res.json(report);
+      } catch (error) {
+        if (error instanceof ReconcileInProgressError) {
+          res.status(409).json(createScimError(409, error.message));
+          return;
+        }
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * GET /admin/reconcile - The most recent report
+     */
+    getReport(_req: Request, res: Response): void {
+      const report = reconciler.getLastReport();
+      if (!report) {
+        res.status(404).json(createScimError(404, 'No reconciliation has run yet', 'noTarget'));
+        return;
+      }
+      res.json(report);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Admin Routes
+ *
+ * Operator endpoints, separate from the SCIM API that Alice calls.
+ */
+
+import express, { Router } from 'express';
+import { MappingReapplier } from '../mapping/reapply.js';
+import { Reconciler } from '../mapping/reconcile.js';
+import { ApprovalQueue } from '../mapping/approvals.js';
+import { createMappingsController } from './mappings.controller.js';
+import { createReconcileController } from './reconcile.controller.js';
+import { createJobsController } from './jobs.controller.js';
+import { createApprovalsController } from './approvals.controller.js';
+
+/**
+ * Create the admin router
+ */
+export function createAdminRouter(
+  reapplier: MappingReapplier,
+  reconciler: Reconciler,
+  approvalQueue: ApprovalQueue
+): Router {
+  const router = Router();
+  const mappingsController = createMappingsController(reapplier);
+  const reconcileController = createReconcileController(reconciler);
+  const jobsController = createJobsController();
+  const approvalsController = createApprovalsController(approvalQueue);
+
+  // Candidate mapping files are posted as YAML
+  const yamlBody = express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'] });
+
+  router.post('/mappings/preview', yamlBody, (req, res) => mappingsController.preview(req, res));
+  router.post('/mappings/reapply', (req, res) => mappingsController.startRun(req, res));
+  router.get('/mappings/reapply', (req, res) => mappingsController.listRuns(req, res));
+  router.get('/mappings/reapply/:id', (req, res) => mappingsController.getRun(req, res));
+  router.post('/mappings/reapply/:id/resume', (req, res) => mappingsController.resumeRun(req, res));
+  router.post('/mappings/reapply/:id/cancel', (req, res) => mappingsController.cancelRun(req, res));
+
+  router.post('/reconcile', (req, res) => reconcileController.runReconcile(req, res));
+  router.get('/reconcile', (req, res) => reconcileController.getReport(req, res));
+
+  router.get('/jobs', (req, res) => jobsController.listJobs(req, res));
+  router.post('/jobs/replay', (req, res) => jobsController.replayDeadJobs(req, res));
+  router.get('/jobs/:id', (req, res) => jobsController.getJob(req, res));
+  router.post('/jobs/:id/replay', (req, res) => jobsController.replayJob(req, res));
+  router.post('/jobs/:id/discard', (req, res) => jobsController.discardJob(req, res));
+
+  router.get('/approvals', (req, res) => approvalsController.listApprovals(req, res));
+  router.get('/approvals/:id', (req, res) => approvalsController.getApproval(req, res));
+  router.post('/approvals/:id/approve', (req, res) => approvalsController.approve(req, res));
+  router.post('/approvals/:id/deny', (req, res) => approvalsController.deny(req, res));
+
+  return router;
+}
@@ -0,0 +1,79 @@
+/**
+ * Inbound Tokens
+ *
+ * Bearer tokens the IdP uses to call the SCIM endpoints. Any number of tokens
+ * can be active at once, so a new token can be issued and configured in the
+ * IdP before the old one is revoked. Tokens are random, so they are stored as
+ * a plain SHA-256 hash and looked up by it: the lookup only ever sees the
+ * hash, and the one comparison of secret values left, against the
+ * GATEWAY_BEARER_TOKEN variable, runs in constant time.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InboundToken,
+  createInboundToken,
+  findInboundTokenByHash,
+  touchInboundToken,
+} from '../db/inbound-tokens.js';
+
+/** Marks gateway tokens in IdP settings and secret scanners */
+const TOKEN_PREFIX = 'scimgw_';
+
+/**
+ * Result of checking a presented token against the stored ones
+ */
+export type InboundTokenCheck =
+  | { status: 'valid'; token: InboundToken }
+  | { status: 'expired' | 'revoked'; token: InboundToken }
+  | { status: 'unknown' };
+
+/**
+ * Issue a new token. The returned secret is not stored and cannot be shown again.
+ *
+ * @param expiresInDays days until the token stops being accepted, or null for no expiry
+ */
+export function issueInboundToken(
+  label: string,
+  expiresInDays: number | null
+): { secret: string; token: InboundToken } {
+  const secret = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const token = createInboundToken(uuidv4(), label, hashToken(secret), expiresInDays);
+  return { secret, token };
+}
+
+/**
+ * Check a presented token against the stored ones, recording when valid tokens are used
+ */
+export function checkInboundToken(presented: string): InboundTokenCheck {
+  const presentedHash = hashToken(presented);
+  const match = findInboundTokenByHash(presentedHash);
+  if (!match || !timingSafeEqual(Buffer.from(match.tokenHash), Buffer.from(presentedHash))) {
+    return { status: 'unknown' };
+  }
+
+  if (match.token.revokedAt) {
+    return { status: 'revoked', token: match.token };
+  }
+  if (match.expired) {
+    return { status: 'expired', token: match.token };
+  }
+
+  touchInboundToken(match.token.id);
+  return { status: 'valid', token: match.token };
+}
+
+/**
+ * Compare two tokens in constant time, whatever their lengths
+ */
+export function tokensEqual(presented: string, expected: string): boolean {
+  return timingSafeEqual(createHash('sha256').update(presented).digest(), createHash('sha256').update(expected).digest());
+}
+
+/**
+ * Hash of a token as stored in inbound_tokens
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
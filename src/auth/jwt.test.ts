@@ -0,0 +1,184 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJwtVerifier, JwtValidationError } from './jwt.js';
+import { InboundJwtConfig } from '../config/index.js';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const otherRsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+let dir: string;
+let jwksFile: string;
+
+function writeJwks(keys: Array<{ kid: string; key: KeyObject; use?: string }>): void {
+  const jwks = { keys: keys.map(({ kid, key, use }) => ({ ...key.export({ format: 'jwk' }), kid, use })) };
+  fs.writeFileSync(jwksFile, JSON.stringify(jwks));
+}
+
+function config(overrides: Partial<InboundJwtConfig> = {}): InboundJwtConfig {
+  return {
+    jwksFile,
+    issuer: 'https://idp.example.com',
+    audiences: ['scim-gateway'],
+    requiredScopes: ['scim'],
+    clockSkewSeconds: 60,
+    ...overrides,
+  };
+}
+
+/** Sign a token the way an IdP would */
+function signToken(
+  claims: Record<string, unknown>,
+  { alg = 'RS256', kid = 'rsa-1', key = rsa.privateKey }: { alg?: string; kid?: string; key?: KeyObject } = {}
+): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const data = `${encode({ alg, kid, typ: 'JWT' })}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(data), alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key);
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: 'https://idp.example.com',
+    aud: 'scim-gateway',
+    sub: 'okta-app',
+    exp: now + 300,
+    scope: 'openid scim',
+    ...overrides,
+  };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<JwtValidationError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof JwtValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a JwtValidationError');
+}
+
+describe('createJwtVerifier', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-test-'));
+    jwksFile = path.join(dir, 'jwks.json');
+    writeJwks([
+      { kid: 'rsa-1', key: rsa.publicKey },
+      { kid: 'ec-1', key: ec.publicKey },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('tells JWTs from opaque tokens', () => {
+    const verifier = createJwtVerifier(config());
+    expect(verifier.isJwt(signToken(validClaims()))).toBe(true);
+    expect(verifier.isJwt('opaque-shared-secret')).toBe(false);
+  });
+
+  it('accepts RS256 and ES256 tokens and returns the principal', async () => {
+    const verifier = createJwtVerifier(config());
+
+    await expect(verifier.verify(signToken(validClaims({ azp: 'client-1' })))).resolves.toEqual({
+      subject: 'okta-app',
+      issuer: 'https://idp.example.com',
+      clientId: 'client-1',
+      scopes: ['openid', 'scim'],
+    });
+    const esToken = signToken(validClaims(), { alg: 'ES256', kid: 'ec-1', key: ec.privateKey });
+    await expect(verifier.verify(esToken)).resolves.toMatchObject({ subject: 'okta-app' });
+  });
+
+  it('reads scopes from the scp and roles claims', async () => {
+    const verifier = createJwtVerifier(config({ requiredScopes: ['scim', 'Users.Write'] }));
+    const token = signToken(validClaims({ scope: undefined, scp: ['scim'], roles: 'Users.Write' }));
+    await expect(verifier.verify(token)).resolves.toMatchObject({ scopes: ['scim', 'Users.Write'] });
+  });
+
+  it('rejects tokens with a bad signature, algorithm or key', async () => {
+    const verifier = createJwtVerifier(config());
+
+    const [header, claims] = signToken(validClaims()).split('.');
+    const forged = `${header}.${claims}.${signToken(validClaims({ sub: 'other' })).split('.')[2]}`;
+    expect((await rejection(verifier.verify(forged))).message).toBe('Invalid token signature');
+
+    const hs256 = signToken(validClaims(), { alg: 'HS256' });
+    expect((await rejection(verifier.verify(hs256))).message).toContain('Unsupported signing algorithm "HS256"');
+
+    for (const alg of ['constructor', 'toString', '__proto__']) {
+      const inherited = signToken(validClaims(), { alg });
+      expect((await rejection(verifier.verify(inherited))).message).toContain(`Unsupported signing algorithm "${alg}"`);
+    }
+
+    const unknownKey = signToken(validClaims(), { kid: 'rsa-2', key: otherRsa.privateKey });
+    expect((await rejection(verifier.verify(unknownKey))).message).toBe('Unknown signing key "rsa-2"');
+
+    // An ES256 header cannot select the RSA key
+    const mismatched = signToken(validClaims(), { alg: 'ES256', kid: 'rsa-1', key: ec.privateKey });
+    expect((await rejection(verifier.verify(mismatched))).message).toBe('Unknown signing key "rsa-1"');
+
+    expect((await rejection(verifier.verify('not.a.jwt'))).message).toBe('Malformed token header');
+  });
+
+  it.each([
+    [{ exp: undefined }, 'Token has no exp claim'],
+    [{ exp: Math.floor(Date.now() / 1000) - 120 }, 'Token has expired'],
+    [{ nbf: Math.floor(Date.now() / 1000) + 120 }, 'Token is not valid yet'],
+    [{ iss: 'https://evil.example.com' }, 'Unexpected issuer "https://evil.example.com"'],
+    [{ aud: ['other-app'] }, 'Unexpected audience ["other-app"]'],
+    [{ sub: '' }, 'Token has no sub claim'],
+  ])('rejects claims %j with 401', async (overrides, message) => {
+    const error = await rejection(createJwtVerifier(config()).verify(signToken(validClaims(overrides))));
+    expect(error.message).toBe(message);
+    expect(error.status).toBe(401);
+  });
+
+  it('allows the configured clock skew on exp and nbf', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = signToken(validClaims({ exp: now - 30, nbf: now + 30 }));
+    await expect(createJwtVerifier(config()).verify(token)).resolves.toMatchObject({ subject: 'okta-app' });
+  });
+
+  it('rejects a token missing a required scope with 403', async () => {
+    const error = await rejection(createJwtVerifier(config()).verify(signToken(validClaims({ scope: 'openid' }))));
+    expect(error.message).toBe('Token is missing required scopes: scim');
+    expect(error.status).toBe(403);
+  });
+
+  it('skips encryption keys', async () => {
+    writeJwks([{ kid: 'rsa-1', key: rsa.publicKey, use: 'enc' }]);
+    const error = await rejection(createJwtVerifier(config()).verify(signToken(validClaims())));
+    expect(error.message).toBe('Unknown signing key "rsa-1"');
+  });
+
+  it('reloads the keys when a token is signed by a new key', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const verifier = createJwtVerifier(config());
+    await verifier.verify(signToken(validClaims()));
+
+    writeJwks([{ kid: 'rsa-2', key: otherRsa.publicKey }]);
+    const rotated = signToken(validClaims(), { kid: 'rsa-2', key: otherRsa.privateKey });
+    // Unknown keys reload the JWKS at most every 30 seconds
+    await rejection(verifier.verify(rotated));
+
+    vi.setSystemTime(Date.now() + 31_000);
+    await expect(verifier.verify(signToken(validClaims(), { kid: 'rsa-2', key: otherRsa.privateKey })))
+      .resolves.toMatchObject({ subject: 'okta-app' });
+  });
+
+  it('fails with a plain error when the keys cannot be loaded', async () => {
+    const verifier = createJwtVerifier(config({ jwksFile: path.join(dir, 'missing.json') }));
+    const result = verifier.verify(signToken(validClaims()));
+    await expect(result).rejects.toThrow(`Unable to load JWKS from ${path.join(dir, 'missing.json')}`);
+    await expect(result).rejects.not.toBeInstanceOf(JwtValidationError);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Inbound JWT Validation
+ *
+ * Validates signed JWTs that an IdP presents as bearer tokens instead of a
+ * shared secret: an RS256 or ES256 signature by a key from the configured
+ * JWKS, then the issuer, audience, expiry and required scopes. Keys are
+ * cached, and fetched again when a token is signed by a key that is not
+ * known yet, so the IdP can rotate its keys without a restart.
+ */
+
+import fs from 'fs';
+import { createPublicKey, verify, JsonWebKey, KeyObject } from 'crypto';
+import { InboundJwtConfig } from '../config/index.js';
+import { logger } from '../middleware/logging.js';
+
+/**
+ * Error thrown when a token is not accepted. Status 401 means the token is
+ * invalid; 403 means it is valid but lacks a required scope.
+ */
+export class JwtValidationError extends Error {
+  constructor(message: string, public status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'JwtValidationError';
+  }
+}
+
+/**
+ * Who a valid token was issued to
+ */
+export interface JwtPrincipal {
+  subject: string;
+  issuer: string;
+  /** OAuth client the token was issued to (azp, appid or client_id claim) */
+  clientId?: string;
+  scopes: string[];
+}
+
+/** Signature algorithms accepted, with the key type each needs */
+const ALGORITHMS: Record<string, { keyType: 'rsa' | 'ec'; namedCurve?: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { keyType: 'rsa' },
+  ES256: { keyType: 'ec', namedCurve: 'prime256v1', dsaEncoding: 'ieee-p1363' },
+};
+
+/** Keys are reloaded after this long even if every token's key is known */
+const JWKS_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** A token signed by an unknown key reloads the keys at most this often */
+const JWKS_MIN_RELOAD_INTERVAL_MS = 30 * 1000;
+
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+interface SigningKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+export type JwtVerifier = ReturnType<typeof createJwtVerifier>;
+
+/**
+ * Create a verifier for the JWTs described by config
+ */
+export function createJwtVerifier(config: InboundJwtConfig) {
+  const source = config.jwksUrl ?? config.jwksFile!;
+  let keys: SigningKey[] = [];
+  let loadedAt = 0;
+  let attemptedAt = 0;
+  let loading: Promise<void> | undefined;
+
+  /**
+   * Reload the keys, once at a time. The last keys loaded are kept if it fails.
+   */
+  function reload(): Promise<void> {
+    loading ??= (async () => {
+      attemptedAt = Date.now();
+      try {
+        keys = parseJwks(config.jwksUrl ? await fetchJwks(config.jwksUrl) : await readJwks(config.jwksFile!));
+        loadedAt = Date.now();
+        logger.debug({ source, keys: keys.length }, 'Loaded inbound JWT signing keys');
+      } catch (error) {
+        logger.error({ source, error: error instanceof Error ? error.message : String(error) }, 'Failed to load inbound JWT signing keys');
+        if (keys.length === 0) {
+          throw new Error(`Unable to load JWKS from ${source}`);
+        }
+      } finally {
+        loading = undefined;
+      }
+    })();
+    return loading;
+  }
+
+  /**
+   * Keys that could have signed a token with this header
+   */
+  async function candidateKeys(kid: string | undefined, alg: string): Promise<SigningKey[]> {
+    // Without any keys, tokens cannot be checked at all, rather than being invalid
+    if (loadedAt === 0) {
+      if (Date.now() - attemptedAt <= JWKS_MIN_RELOAD_INTERVAL_MS) {
+        await loading;
+        if (loadedAt === 0) {
+          throw new Error(`Unable to load JWKS from ${source}`);
+        }
+      } else {
+        await reload();
+      }
+    }
+
+    if (Date.now() - loadedAt > JWKS_MAX_AGE_MS && Date.now() - attemptedAt > JWKS_MIN_RELOAD_INTERVAL_MS) {
+      await reload();
+    }
+
+    const matching = () => keys.filter((k) => (!kid || k.kid === kid) && (!k.alg || k.alg === alg) && fitsAlgorithm(k.key, alg));
+    let candidates = matching();
+    if (candidates.length === 0 && Date.now() - attemptedAt > JWKS_MIN_RELOAD_INTERVAL_MS) {
+      await reload();
+      candidates = matching();
+    }
+    return candidates;
+  }
+
+  /**
+   * Check the token's issuer, audience, validity period and scopes
+   */
+  function checkClaims(claims: Record<string, unknown>): JwtPrincipal {
+    const now = Date.now() / 1000;
+    if (typeof claims.exp !== 'number') {
+      throw new JwtValidationError('Token has no exp claim');
+    }
+    if (now > claims.exp + config.clockSkewSeconds) {
+      throw new JwtValidationError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - config.clockSkewSeconds) {
+      throw new JwtValidationError('Token is not valid yet');
+    }
+
+    if (claims.iss !== config.issuer) {
+      throw new JwtValidationError(`Unexpected issuer ${JSON.stringify(claims.iss)}`);
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.some((aud) => typeof aud === 'string' && config.audiences.includes(aud))) {
+      throw new JwtValidationError(`Unexpected audience ${JSON.stringify(claims.aud)}`);
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new JwtValidationError('Token has no sub claim');
+    }
+
+    const scopes = tokenScopes(claims);
+    const missing = config.requiredScopes.filter((scope) => !scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new JwtValidationError(`Token is missing required scopes: ${missing.join(', ')}`, 403);
+    }
+
+    const clientId = [claims.azp, claims.appid, claims.client_id].find((c): c is string => typeof c === 'string');
+    return { subject: claims.sub, issuer: claims.iss, clientId, scopes };
+  }
+
+  return {
+    /**
+     * Whether a bearer token is shaped like a JWT, rather than an opaque token
+     */
+    isJwt(token: string): boolean {
+      return /^[\w-]+\.[\w-]+\.[\w-]*$/.test(token);
+    },
+
+    /**
+     * Verify a token. Throws JwtValidationError when it is not accepted, and
+     * other errors when the signing keys cannot be loaded.
+     */
+    async verify(token: string): Promise<JwtPrincipal> {
+      const [encodedHeader, encodedClaims, encodedSignature] = token.split('.');
+      const header = decodeSegment(encodedHeader, 'header');
+      const claims = decodeSegment(encodedClaims, 'claims');
+
+      const alg = typeof header.alg === 'string' ? header.alg : '';
+      const algorithm = signingAlgorithm(alg);
+      if (!algorithm) {
+        throw new JwtValidationError(`Unsupported signing algorithm ${JSON.stringify(header.alg)}; expected RS256 or ES256`);
+      }
+
+      const kid = typeof header.kid === 'string' ? header.kid : undefined;
+      const candidates = await candidateKeys(kid, alg);
+      if (candidates.length === 0) {
+        throw new JwtValidationError(kid ? `Unknown signing key ${JSON.stringify(kid)}` : 'No signing key matches the token');
+      }
+
+      const signedData = Buffer.from(`${encodedHeader}.${encodedClaims}`);
+      const signature = Buffer.from(encodedSignature, 'base64url');
+      const signed = candidates.some(({ key }) =>
+        verify('sha256', signedData, { key, dsaEncoding: algorithm.dsaEncoding }, signature)
+      );
+      if (!signed) {
+        throw new JwtValidationError('Invalid token signature');
+      }
+
+      return checkClaims(claims);
+    },
+
+    /**
+     * Load the signing keys ahead of the first request, logging failures
+     */
+    preload(): void {
+      reload().catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * An accepted signature algorithm by name. The name comes from the token, so
+ * inherited properties such as "constructor" must not match.
+ */
+function signingAlgorithm(alg: string): (typeof ALGORITHMS)[string] | undefined {
+  return Object.hasOwn(ALGORITHMS, alg) ? ALGORITHMS[alg] : undefined;
+}
+
+/**
+ * Whether a key can verify signatures of an algorithm
+ */
+function fitsAlgorithm(key: KeyObject, alg: string): boolean {
+  const algorithm = signingAlgorithm(alg);
+  return algorithm !== undefined
+    && key.asymmetricKeyType === algorithm.keyType
+    && (!algorithm.namedCurve || key.asymmetricKeyDetails?.namedCurve === algorithm.namedCurve);
+}
+
+/**
+ * Decode the header or claims of a token
+ */
+function decodeSegment(segment: string, name: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new JwtValidationError(`Malformed token ${name}`);
+}
+
+/**
+ * Scopes granted by a token: the space-separated scope claim, the scp claim
+ * (a string or a list) and the roles claim Entra ID uses for app permissions
+ */
+function tokenScopes(claims: Record<string, unknown>): string[] {
+  const scopes: string[] = [];
+  for (const claim of [claims.scope, claims.scp, claims.roles]) {
+    if (typeof claim === 'string') {
+      scopes.push(...claim.split(' ').filter(Boolean));
+    } else if (Array.isArray(claim)) {
+      scopes.push(...claim.filter((s): s is string => typeof s === 'string'));
+    }
+  }
+  return scopes;
+}
+
+/**
+ * The signature keys of a JWKS. Keys for encryption or of other types are skipped.
+ */
+function parseJwks(jwks: unknown): SigningKey[] {
+  const entries = (jwks as { keys?: unknown })?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error('JWKS has no keys array');
+  }
+
+  const keys: SigningKey[] = [];
+  for (const jwk of entries as Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>) {
+    if (jwk.use === 'enc' || (jwk.kty !== 'RSA' && jwk.kty !== 'EC')) {
+      continue;
+    }
+    try {
+      keys.push({ kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: 'jwk' }) });
+    } catch (error) {
+      logger.warn({ kid: jwk.kid, error: error instanceof Error ? error.message : String(error) }, 'Skipping invalid JWKS key');
+    }
+  }
+  return keys;
+}
+
+async function fetchJwks(url: string): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+async function readJwks(file: string): Promise<unknown> {
+  return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+}
@@ -0,0 +1,76 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CachedToken, createTokenCache } from './token-cache.js';
+import { openDatabase, runWithDatabase } from '../db/index.js';
+import { getCachedOAuthToken } from '../db/oauth-token-cache.js';
+import { LdOAuthConfig, PRIMARY_TARGET } from '../config/index.js';
+
+const PASSPHRASE = 'a-token-cache-passphrase';
+
+const oauth: LdOAuthConfig = {
+  tokenUrl: 'https://app.launchdarkly.com/trust/oauth/token',
+  clientId: 'gateway-client',
+  clientSecret: 'gateway-secret',
+  scope: 'scim',
+};
+
+function token(expiresInMs = 3_600_000): CachedToken {
+  const obtainedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+  return {
+    accessToken: 'ld-access-token-123',
+    obtainedAt,
+    expiresAt: new Date(obtainedAt.getTime() + expiresInMs),
+    expiryAssumed: false,
+  };
+}
+
+let db: Database.Database;
+
+describe('createTokenCache', () => {
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('stores the token encrypted and loads it back', () => runWithDatabase(db, () => {
+    const cache = createTokenCache(PRIMARY_TARGET, oauth, PASSPHRASE);
+    const saved = { ...token(), expiryAssumed: true };
+    cache.save(saved);
+
+    const row = getCachedOAuthToken(PRIMARY_TARGET)!;
+    expect(row.encryptedToken).toMatch(/^v1\./);
+    expect(row.encryptedToken).not.toContain(saved.accessToken);
+    expect(row.fingerprint).not.toContain(oauth.clientSecret);
+
+    // As a restarted gateway would
+    expect(createTokenCache(PRIMARY_TARGET, oauth, PASSPHRASE).load()).toEqual(saved);
+
+    cache.clear();
+    expect(cache.load()).toBeNull();
+  }));
+
+  it('ignores a token obtained with other credentials or under another key', () => runWithDatabase(db, () => {
+    createTokenCache(PRIMARY_TARGET, oauth, PASSPHRASE).save(token());
+
+    expect(createTokenCache(PRIMARY_TARGET, { ...oauth, clientSecret: 'rotated-secret' }, PASSPHRASE).load()).toBeNull();
+    expect(createTokenCache(PRIMARY_TARGET, { ...oauth, userId: 'user-1' }, PASSPHRASE).load()).toBeNull();
+    expect(createTokenCache(PRIMARY_TARGET, oauth, 'another-cache-passphrase').load()).toBeNull();
+  }));
+
+  it('ignores a token moved to another LD account', () => runWithDatabase(db, () => {
+    createTokenCache(PRIMARY_TARGET, oauth, PASSPHRASE).save(token());
+    db.prepare("UPDATE oauth_token_cache SET target = 'staging' WHERE target = ?").run(PRIMARY_TARGET);
+
+    expect(createTokenCache('staging', oauth, PASSPHRASE).load()).toBeNull();
+  }));
+
+  it('ignores an expired token', () => runWithDatabase(db, () => {
+    const cache = createTokenCache(PRIMARY_TARGET, oauth, PASSPHRASE);
+    cache.save(token(-1000));
+
+    expect(cache.load()).toBeNull();
+  }));
+});
@@ -0,0 +1,119 @@
+/**
+ * LaunchDarkly OAuth Token Cache
+ *
+ * Keeps the OAuth token of each LaunchDarkly account in the tenant database,
+ * encrypted with AES-256-GCM under LD_TOKEN_CACHE_KEY, so that a restarted
+ * gateway, or another replica sharing the database, reuses it instead of
+ * calling the token endpoint. A cached token is only reused with the
+ * credentials it was obtained with.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scryptSync } from 'crypto';
+import { LdOAuthConfig } from '../config/index.js';
+import { getCachedOAuthToken, saveCachedOAuthToken, deleteCachedOAuthToken } from '../db/oauth-token-cache.js';
+import { logger } from '../middleware/logging.js';
+
+/**
+ * A token as kept by the TokenManager
+ */
+export interface CachedToken {
+  accessToken: string;
+  obtainedAt: Date;
+  expiresAt: Date;
+  /** Whether the token endpoint gave no lifetime and expiresAt is a guess */
+  expiryAssumed: boolean;
+}
+
+/**
+ * Where a TokenManager keeps its token between restarts
+ */
+export interface TokenCache {
+  /** The cached token, if there is one that is still valid */
+  load(): CachedToken | null;
+  save(token: CachedToken): void;
+  clear(): void;
+}
+
+const FORMAT_VERSION = 'v1';
+
+/**
+ * Create the database cache of an LD account's token
+ *
+ * @param target the LD account: PRIMARY_TARGET or a name from LD_TARGETS
+ * @param passphrase LD_TOKEN_CACHE_KEY
+ */
+export function createTokenCache(target: string, oauth: LdOAuthConfig, passphrase: string): TokenCache {
+  const key = scryptSync(passphrase, 'scim-gateway-ld-token-cache', 32);
+  // Keyed, so the stored value reveals nothing about the client secret
+  const fingerprint = createHmac('sha256', key)
+    .update(JSON.stringify([oauth.tokenUrl, oauth.clientId, oauth.clientSecret, oauth.scope, oauth.userId ?? '']))
+    .digest('hex');
+  const aad = Buffer.from(`${target}:${fingerprint}`);
+
+  function encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv).setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+      .join('.');
+  }
+
+  function decrypt(value: string): string {
+    const [version, iv, tag, ciphertext] = value.split('.');
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unknown cache format ${version}`);
+    }
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'))
+      .setAAD(aad)
+      .setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  }
+
+  return {
+    load(): CachedToken | null {
+      const row = getCachedOAuthToken(target);
+      if (!row) {
+        return null;
+      }
+      if (row.fingerprint !== fingerprint) {
+        logger.info({ target }, 'Ignoring cached LaunchDarkly token obtained with other credentials or another LD_TOKEN_CACHE_KEY');
+        return null;
+      }
+      const expiresAt = new Date(row.expiresAt);
+      if (expiresAt.getTime() <= Date.now()) {
+        return null;
+      }
+
+      try {
+        return {
+          accessToken: decrypt(row.encryptedToken),
+          obtainedAt: new Date(row.obtainedAt),
+          expiresAt,
+          expiryAssumed: row.expiryAssumed,
+        };
+      } catch (error) {
+        logger.warn(
+          { target, error: error instanceof Error ? error.message : String(error) },
+          'Cannot decrypt cached LaunchDarkly token (was LD_TOKEN_CACHE_KEY changed?), ignoring it'
+        );
+        return null;
+      }
+    },
+
+    save(token: CachedToken): void {
+      saveCachedOAuthToken({
+        target,
+        fingerprint,
+        encryptedToken: encrypt(token.accessToken),
+        obtainedAt: token.obtainedAt.toISOString(),
+        expiresAt: token.expiresAt.toISOString(),
+        expiryAssumed: token.expiryAssumed,
+      });
+    },
+
+    clear(): void {
+      deleteCachedOAuthToken(target);
+    },
+  };
+}
@@ -1,11 +1,17 @@
 /**
  * OAuth2 Token Manager
- * 
+ *
  * Handles obtaining and refreshing access tokens from LaunchDarkly
- * using the client credentials flow.
+ * using the client credentials flow. Once started, tokens are refreshed in
+ * the background well before they expire, so IdP requests do not wait on the
+ * token endpoint, and a failed refresh is retried while the current token is
+ * still valid. With a cache, the token survives restarts.
  */
 
 import { logger } from '../middleware/logging.js';
+import { recordTokenRefresh } from '../middleware/metrics.js';
+import { PRIMARY_TARGET } from '../config/index.js';
+import { CachedToken, TokenCache } from './token-cache.js';
 
 export interface TokenManagerConfig {
   /** LaunchDarkly OAuth2 token endpoint */
@@ -20,6 +26,10 @@ export interface TokenManagerConfig {
   userId?: string;
   /** Buffer time before expiry to refresh token (in seconds) */
   refreshBufferSeconds?: number;
+  /** LD account the token is for, in metrics (defaults to PRIMARY_TARGET) */
+  target?: string;
+  /** Keeps the token between restarts */
+  cache?: TokenCache;
 }
 
 interface TokenResponse {
@@ -29,21 +39,86 @@ interface TokenResponse {
   scope?: string;
 }
 
+/**
+ * State of the managed token, for health checks
+ * - ok: the token is valid and the last refresh succeeded
+ * - refresh_failing: the last refresh failed, but the token is still valid
+ * - expiring: refreshes keep failing and over half the refresh window is gone
+ * - expired: there is no valid token
+ */
+export interface TokenStatus {
+  state: 'ok' | 'refresh_failing' | 'expiring' | 'expired';
+  expiresAt: string | null;
+  /** Whether the token endpoint gave no lifetime and expiresAt is a guess */
+  expiryAssumed: boolean;
+  /** When the background refresh is due */
+  refreshAt: string | null;
+  lastRefreshAt: string | null;
+  lastRefreshError: string | null;
+  cache: 'enabled' | 'disabled';
+}
+
+/** Lifetime assumed when the token endpoint returns no expires_in (LaunchDarkly SCIM tokens last a year) */
+const ASSUMED_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Share of a token's lifetime left when it is refreshed in the background */
+const REFRESH_AT_REMAINING_FRACTION = 0.2;
+
+/** Delays between background refresh attempts after a failure */
+const RETRY_MIN_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** Longest delay setTimeout supports */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 /**
  * Manages OAuth2 access tokens with automatic refresh
  */
 export class TokenManager {
   private config: TokenManagerConfig;
   private accessToken: string | null = null;
+  private obtainedAt: Date | null = null;
   private expiresAt: Date | null = null;
+  private expiryAssumed = false;
   private refreshBufferMs: number;
   private refreshPromise: Promise<string> | null = null;
+  private lastRefreshAt: Date | null = null;
+  private lastRefreshError: string | null = null;
+  private retryDelayMs = RETRY_MIN_DELAY_MS;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
 
   constructor(config: TokenManagerConfig) {
     this.config = config;
     this.refreshBufferMs = (config.refreshBufferSeconds ?? 60) * 1000;
   }
 
+  private get target(): string {
+    return this.config.target ?? PRIMARY_TARGET;
+  }
+
+  /**
+   * Restore the cached token, if any, and keep the token refreshed in the
+   * background. Returns a function that stops the background refresh.
+   */
+  start(): () => void {
+    const cached = this.config.cache?.load();
+    if (cached && !this.accessToken) {
+      this.useToken(cached);
+      logger.info({ target: this.target, expiresAt: cached.expiresAt.toISOString() }, 'Using cached LaunchDarkly OAuth token');
+    }
+
+    this.running = true;
+    this.scheduleRefresh();
+    return () => {
+      this.running = false;
+      if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
   /**
    * Get a valid access token, refreshing if necessary
    */
@@ -53,6 +128,13 @@ export class TokenManager {
       return this.accessToken;
     }
 
+    return this.refreshOnce();
+  }
+
+  /**
+   * Refresh the token, or wait for the refresh already in progress
+   */
+  private async refreshOnce(): Promise<string> {
     // If a refresh is already in progress, wait for it
     if (this.refreshPromise) {
       return this.refreshPromise;
@@ -81,6 +163,73 @@ export class TokenManager {
     return now >= bufferTime;
   }
 
+  /**
+   * When the background refresh is due: once most of the token's lifetime
+   * has passed, and well before the refresh buffer, but never before half of
+   * it has passed
+   */
+  private refreshDueAt(): number {
+    if (!this.expiresAt || !this.obtainedAt) {
+      return Date.now();
+    }
+    const lifetime = this.expiresAt.getTime() - this.obtainedAt.getTime();
+    const lead = Math.max(2 * this.refreshBufferMs, lifetime * REFRESH_AT_REMAINING_FRACTION);
+    return this.expiresAt.getTime() - Math.min(lead, lifetime / 2);
+  }
+
+  /**
+   * Run the background refresh when it is due, or after delayMs
+   */
+  private scheduleRefresh(delayMs?: number): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    const delay = delayMs ?? Math.max(0, this.refreshDueAt() - Date.now());
+    // Long delays are split into several timers; backgroundRefresh checks it is due
+    this.timer = setTimeout(() => void this.backgroundRefresh(), Math.min(delay, MAX_TIMER_DELAY_MS));
+  }
+
+  private async backgroundRefresh(): Promise<void> {
+    this.timer = null;
+    if (this.lastRefreshError === null && Date.now() < this.refreshDueAt()) {
+      this.scheduleRefresh();
+      return;
+    }
+
+    try {
+      await this.refreshOnce();
+    } catch {
+      // Logged by refreshToken
+    }
+    // A successful refresh reschedules itself
+    if (this.lastRefreshError !== null) {
+      const retryIn = this.retryDelayMs;
+      this.retryDelayMs = Math.min(this.retryDelayMs * 2, RETRY_MAX_DELAY_MS);
+      const status = this.status();
+      const level = status.state === 'refresh_failing' ? 'warn' : 'error';
+      logger[level](
+        { target: this.target, state: status.state, expiresAt: status.expiresAt, retryInSeconds: retryIn / 1000 },
+        status.state === 'expired'
+          ? 'LaunchDarkly OAuth token has expired and cannot be refreshed'
+          : 'LaunchDarkly OAuth token could not be refreshed ahead of expiry, retrying'
+      );
+      this.scheduleRefresh(retryIn);
+    }
+  }
+
+  /**
+   * Use a new or cached token
+   */
+  private useToken(token: CachedToken): void {
+    this.accessToken = token.accessToken;
+    this.obtainedAt = token.obtainedAt;
+    this.expiresAt = token.expiresAt;
+    this.expiryAssumed = token.expiryAssumed;
+  }
+
   /**
    * Refresh the access token using client credentials grant
    */
@@ -119,36 +268,65 @@ export class TokenManager {
       }
 
       const data = (await response.json()) as TokenResponse;
+      const obtainedAt = new Date();
 
-      this.accessToken = data.access_token;
+      // Calculate expiry time: expires_in, else the exp claim of a JWT token, else assumed
+      const jwtExpiry = data.expires_in ? null : jwtExpiresAt(data.access_token);
+      const token: CachedToken = {
+        accessToken: data.access_token,
+        obtainedAt,
+        expiresAt: data.expires_in
+          ? new Date(obtainedAt.getTime() + data.expires_in * 1000)
+          : jwtExpiry ?? new Date(obtainedAt.getTime() + ASSUMED_LIFETIME_MS),
+        expiryAssumed: !data.expires_in && !jwtExpiry,
+      };
+      this.useToken(token);
 
-      // Calculate expiry time
-      if (data.expires_in) {
-        this.expiresAt = new Date(Date.now() + data.expires_in * 1000);
+      if (token.expiryAssumed) {
+        logger.warn(
+          { target: this.target, expiresAt: token.expiresAt.toISOString() },
+          'Token endpoint returned no expires_in; assuming the LaunchDarkly OAuth token is valid for 1 year'
+        );
+      } else {
         logger.debug(
-          { expiresIn: data.expires_in, expiresAt: this.expiresAt.toISOString() },
+          { expiresIn: data.expires_in, expiresAt: token.expiresAt.toISOString() },
           'Access token obtained'
         );
-      } else {
-        // LaunchDarkly SCIM tokens are valid for 1 year if no expires_in provided
-        const oneYearInSeconds = 365 * 24 * 60 * 60;
-        this.expiresAt = new Date(Date.now() + oneYearInSeconds * 1000);
-        logger.debug('Access token obtained (assuming 1 year expiry for SCIM)');
       }
 
-      return this.accessToken;
+      this.lastRefreshAt = obtainedAt;
+      this.lastRefreshError = null;
+      this.retryDelayMs = RETRY_MIN_DELAY_MS;
+      this.saveToCache(token);
+      recordTokenRefresh(this.target, token.expiresAt);
+      this.scheduleRefresh();
+      return token.accessToken;
     } catch (error) {
+      this.lastRefreshError = error instanceof Error ? error.message : String(error);
+      recordTokenRefresh(this.target, null);
       logger.error({ error }, 'Error refreshing access token');
       throw error;
     }
   }
 
+  /**
+   * Cache a token; the gateway keeps working without the cache
+   */
+  private saveToCache(token: CachedToken): void {
+    try {
+      this.config.cache?.save(token);
+    } catch (error) {
+      logger.warn({ target: this.target, error: error instanceof Error ? error.message : String(error) }, 'Failed to cache LaunchDarkly OAuth token');
+    }
+  }
+
   /**
    * Force a token refresh (useful for handling 401 errors)
    */
   async forceRefresh(): Promise<string> {
     this.accessToken = null;
     this.expiresAt = null;
+    this.config.cache?.clear();
     return this.getAccessToken();
   }
 
@@ -158,5 +336,42 @@ export class TokenManager {
   hasValidToken(): boolean {
     return this.accessToken !== null && !this.isTokenExpiringSoon();
   }
+
+  /**
+   * State of the token, for /health and /ready
+   */
+  status(): TokenStatus {
+    const now = Date.now();
+    const refreshAt = this.expiresAt ? this.refreshDueAt() : null;
+
+    let state: TokenStatus['state'] = 'ok';
+    if (!this.accessToken || !this.expiresAt || now >= this.expiresAt.getTime()) {
+      state = 'expired';
+    } else if (this.lastRefreshError !== null) {
+      const warnAt = refreshAt! + (this.expiresAt.getTime() - refreshAt!) / 2;
+      state = now >= warnAt ? 'expiring' : 'refresh_failing';
+    }
+
+    return {
+      state,
+      expiresAt: this.expiresAt?.toISOString() ?? null,
+      expiryAssumed: this.expiryAssumed,
+      refreshAt: refreshAt ? new Date(refreshAt).toISOString() : null,
+      lastRefreshAt: this.lastRefreshAt?.toISOString() ?? null,
+      lastRefreshError: this.lastRefreshError,
+      cache: this.config.cache ? 'enabled' : 'disabled',
+    };
+  }
 }
 
+/**
+ * Expiry of an access token that is a JWT with an exp claim
+ */
+function jwtExpiresAt(token: string): Date | null {
+  try {
+    const claims = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'));
+    return typeof claims?.exp === 'number' ? new Date(claims.exp * 1000) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Inbound Token CLI
+ *
+ * Issues, lists and revokes the bearer tokens the IdP uses for the SCIM
+ * endpoints. It reads the same environment as the gateway to find the
+ * database, and can run while the gateway is up: changes apply to the next
+ * request. To rotate, issue a new token, configure it in the IdP, then
+ * revoke the old one once its last use stops moving.
+ *
+ *   npm run tokens -- issue --label <label> [--expires-in-days <days>] [--tenant <name>]
+ *   npm run tokens -- list [--tenant <name>]
+ *   npm run tokens -- revoke <id> [--tenant <name>]
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { AppConfig, loadConfig, loadTenantConfigs, isMultiTenant } from '../config/index.js';
+import { openDatabase, closeDatabase, runWithDatabase } from '../db/index.js';
+import { InboundToken, listInboundTokens, revokeInboundToken, getInboundToken } from '../db/inbound-tokens.js';
+import { issueInboundToken } from '../auth/inbound-tokens.js';
+import { logger } from '../middleware/logging.js';
+
+const USAGE = `Usage:
+  tokens issue --label <label> [--expires-in-days <days>] [--tenant <name>]
+  tokens list [--tenant <name>]
+  tokens revoke <id> [--tenant <name>]`;
+
+/**
+ * Error worth showing without a stack trace
+ */
+class UsageError extends Error {}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      label: { type: 'string' },
+      'expires-in-days': { type: 'string' },
+      tenant: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Keep stdout for the command's output
+  logger.level = 'warn';
+
+  const database = openDatabase(selectConfig(values.tenant).databasePath);
+  try {
+    runWithDatabase(database, () => {
+      switch (command) {
+        case 'issue':
+          issue(values.label, values['expires-in-days']);
+          break;
+        case 'list':
+          list();
+          break;
+        case 'revoke':
+          revoke(args[0]);
+          break;
+        default:
+          throw new UsageError(`Unknown command "${command}"\n${USAGE}`);
+      }
+    });
+  } finally {
+    closeDatabase(database);
+  }
+}
+
+/**
+ * Configuration of the tenant whose tokens are managed
+ */
+function selectConfig(tenant: string | undefined): AppConfig {
+  if (!isMultiTenant()) {
+    if (tenant) {
+      throw new UsageError('--tenant is only valid when TENANTS is set');
+    }
+    return loadConfig();
+  }
+
+  const tenants = loadTenantConfigs();
+  if (!tenant) {
+    throw new UsageError(`TENANTS is set: choose a tenant with --tenant (${tenants.map((t) => t.name).join(', ')})`);
+  }
+  const match = tenants.find((t) => t.name === tenant);
+  if (!match) {
+    throw new UsageError(`Unknown tenant "${tenant}"`);
+  }
+  return match.config;
+}
+
+function issue(label: string | undefined, expiresInDays: string | undefined): void {
+  if (!label?.trim()) {
+    throw new UsageError('issue needs a --label, e.g. the IdP and the date');
+  }
+
+  let days: number | null = null;
+  if (expiresInDays !== undefined) {
+    days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new UsageError('--expires-in-days must be a whole number of days, at least 1');
+    }
+  }
+
+  const { secret, token } = issueInboundToken(label.trim(), days);
+  console.log(`Issued token ${token.id} (${token.label}), expires ${token.expiresAt ? `${token.expiresAt} UTC` : 'never'}`);
+  console.log('Configure it in the IdP now; it is not stored and cannot be shown again:');
+  console.log('');
+  console.log(secret);
+}
+
+function list(): void {
+  const tokens = listInboundTokens();
+  if (tokens.length === 0) {
+    console.log('No tokens issued');
+    return;
+  }
+
+  const rows = [
+    ['ID', 'LABEL', 'STATUS', 'CREATED', 'EXPIRES', 'LAST USED'],
+    ...tokens.map((t) => [t.id, t.label, status(t), t.createdAt, t.expiresAt ?? 'never', t.lastUsedAt ?? 'never']),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+  }
+  console.log('\nTimes are UTC');
+}
+
+function revoke(id: string | undefined): void {
+  if (!id) {
+    throw new UsageError('revoke needs the ID of a token, as shown by list');
+  }
+
+  const token = getInboundToken(id);
+  if (!token) {
+    throw new UsageError(`No token with ID ${id}`);
+  }
+  if (!revokeInboundToken(id)) {
+    console.log(`Token ${id} (${token.label}) was already revoked`);
+    return;
+  }
+  console.log(`Revoked token ${id} (${token.label})`);
+}
+
+/**
+ * Whether a token is still accepted
+ */
+function status(token: InboundToken): string {
+  if (token.revokedAt) {
+    return 'revoked';
+  }
+  // SQLite datetime() values are UTC
+  if (token.expiresAt && new Date(`${token.expiresAt.replace(' ', 'T')}Z`) <= new Date()) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof UsageError ? error.message : error);
+  process.exitCode = 1;
+}
@@ -1,6 +1,9 @@
 import fs from 'fs';
 import path from 'path';
-import yaml from 'js-yaml';
+import type { LdBuiltInRole } from '../scim/schemas/launchdarkly.js';
+import type { RetryPolicy } from '../scim/client/retry.js';
+import type { CircuitBreakerConfig } from '../scim/client/circuit-breaker.js';
+import { loadMappingConfig, checkMappingTargets, checkTeamsSyncMappings, MappingConfigInfo } from './mappings.js';
 
 /**
  * Role mapping configuration
@@ -11,6 +14,165 @@ export interface RoleMapping {
   aliceRole: string;
   /** The LaunchDarkly custom role key(s) to assign */
   ldCustomRoles: string[];
+  /** Optional LaunchDarkly base role to assign */
+  ldRole?: LdBuiltInRole;
+  /** Hold the grant for each user until an admin approves it */
+  requiresApproval?: boolean;
+}
+
+/**
+ * Group mapping configuration
+ * Maps Alice group displayNames to LaunchDarkly custom role keys
+ */
+export interface GroupMapping {
+  /** The displayName of the group pushed by Alice to /Groups */
+  aliceGroup: string;
+  /** The LaunchDarkly custom role key(s) granted to every member of the group */
+  ldCustomRoles: string[];
+  /** Optional LaunchDarkly base role granted to every member of the group */
+  ldRole?: LdBuiltInRole;
+  /** Hold the grant for each user until an admin approves it */
+  requiresApproval?: boolean;
+}
+
+/**
+ * User attributes that role rules can match on
+ * - roles: roles[].value
+ * - groups: groups[].display as sent by Alice on the User
+ * - entitlements: entitlements[].value
+ * - userType, title: core User attributes
+ * - department, organization, division, costCenter, employeeNumber: Enterprise User extension attributes
+ */
+export type RoleRuleAttribute =
+  | 'roles'
+  | 'groups'
+  | 'entitlements'
+  | 'userType'
+  | 'title'
+  | 'department'
+  | 'organization'
+  | 'division'
+  | 'costCenter'
+  | 'employeeNumber';
+
+/**
+ * A single role rule condition. Exactly one of equals, glob or regex is set.
+ */
+export interface RoleRuleCondition {
+  attribute: RoleRuleAttribute;
+  /** Exact, case-sensitive match */
+  equals?: string;
+  /** Glob pattern where * matches any characters and ? matches one */
+  glob?: string;
+  /** Regular expression (JavaScript syntax) */
+  regex?: string;
+}
+
+/**
+ * Attribute-based role rule
+ */
+export interface RoleRule {
+  /** Rule name, used in logs */
+  name: string;
+  /** Evaluation order: lower values are evaluated first (default 100) */
+  priority: number;
+  /** Whether all conditions (AND) or any condition (OR) must match */
+  match: 'all' | 'any';
+  conditions: RoleRuleCondition[];
+  /** The LaunchDarkly custom role key(s) to assign when the rule matches */
+  ldCustomRoles: string[];
+  /** Optional LaunchDarkly base role to assign when the rule matches */
+  ldRole?: LdBuiltInRole;
+  /** Hold the grant for each user until an admin approves it */
+  requiresApproval?: boolean;
+  /** Stop evaluating lower-priority rules once this rule matches */
+  stop?: boolean;
+}
+
+/**
+ * How to resolve a user matching several mapping entries
+ * - highest_privilege: combine every matched entry's custom roles and use the
+ *   most privileged base role (admin > writer > reader > no_access)
+ * - first_match: use only the first matched entry, in the order role_mappings,
+ *   group_mappings, then role_rules by priority
+ */
+export type RolePrecedence = 'highest_privilege' | 'first_match';
+
+/**
+ * What happens to a user's LaunchDarkly member when Alice deprovisions them
+ * - delete: delete the member
+ * - deactivate: set the member inactive
+ * - downgrade: keep the member active with the no_access base role and no custom roles
+ * - deactivate_then_delete: set the member inactive, then delete it after the grace period
+ */
+export type DeprovisionAction = 'delete' | 'deactivate' | 'downgrade' | 'deactivate_then_delete';
+
+/**
+ * Deprovisioning policy
+ */
+export interface DeprovisioningPolicy {
+  /** Action when Alice deletes a user */
+  onDelete: DeprovisionAction;
+  /** Action when Alice sets a user inactive; the member is kept for reactivation */
+  onDeactivate: Extract<DeprovisionAction, 'deactivate' | 'downgrade'>;
+  /** Days a deactivate_then_delete member is kept before it is deleted */
+  gracePeriodDays: number;
+}
+
+/**
+ * Approval of grants held by mapping entries marked requiresApproval
+ */
+export interface ApprovalPolicy {
+  /** Days a pending approval request waits for a decision before it expires */
+  expireAfterDays: number;
+}
+
+/**
+ * Replaces the domain of an email address or userName
+ */
+export interface DomainRewrite {
+  /** Domain to replace, matched case-insensitively */
+  from: string;
+  to: string;
+}
+
+/**
+ * How Alice's User attributes are transformed before they are sent to LaunchDarkly
+ */
+export interface AttributeMappings {
+  emails: {
+    /** all: every email, in Alice's order; primary: only the primary email (the first if none is marked) */
+    select: 'all' | 'primary';
+    lowercase: boolean;
+    domainRewrites: DomainRewrite[];
+  };
+  userName: {
+    lowercase: boolean;
+    domainRewrites: DomainRewrite[];
+  };
+  name: {
+    /** Derive givenName and familyName from displayName when Alice sends neither */
+    fromDisplayName: boolean;
+  };
+}
+
+/**
+ * Limits on what the gateway may write to a LaunchDarkly account, whatever
+ * Alice sends and the mappings grant
+ */
+export interface Guardrails {
+  /** Email domains users may be created with (subdomains included); empty allows any */
+  allowedEmailDomains: string[];
+  /** Email domains users may not be created with (subdomains included) */
+  deniedEmailDomains: string[];
+  /** LD member IDs or userNames the gateway never modifies or deletes */
+  protectedMembers: string[];
+  /** Custom role keys, or globs (* and ?), that may be granted; empty allows any */
+  allowedCustomRoles: string[];
+  /** Custom role keys, or globs (* and ?), that may never be granted */
+  deniedCustomRoles: string[];
+  /** Most privileged base role that may be granted */
+  maxBaseRole: LdBuiltInRole;
 }
 
 /**
@@ -18,8 +180,38 @@ export interface RoleMapping {
  */
 export interface MappingConfig {
   roleMappings: RoleMapping[];
-  /** Default LD base role if no custom role mapping matches */
-  defaultRole: 'reader' | 'writer' | 'admin' | 'no_access';
+  groupMappings: GroupMapping[];
+  /** Role rules, sorted by priority */
+  roleRules: RoleRule[];
+  /** Conflict resolution when several mapping entries match */
+  rolePrecedence: RolePrecedence;
+  /** Default LD base role if no mapping entry matches */
+  defaultRole: LdBuiltInRole;
+  /** Additional LaunchDarkly accounts users are provisioned into (top level only) */
+  targets: TargetMapping[];
+  /** Deprovisioning policy (top level only; targets use the top-level one for inactive users) */
+  deprovisioning: DeprovisioningPolicy;
+  /** Attribute transforms (top level only; targets use the top-level ones) */
+  attributeMappings: AttributeMappings;
+  /** Write limits (targets without their own use the top-level ones) */
+  guardrails: Guardrails;
+  /** Approval requests (top level only) */
+  approvals: ApprovalPolicy;
+}
+
+/**
+ * Which users are provisioned into an additional LaunchDarkly account, and
+ * the mappings that decide their roles there
+ */
+export interface TargetMapping {
+  /** Name of the target in LD_TARGETS */
+  name: string;
+  /** Whether all conditions (AND) or any condition (OR) must match */
+  match: 'all' | 'any';
+  /** Conditions a user must meet to be provisioned; empty means every user */
+  conditions: RoleRuleCondition[];
+  /** Role mappings, group mappings, rules and defaults used in this account */
+  mappings: MappingConfig;
 }
 
 /**
@@ -38,6 +230,93 @@ export interface LdOAuthConfig {
   userId?: string;
 }
 
+/**
+ * Name of the LaunchDarkly account configured by the plain LD_* variables,
+ * in job records and metrics
+ */
+export const PRIMARY_TARGET = 'primary';
+
+/**
+ * An additional LaunchDarkly account that users are fanned out to
+ */
+export interface LdTargetConfig {
+  /** Name used in mappings.yaml and in job records and metrics */
+  name: string;
+  /** LaunchDarkly SCIM API base URL */
+  ldScimBaseUrl: string;
+  /** LaunchDarkly OAuth2 configuration (preferred) */
+  ldOAuth?: LdOAuthConfig;
+  /** LaunchDarkly OAuth2 access token (alternative to OAuth config) */
+  ldAccessToken?: string;
+}
+
+/**
+ * LaunchDarkly Teams sync configuration
+ */
+export interface LdTeamsConfig {
+  /** LaunchDarkly REST API base URL */
+  apiBaseUrl: string;
+}
+
+/**
+ * Validation of signed JWTs presented by the IdP as bearer tokens
+ */
+export interface InboundJwtConfig {
+  /** URL of the IdP's JWKS (exclusive with jwksFile) */
+  jwksUrl?: string;
+  /** Local JWKS file (exclusive with jwksUrl) */
+  jwksFile?: string;
+  /** Required iss claim */
+  issuer: string;
+  /** Accepted aud claim values; a token must carry at least one */
+  audiences: string[];
+  /** Scopes a token must all carry, in its scope, scp or roles claim */
+  requiredScopes: string[];
+  /** Leeway allowed on exp and nbf, in seconds */
+  clockSkewSeconds: number;
+}
+
+/**
+ * What the drift reconciler does with what it finds
+ * - report: log and report drift only
+ * - correct: also relink or recreate missing members and revert role drift
+ */
+export type ReconcileMode = 'report' | 'correct';
+
+/**
+ * Drift reconciliation configuration
+ */
+export interface ReconcileConfig {
+  /** Minutes between scheduled runs; 0 disables the schedule */
+  intervalMinutes: number;
+  mode: ReconcileMode;
+}
+
+/**
+ * How inbound SCIM writes reach LaunchDarkly
+ * - sync: applied before responding to Alice
+ * - async: recorded as jobs and acknowledged, then applied by a background worker
+ */
+export type WriteMode = 'sync' | 'async';
+
+/**
+ * Where trace spans are exported
+ * - none: tracing is off
+ * - otlp: OTLP over HTTP, configured by the standard OTEL_EXPORTER_OTLP_* variables
+ * - file: appended to a local JSON-lines file
+ */
+export type TracesExporter = 'none' | 'otlp' | 'file';
+
+/**
+ * OpenTelemetry tracing configuration
+ */
+export interface TracingConfig {
+  exporter: TracesExporter;
+  /** File spans are written to by the file exporter */
+  filePath: string;
+  serviceName: string;
+}
+
 /**
  * Application configuration
  */
@@ -54,85 +333,290 @@ export interface AppConfig {
   /** LaunchDarkly OAuth2 access token (alternative to OAuth config) */
   ldAccessToken?: string;
 
-  /** Bearer token for Alice to authenticate to this gateway */
-  gatewayBearerToken: string;
+  /** Timeouts and retries for requests to the LaunchDarkly SCIM API */
+  ldRetry: RetryPolicy;
+
+  /** Most requests in flight to LaunchDarkly at once, across all clients */
+  ldMaxConcurrency: number;
+
+  /** Seconds LD users are cached for reads; 0 disables the cache */
+  ldUserCacheTtlSeconds: number;
+
+  /** Fail fast once LaunchDarkly has failed repeatedly (disabled when unset) */
+  ldCircuitBreaker?: CircuitBreakerConfig;
+
+  /** Seconds between background probes of the LaunchDarkly SCIM API for /ready */
+  ldProbeIntervalSeconds: number;
+
+  /** Additional LaunchDarkly accounts, selected per user by the targets in mappings.yaml */
+  ldTargets: LdTargetConfig[];
+
+  /** Sync Alice groups to LaunchDarkly Teams (when set, group roles go on the team) */
+  ldTeams?: LdTeamsConfig;
+
+  /** Bearer token for Alice to authenticate to this gateway, accepted alongside the issued tokens */
+  gatewayBearerToken?: string;
+
+  /** Accept JWTs signed by the IdP on the SCIM endpoints (disabled when unset) */
+  inboundJwt?: InboundJwtConfig;
+
+  /** Bearer token for the admin API and detailed health report (disabled when unset) */
+  adminBearerToken?: string;
+
+  /** Bearer token for scraping /metrics (metrics are not served when unset) */
+  metricsBearerToken?: string;
+
+  /** Key encrypting LaunchDarkly OAuth tokens cached in the database (no cache when unset) */
+  ldTokenCacheKey?: string;
 
   /** Database path (SQLite) */
   databasePath: string;
 
+  /** Whether user writes are applied immediately or queued as jobs */
+  writeMode: WriteMode;
+
+  /** Attempts before a queued job is moved to the dead-letter state */
+  jobMaxAttempts: number;
+
+  /** Users per second when re-applying mappings or correcting drift */
+  reapplyRatePerSecond: number;
+
+  /** Drift reconciliation between user_mappings and LaunchDarkly */
+  reconcile: ReconcileConfig;
+
+  /** OpenTelemetry tracing */
+  tracing: TracingConfig;
+
   /** Log level */
   logLevel: 'debug' | 'info' | 'warn' | 'error';
 
-  /** Role mapping configuration */
+  /** Role mapping configuration, replaced in place when mappings.yaml is reloaded */
   mappings: MappingConfig;
+
+  /** Version and hash of the mapping configuration in use */
+  mappingsInfo: MappingConfigInfo;
 }
 
+/** Settings that can be read from a file named by <SETTING>_FILE, such as a Docker secret */
+const SECRET_SETTINGS = ['GATEWAY_BEARER_TOKEN', 'ADMIN_BEARER_TOKEN', 'LD_CLIENT_SECRET', 'LD_ACCESS_TOKEN', 'LD_TOKEN_CACHE_KEY'];
+
 /**
- * Load mapping configuration from YAML file
+ * Read a secret from its variable or, with <name>_FILE set, from that file
+ * (e.g. /run/secrets/<secret> for a Docker secret), without its trailing newline
  */
-function loadMappingConfig(configPath: string): MappingConfig {
-  const defaultConfig: MappingConfig = {
-    roleMappings: [],
-    defaultRole: 'reader',
-  };
-
-  if (!fs.existsSync(configPath)) {
-    console.warn(`Mapping config not found at ${configPath}, using defaults`);
-    return defaultConfig;
+function readSecret(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const file = env[`${name}_FILE`];
+  if (!file) {
+    return env[name] || undefined;
+  }
+  if (env[name]) {
+    throw new Error(`Set either ${name} or ${name}_FILE, not both`);
   }
 
   try {
-    const fileContents = fs.readFileSync(configPath, 'utf8');
-    const config = yaml.load(fileContents) as Record<string, unknown>;
-
-    return {
-      roleMappings: (config.role_mappings as RoleMapping[]) || [],
-      defaultRole: (config.default_role as MappingConfig['defaultRole']) || 'reader',
-    };
+    return fs.readFileSync(file, 'utf8').replace(/\r?\n$/, '') || undefined;
   } catch (error) {
-    console.error(`Failed to load mapping config: ${error}`);
-    return defaultConfig;
+    throw new Error(`Cannot read ${name}_FILE: ${(error as Error).message}`);
   }
 }
 
+/** Tenant and target names are used in URLs, database file names and environment variable names */
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
 /**
- * Get required environment variable or throw
+ * Load application configuration from environment variables and config files
  */
-function getRequiredEnv(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`Required environment variable ${name} is not set`);
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const configDir = env.CONFIG_DIR || path.join(process.cwd(), 'config');
+  const mappingsPath = env.MAPPINGS_FILE || path.join(configDir, 'mappings.yaml');
+
+  const { ldScimBaseUrl, ldOAuth, ldAccessToken } = loadLdAccount(env, '');
+
+  const ldTargets = splitList(env.LD_TARGETS).map((name) => {
+    if (!NAME_PATTERN.test(name) || name === PRIMARY_TARGET) {
+      throw new Error(`Invalid LD target name "${name}": use lowercase letters, digits and dashes, other than "${PRIMARY_TARGET}"`);
+    }
+    return { name, ...loadLdAccount(env, `LD_TARGET_${envName(name)}_`) };
+  });
+  if (new Set(ldTargets.map((t) => t.name)).size !== ldTargets.length) {
+    throw new Error('LD_TARGETS lists the same target more than once');
+  }
+
+  // Teams sync is opt-in: group custom roles then attach to the team, not to each member
+  let ldTeams: LdTeamsConfig | undefined;
+  if (env.LD_TEAMS_SYNC === 'true') {
+    ldTeams = {
+      // Default to EU endpoint, US accounts should override: https://app.launchdarkly.com/api/v2
+      apiBaseUrl: env.LD_API_BASE_URL || 'https://app.eu.launchdarkly.com/api/v2',
+    };
+  }
+
+  // JWT bearer authentication is enabled by configuring where the IdP's keys are
+  let inboundJwt: InboundJwtConfig | undefined;
+  if (env.INBOUND_JWT_JWKS_URL || env.INBOUND_JWT_JWKS_FILE) {
+    if (env.INBOUND_JWT_JWKS_URL && env.INBOUND_JWT_JWKS_FILE) {
+      throw new Error('Set either INBOUND_JWT_JWKS_URL or INBOUND_JWT_JWKS_FILE, not both');
+    }
+    const audiences = splitList(env.INBOUND_JWT_AUDIENCE);
+    if (!env.INBOUND_JWT_ISSUER || audiences.length === 0) {
+      throw new Error('INBOUND_JWT_ISSUER and INBOUND_JWT_AUDIENCE are required when a JWKS is configured');
+    }
+    inboundJwt = {
+      jwksUrl: env.INBOUND_JWT_JWKS_URL || undefined,
+      jwksFile: env.INBOUND_JWT_JWKS_FILE || undefined,
+      issuer: env.INBOUND_JWT_ISSUER,
+      audiences,
+      requiredScopes: splitList(env.INBOUND_JWT_REQUIRED_SCOPES),
+      clockSkewSeconds: parseFloat(env.INBOUND_JWT_CLOCK_SKEW_SECONDS || '60'),
+    };
+    if (!(inboundJwt.clockSkewSeconds >= 0)) {
+      throw new Error('INBOUND_JWT_CLOCK_SKEW_SECONDS must be a number of seconds');
+    }
+  }
+
+  const ldTokenCacheKey = readSecret(env, 'LD_TOKEN_CACHE_KEY');
+  if (ldTokenCacheKey !== undefined && ldTokenCacheKey.length < 16) {
+    throw new Error('LD_TOKEN_CACHE_KEY must be at least 16 characters');
+  }
+
+  const ldRetry: RetryPolicy = {
+    timeoutMs: parseInt(env.LD_REQUEST_TIMEOUT_MS || '10000', 10),
+    maxRetries: parseInt(env.LD_MAX_RETRIES || '3', 10),
+    baseDelayMs: parseInt(env.LD_RETRY_BASE_DELAY_MS || '500', 10),
+    maxDelayMs: parseInt(env.LD_RETRY_MAX_DELAY_MS || '30000', 10),
+  };
+  if (!(ldRetry.timeoutMs > 0)) {
+    throw new Error('LD_REQUEST_TIMEOUT_MS must be a positive number of milliseconds');
+  }
+  if (!(ldRetry.maxRetries >= 0)) {
+    throw new Error('LD_MAX_RETRIES must be 0 or more');
+  }
+  if (!(ldRetry.baseDelayMs >= 0) || !(ldRetry.maxDelayMs >= ldRetry.baseDelayMs)) {
+    throw new Error('LD_RETRY_BASE_DELAY_MS and LD_RETRY_MAX_DELAY_MS must be milliseconds, with the maximum at least the base');
+  }
+
+  const ldMaxConcurrency = parseInt(env.LD_MAX_CONCURRENCY || '5', 10);
+  if (!(ldMaxConcurrency > 0)) {
+    throw new Error('LD_MAX_CONCURRENCY must be a positive number');
+  }
+  const ldUserCacheTtlSeconds = parseFloat(env.LD_USER_CACHE_TTL_SECONDS || '60');
+  if (!(ldUserCacheTtlSeconds >= 0)) {
+    throw new Error('LD_USER_CACHE_TTL_SECONDS must be a number of seconds (0 disables the cache)');
+  }
+
+  const ldCircuitFailureThreshold = parseInt(env.LD_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+  if (!(ldCircuitFailureThreshold >= 0)) {
+    throw new Error('LD_CIRCUIT_FAILURE_THRESHOLD must be a number of failures (0 disables the circuit breaker)');
+  }
+  const ldCircuitResetSeconds = parseFloat(env.LD_CIRCUIT_RESET_SECONDS || '30');
+  if (!(ldCircuitResetSeconds > 0)) {
+    throw new Error('LD_CIRCUIT_RESET_SECONDS must be a positive number of seconds');
+  }
+  const ldCircuitBreaker: CircuitBreakerConfig | undefined = ldCircuitFailureThreshold > 0
+    ? { failureThreshold: ldCircuitFailureThreshold, resetTimeoutMs: ldCircuitResetSeconds * 1000 }
+    : undefined;
+  const ldProbeIntervalSeconds = parseFloat(env.LD_PROBE_INTERVAL_SECONDS || '30');
+  if (!(ldProbeIntervalSeconds > 0)) {
+    throw new Error('LD_PROBE_INTERVAL_SECONDS must be a positive number of seconds');
+  }
+
+  const { mappings, info: mappingsInfo } = loadMappingConfig(mappingsPath);
+  checkMappingTargets(mappings, ldTargets.map((t) => t.name));
+  if (ldTeams) {
+    checkTeamsSyncMappings(mappings);
+  }
+
+  const writeMode = (env.WRITE_MODE as WriteMode) || 'sync';
+  if (writeMode !== 'sync' && writeMode !== 'async') {
+    throw new Error('WRITE_MODE must be either sync or async');
+  }
+  const jobMaxAttempts = parseInt(env.JOB_MAX_ATTEMPTS || '10', 10);
+  if (!(jobMaxAttempts > 0)) {
+    throw new Error('JOB_MAX_ATTEMPTS must be a positive number');
+  }
+
+  const reapplyRatePerSecond = parseFloat(env.REAPPLY_RATE_PER_SECOND || '5');
+  if (!(reapplyRatePerSecond > 0)) {
+    throw new Error('REAPPLY_RATE_PER_SECOND must be a positive number');
+  }
+
+  const reconcile: ReconcileConfig = {
+    intervalMinutes: parseFloat(env.RECONCILE_INTERVAL_MINUTES || '0'),
+    mode: (env.RECONCILE_MODE as ReconcileMode) || 'report',
+  };
+  if (!(reconcile.intervalMinutes >= 0)) {
+    throw new Error('RECONCILE_INTERVAL_MINUTES must be a number of minutes (0 disables the schedule)');
+  }
+  if (reconcile.mode !== 'report' && reconcile.mode !== 'correct') {
+    throw new Error('RECONCILE_MODE must be either report or correct');
   }
-  return value;
+
+  const tracing: TracingConfig = {
+    exporter: (env.OTEL_TRACES_EXPORTER as TracesExporter) || 'none',
+    filePath: env.OTEL_TRACES_FILE || './data/traces.jsonl',
+    serviceName: env.OTEL_SERVICE_NAME || 'scim-gateway',
+  };
+  if (!['none', 'otlp', 'file'].includes(tracing.exporter)) {
+    throw new Error('OTEL_TRACES_EXPORTER must be none, otlp or file');
+  }
+
+  return {
+    port: parseInt(env.PORT || '3000', 10),
+    ldScimBaseUrl,
+    ldOAuth,
+    ldAccessToken,
+    ldRetry,
+    ldMaxConcurrency,
+    ldUserCacheTtlSeconds,
+    ldCircuitBreaker,
+    ldProbeIntervalSeconds,
+    ldTargets,
+    ldTeams,
+    gatewayBearerToken: readSecret(env, 'GATEWAY_BEARER_TOKEN'),
+    inboundJwt,
+    adminBearerToken: readSecret(env, 'ADMIN_BEARER_TOKEN'),
+    metricsBearerToken: readSecret(env, 'METRICS_BEARER_TOKEN'),
+    ldTokenCacheKey,
+    databasePath: env.DATABASE_PATH || './data/scim-gateway.db',
+    writeMode,
+    jobMaxAttempts,
+    reapplyRatePerSecond,
+    reconcile,
+    tracing,
+    logLevel: (env.LOG_LEVEL as AppConfig['logLevel']) || 'info',
+    mappings,
+    mappingsInfo,
+  };
 }
 
 /**
- * Load application configuration from environment variables and config files
+ * Read the SCIM base URL and credentials of a LaunchDarkly account from the
+ * LD_* variables, each prefixed with prefix
  */
-export function loadConfig(): AppConfig {
-  const configDir = process.env.CONFIG_DIR || path.join(process.cwd(), 'config');
-  const mappingsPath = path.join(configDir, 'mappings.yaml');
-
+function loadLdAccount(
+  env: NodeJS.ProcessEnv,
+  prefix: string
+): Pick<LdTargetConfig, 'ldScimBaseUrl' | 'ldOAuth' | 'ldAccessToken'> {
   // Default to EU endpoint (for EU LaunchDarkly instances)
   // US accounts should override: https://app.launchdarkly.com/trust/scim/v2
-  const ldScimBaseUrl = process.env.LD_SCIM_BASE_URL || 'https://app.eu.launchdarkly.com/trust/scim/v2';
+  const ldScimBaseUrl = env[`${prefix}LD_SCIM_BASE_URL`] || 'https://app.eu.launchdarkly.com/trust/scim/v2';
   // Default to EU endpoint (for EU LaunchDarkly instances)
   // US accounts should override: https://app.launchdarkly.com/trust/oauth/token
-  const ldTokenUrl = process.env.LD_TOKEN_URL || 'https://app.eu.launchdarkly.com/trust/oauth/token';
+  const ldTokenUrl = env[`${prefix}LD_TOKEN_URL`] || 'https://app.eu.launchdarkly.com/trust/oauth/token';
 
   // Check for OAuth2 client credentials (preferred)
-  const ldClientId = process.env.LD_CLIENT_ID;
-  const ldClientSecret = process.env.LD_CLIENT_SECRET;
+  const ldClientId = env[`${prefix}LD_CLIENT_ID`];
+  const ldClientSecret = readSecret(env, `${prefix}LD_CLIENT_SECRET`);
 
   // Check for direct access token (alternative)
-  const ldAccessToken = process.env.LD_ACCESS_TOKEN;
+  const ldAccessToken = readSecret(env, `${prefix}LD_ACCESS_TOKEN`);
 
   // Validate that we have at least one authentication method
   if (!ldClientId && !ldAccessToken) {
     throw new Error(
       'Missing LaunchDarkly credentials. Set either:\n' +
-      '  - LD_CLIENT_ID and LD_CLIENT_SECRET (recommended), or\n' +
-      '  - LD_ACCESS_TOKEN (for pre-obtained tokens)'
+      `  - ${prefix}LD_CLIENT_ID and ${prefix}LD_CLIENT_SECRET (recommended), or\n` +
+      `  - ${prefix}LD_ACCESS_TOKEN (for pre-obtained tokens)`
     );
   }
 
@@ -143,22 +627,118 @@ export function loadConfig(): AppConfig {
       tokenUrl: ldTokenUrl,
       clientId: ldClientId,
       clientSecret: ldClientSecret,
-      scope: process.env.LD_OAUTH_SCOPE || 'scim',
-      userId: process.env.LD_OAUTH_USER_ID, // Optional userID if required
+      scope: env[`${prefix}LD_OAUTH_SCOPE`] || 'scim',
+      userId: env[`${prefix}LD_OAUTH_USER_ID`], // Optional userID if required
     };
   } else if (ldClientId && !ldClientSecret) {
-    throw new Error('LD_CLIENT_ID is set but LD_CLIENT_SECRET is missing');
+    throw new Error(`${prefix}LD_CLIENT_ID is set but ${prefix}LD_CLIENT_SECRET is missing`);
   }
 
-  return {
-    port: parseInt(process.env.PORT || '3000', 10),
-    ldScimBaseUrl,
-    ldOAuth,
-    ldAccessToken,
-    gatewayBearerToken: getRequiredEnv('GATEWAY_BEARER_TOKEN'),
-    databasePath: process.env.DATABASE_PATH || './data/scim-gateway.db',
-    logLevel: (process.env.LOG_LEVEL as AppConfig['logLevel']) || 'info',
-    mappings: loadMappingConfig(mappingsPath),
-  };
+  return { ldScimBaseUrl, ldOAuth, ldAccessToken };
+}
+
+/**
+ * Values of a comma-separated variable, empty when unset
+ */
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * A tenant name or target name as it appears in environment variable names
+ */
+function envName(name: string): string {
+  return name.toUpperCase().replace(/-/g, '_');
 }
 
+/**
+ * A tenant: one IdP app paired with one LaunchDarkly account
+ */
+export interface TenantConfig {
+  /** Route segment (/t/{name}) and suffix of the tenant's environment variables */
+  name: string;
+  config: AppConfig;
+}
+
+/** Settings of the whole process, which tenants cannot override */
+const PROCESS_WIDE_SETTINGS = new Set([
+  'PORT', 'LOG_LEVEL', 'OTEL_TRACES_EXPORTER', 'OTEL_TRACES_FILE', 'OTEL_SERVICE_NAME',
+  'METRICS_BEARER_TOKEN', 'METRICS_BEARER_TOKEN_FILE',
+]);
+
+/**
+ * Whether tenants are declared with TENANTS
+ */
+export function isMultiTenant(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.TENANTS?.trim());
+}
+
+/**
+ * Load the configuration of every tenant listed in TENANTS.
+ *
+ * Each tenant reads the same variables as a single-tenant gateway, with
+ * TENANT_<NAME>_<VARIABLE> taking precedence over <VARIABLE>, where NAME is
+ * the tenant name upper-cased with dashes as underscores. GATEWAY_BEARER_TOKEN
+ * is only read per tenant, never shared. Each tenant has its own database, by
+ * default DATABASE_PATH with the tenant name inserted before the extension.
+ */
+export function loadTenantConfigs(env: NodeJS.ProcessEnv = process.env): TenantConfig[] {
+  const names = splitList(env.TENANTS);
+  for (const name of names) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid tenant name "${name}": use lowercase letters, digits and dashes`);
+    }
+  }
+  if (new Set(names).size !== names.length) {
+    throw new Error('TENANTS lists the same tenant more than once');
+  }
+
+  const tenants = names.map((name): TenantConfig => {
+    const prefix = `TENANT_${envName(name)}_`;
+    const overrides: NodeJS.ProcessEnv = {};
+    for (const [key, value] of Object.entries(env)) {
+      const setting = key.slice(prefix.length);
+      if (key.startsWith(prefix) && value !== undefined && !PROCESS_WIDE_SETTINGS.has(setting)) {
+        overrides[setting] = value;
+      }
+    }
+
+    // Never inherit the shared inbound token; tenants without one use issued tokens only
+    overrides.GATEWAY_BEARER_TOKEN ??= '';
+    overrides.GATEWAY_BEARER_TOKEN_FILE ??= '';
+    // A tenant's secret, or secret file, replaces both forms of the shared one
+    for (const setting of SECRET_SETTINGS) {
+      if (overrides[setting] !== undefined || overrides[`${setting}_FILE`] !== undefined) {
+        overrides[setting] ??= '';
+        overrides[`${setting}_FILE`] ??= '';
+      }
+    }
+    overrides.DATABASE_PATH ??= tenantDatabasePath(env.DATABASE_PATH || './data/scim-gateway.db', name);
+
+    try {
+      return { name, config: loadConfig({ ...env, ...overrides }) };
+    } catch (error) {
+      throw new Error(`Tenant ${name}: ${(error as Error).message}`);
+    }
+  });
+
+  for (const [setting, value] of [
+    ['GATEWAY_BEARER_TOKEN', (c: AppConfig) => c.gatewayBearerToken],
+    ['DATABASE_PATH', (c: AppConfig) => path.resolve(c.databasePath)],
+  ] as const) {
+    const values = tenants.map((t) => value(t.config)).filter((v) => v !== undefined);
+    if (new Set(values).size !== values.length) {
+      throw new Error(`Each tenant needs its own ${setting}`);
+    }
+  }
+
+  return tenants;
+}
+
+/**
+ * Default database of a tenant: ./data/scim-gateway.db becomes ./data/scim-gateway.<tenant>.db
+ */
+function tenantDatabasePath(databasePath: string, tenant: string): string {
+  const { dir, name, ext } = path.parse(databasePath);
+  return path.join(dir, `${name}.${tenant}${ext}`);
+}
@@ -0,0 +1,713 @@
+/**
+ * Mapping Configuration Loader
+ *
+ * Parses and strictly validates config/mappings.yaml. Any problem - unknown
+ * keys, invalid role values, empty role lists, bad rule patterns - rejects
+ * the whole file, so a typo can never silently downgrade every user.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import yaml from 'js-yaml';
+import type {
+  MappingConfig,
+  TargetMapping,
+  RoleMapping,
+  GroupMapping,
+  RoleRule,
+  RoleRuleAttribute,
+  RoleRuleCondition,
+  RolePrecedence,
+  DeprovisionAction,
+  DeprovisioningPolicy,
+  AttributeMappings,
+  DomainRewrite,
+  Guardrails,
+  ApprovalPolicy,
+} from './index.js';
+import type { LdBuiltInRole } from '../scim/schemas/launchdarkly.js';
+
+/**
+ * Which mapping configuration is in use
+ */
+export interface MappingConfigInfo {
+  /** Path of the mappings file */
+  path: string;
+  /** The file's optional top-level version, if set */
+  version: string | null;
+  /** SHA-256 of the file contents, or null when running on defaults */
+  hash: string | null;
+  /** When this configuration was loaded */
+  loadedAt: string;
+  /** Error from the most recent reload attempt, if it was rejected */
+  lastReloadError?: string;
+}
+
+/**
+ * Error thrown when the mappings file is invalid.
+ * issues lists every problem found, each prefixed with its location.
+ */
+export class MappingConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid mapping config:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'MappingConfigError';
+  }
+}
+
+const MAPPING_SET_KEYS = ['role_mappings', 'group_mappings', 'role_rules', 'role_precedence', 'default_role'];
+const TOP_LEVEL_KEYS = [
+  'version', ...MAPPING_SET_KEYS, 'targets', 'deprovisioning', 'attribute_mappings', 'guardrails', 'approvals',
+];
+const TARGET_KEYS = ['name', 'match', 'conditions', ...MAPPING_SET_KEYS, 'guardrails'];
+const ROLE_MAPPING_KEYS = ['aliceRole', 'ldCustomRoles', 'ldRole', 'requiresApproval'];
+const GROUP_MAPPING_KEYS = ['aliceGroup', 'ldCustomRoles', 'ldRole', 'requiresApproval'];
+const ROLE_RULE_KEYS = ['name', 'priority', 'match', 'conditions', 'ldCustomRoles', 'ldRole', 'requiresApproval', 'stop'];
+const CONDITION_KEYS = ['attribute', 'equals', 'glob', 'regex'];
+const DEPROVISIONING_KEYS = ['on_delete', 'on_deactivate', 'grace_period_days'];
+const APPROVAL_KEYS = ['expire_after_days'];
+const ATTRIBUTE_MAPPING_KEYS = ['emails', 'userName', 'name'];
+const EMAILS_KEYS = ['select', 'lowercase', 'domain_rewrites'];
+const USER_NAME_KEYS = ['lowercase', 'domain_rewrites'];
+const NAME_KEYS = ['from_display_name'];
+const DOMAIN_REWRITE_KEYS = ['from', 'to'];
+const GUARDRAIL_KEYS = [
+  'allowed_email_domains', 'denied_email_domains', 'protected_members',
+  'allowed_custom_roles', 'denied_custom_roles', 'max_base_role',
+];
+
+const BASE_ROLES: LdBuiltInRole[] = ['reader', 'writer', 'admin', 'no_access'];
+const PRECEDENCES: RolePrecedence[] = ['highest_privilege', 'first_match'];
+const RULE_ATTRIBUTES: RoleRuleAttribute[] = [
+  'roles', 'groups', 'entitlements', 'userType', 'title',
+  'department', 'organization', 'division', 'costCenter', 'employeeNumber',
+];
+const DELETE_ACTIONS: DeprovisionAction[] = ['delete', 'deactivate', 'downgrade', 'deactivate_then_delete'];
+const DEACTIVATE_ACTIONS: DeprovisioningPolicy['onDeactivate'][] = ['deactivate', 'downgrade'];
+
+/** Attributes are sent as Alice sends them when mappings.yaml has no attribute_mappings section */
+const DEFAULT_ATTRIBUTE_MAPPINGS: AttributeMappings = {
+  emails: { select: 'all', lowercase: false, domainRewrites: [] },
+  userName: { lowercase: false, domainRewrites: [] },
+  name: { fromDisplayName: false },
+};
+
+/** Nothing is restricted when mappings.yaml has no guardrails section */
+const DEFAULT_GUARDRAILS: Guardrails = {
+  allowedEmailDomains: [],
+  deniedEmailDomains: [],
+  protectedMembers: [],
+  allowedCustomRoles: [],
+  deniedCustomRoles: [],
+  maxBaseRole: 'admin',
+};
+
+/** Approval requests when mappings.yaml has no approvals section */
+const DEFAULT_APPROVALS: ApprovalPolicy = {
+  expireAfterDays: 14,
+};
+
+/** Deprovisioning when mappings.yaml has no deprovisioning section */
+const DEFAULT_DEPROVISIONING: DeprovisioningPolicy = {
+  onDelete: 'delete',
+  onDeactivate: 'deactivate',
+  gracePeriodDays: 30,
+};
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Load the mapping configuration from a YAML file.
+ * A missing file falls back to defaults; an invalid one throws.
+ *
+ * @throws MappingConfigError if the file is invalid
+ */
+export function loadMappingConfig(configPath: string): { mappings: MappingConfig; info: MappingConfigInfo } {
+  if (!fs.existsSync(configPath)) {
+    console.warn(`Mapping config not found at ${configPath}, using defaults`);
+    return {
+      mappings: {
+        roleMappings: [],
+        groupMappings: [],
+        roleRules: [],
+        rolePrecedence: 'highest_privilege',
+        defaultRole: 'reader',
+        targets: [],
+        deprovisioning: DEFAULT_DEPROVISIONING,
+        attributeMappings: DEFAULT_ATTRIBUTE_MAPPINGS,
+        guardrails: DEFAULT_GUARDRAILS,
+        approvals: DEFAULT_APPROVALS,
+      },
+      info: { path: configPath, version: null, hash: null, loadedAt: new Date().toISOString() },
+    };
+  }
+
+  const contents = fs.readFileSync(configPath, 'utf8');
+  const { mappings, version } = parseMappingConfig(contents);
+
+  return {
+    mappings,
+    info: { path: configPath, version, hash: hashContents(contents), loadedAt: new Date().toISOString() },
+  };
+}
+
+/**
+ * SHA-256 of the mappings file contents
+ */
+export function hashContents(contents: string): string {
+  return crypto.createHash('sha256').update(contents).digest('hex');
+}
+
+/**
+ * Parse and validate mappings YAML
+ *
+ * @throws MappingConfigError if the YAML is invalid
+ */
+export function parseMappingConfig(contents: string): { mappings: MappingConfig; version: string | null } {
+  let raw: unknown;
+  try {
+    raw = yaml.load(contents);
+  } catch (error) {
+    throw new MappingConfigError([`YAML syntax error: ${(error as Error).message}`]);
+  }
+
+  if (!isObject(raw)) {
+    throw new MappingConfigError(['the file must contain a mapping of settings']);
+  }
+
+  const issues: string[] = [];
+  checkKeys(raw, TOP_LEVEL_KEYS, '', issues);
+
+  const version = raw.version === undefined || raw.version === null ? null : String(raw.version);
+
+  const mappings = validateMappingSet(raw, '', issues);
+
+  const deprovisioning = validateDeprovisioning(raw.deprovisioning, issues);
+  const attributeMappings = validateAttributeMappings(raw.attribute_mappings, issues);
+  const guardrails = validateGuardrails(raw.guardrails, 'guardrails', issues);
+  const approvals = validateApprovals(raw.approvals, issues);
+
+  const targets = validateList(raw.targets, 'targets', issues, (entry, at) => validateTarget(entry, at, guardrails, issues))
+    .map((target) => ({ ...target, mappings: { ...target.mappings, deprovisioning, attributeMappings, approvals } }));
+  checkDuplicates(targets.map((t) => t.name), 'targets', 'name', issues);
+
+  if (issues.length > 0) {
+    throw new MappingConfigError(issues);
+  }
+
+  return { mappings: { ...mappings, targets, deprovisioning, attributeMappings, guardrails, approvals }, version };
+}
+
+/**
+ * Check that every target in the mappings is a configured LaunchDarkly account
+ *
+ * @throws MappingConfigError if a target is not listed in LD_TARGETS
+ */
+export function checkMappingTargets(mappings: MappingConfig, targetNames: string[]): void {
+  const issues = mappings.targets
+    .filter((target) => !targetNames.includes(target.name))
+    .map((target) => `targets: ${JSON.stringify(target.name)} is not listed in LD_TARGETS`);
+
+  if (issues.length > 0) {
+    throw new MappingConfigError(issues);
+  }
+}
+
+/**
+ * Check that no group mapping requires approval with Teams sync on. Group
+ * roles then go on the team, which every member shares, so they cannot be
+ * held for one user.
+ *
+ * @throws MappingConfigError if a top-level group mapping requires approval
+ */
+export function checkTeamsSyncMappings(mappings: MappingConfig): void {
+  const issues = mappings.groupMappings
+    .map((mapping, index) => ({ mapping, index }))
+    .filter(({ mapping }) => mapping.requiresApproval)
+    .map(({ index }) => `group_mappings[${index}].requiresApproval: not supported with LD_TEAMS_SYNC, since team roles apply to every member`);
+
+  if (issues.length > 0) {
+    throw new MappingConfigError(issues);
+  }
+}
+
+/**
+ * Validate the role_mappings, group_mappings, role_rules, role_precedence and
+ * default_role settings of the top level or of a target
+ */
+function validateMappingSet(raw: RawObject, at: string, issues: string[]): MappingConfig {
+  const prefix = at ? `${at}.` : '';
+
+  const roleMappings = validateList(raw.role_mappings, `${prefix}role_mappings`, issues, (entry, entryAt) =>
+    validateMapping<RoleMapping>(entry, entryAt, 'aliceRole', ROLE_MAPPING_KEYS, issues)
+  );
+  const groupMappings = validateList(raw.group_mappings, `${prefix}group_mappings`, issues, (entry, entryAt) =>
+    validateMapping<GroupMapping>(entry, entryAt, 'aliceGroup', GROUP_MAPPING_KEYS, issues)
+  );
+  const roleRules = validateList(raw.role_rules, `${prefix}role_rules`, issues, (entry, entryAt, index) =>
+    validateRoleRule(entry, entryAt, index, issues)
+  );
+
+  checkDuplicates(roleMappings.map((m) => m.aliceRole), `${prefix}role_mappings`, 'aliceRole', issues);
+  checkDuplicates(groupMappings.map((m) => m.aliceGroup), `${prefix}group_mappings`, 'aliceGroup', issues);
+  checkDuplicates(roleRules.map((r) => r.name), `${prefix}role_rules`, 'name', issues);
+
+  const rolePrecedence = raw.role_precedence ?? 'highest_privilege';
+  if (!PRECEDENCES.includes(rolePrecedence as RolePrecedence)) {
+    issues.push(`${prefix}role_precedence: must be one of ${PRECEDENCES.join(', ')} (got ${JSON.stringify(rolePrecedence)})`);
+  }
+
+  const defaultRole = raw.default_role ?? 'reader';
+  if (!BASE_ROLES.includes(defaultRole as LdBuiltInRole)) {
+    issues.push(`${prefix}default_role: must be one of ${BASE_ROLES.join(', ')} (got ${JSON.stringify(defaultRole)})`);
+  }
+
+  return {
+    roleMappings,
+    groupMappings,
+    roleRules: roleRules.sort((a, b) => a.priority - b.priority),
+    rolePrecedence: rolePrecedence as RolePrecedence,
+    defaultRole: defaultRole as LdBuiltInRole,
+    targets: [],
+    deprovisioning: DEFAULT_DEPROVISIONING,
+    attributeMappings: DEFAULT_ATTRIBUTE_MAPPINGS,
+    guardrails: DEFAULT_GUARDRAILS,
+    approvals: DEFAULT_APPROVALS,
+  };
+}
+
+/**
+ * Validate the optional deprovisioning section
+ */
+function validateDeprovisioning(value: unknown, issues: string[]): DeprovisioningPolicy {
+  if (value === undefined || value === null) {
+    return DEFAULT_DEPROVISIONING;
+  }
+  if (!isObject(value)) {
+    issues.push('deprovisioning: must be a mapping');
+    return DEFAULT_DEPROVISIONING;
+  }
+
+  checkKeys(value, DEPROVISIONING_KEYS, 'deprovisioning', issues);
+
+  const onDelete = value.on_delete ?? DEFAULT_DEPROVISIONING.onDelete;
+  if (!DELETE_ACTIONS.includes(onDelete as DeprovisionAction)) {
+    issues.push(`deprovisioning.on_delete: must be one of ${DELETE_ACTIONS.join(', ')} (got ${JSON.stringify(onDelete)})`);
+  }
+
+  const onDeactivate = value.on_deactivate ?? DEFAULT_DEPROVISIONING.onDeactivate;
+  if (!DEACTIVATE_ACTIONS.includes(onDeactivate as DeprovisioningPolicy['onDeactivate'])) {
+    issues.push(
+      `deprovisioning.on_deactivate: must be one of ${DEACTIVATE_ACTIONS.join(', ')} (got ${JSON.stringify(onDeactivate)})`
+    );
+  }
+
+  const gracePeriodDays = value.grace_period_days ?? DEFAULT_DEPROVISIONING.gracePeriodDays;
+  if (typeof gracePeriodDays !== 'number' || !Number.isInteger(gracePeriodDays) || gracePeriodDays < 1) {
+    issues.push('deprovisioning.grace_period_days: must be a whole number of days, at least 1');
+  }
+
+  return {
+    onDelete: onDelete as DeprovisionAction,
+    onDeactivate: onDeactivate as DeprovisioningPolicy['onDeactivate'],
+    gracePeriodDays: gracePeriodDays as number,
+  };
+}
+
+/**
+ * Validate the optional approvals section
+ */
+function validateApprovals(value: unknown, issues: string[]): ApprovalPolicy {
+  if (value === undefined || value === null) {
+    return DEFAULT_APPROVALS;
+  }
+  if (!isObject(value)) {
+    issues.push('approvals: must be a mapping');
+    return DEFAULT_APPROVALS;
+  }
+  checkKeys(value, APPROVAL_KEYS, 'approvals', issues);
+
+  const expireAfterDays = value.expire_after_days ?? DEFAULT_APPROVALS.expireAfterDays;
+  if (typeof expireAfterDays !== 'number' || !Number.isInteger(expireAfterDays) || expireAfterDays < 1) {
+    issues.push('approvals.expire_after_days: must be a whole number of days, at least 1');
+  }
+
+  return { expireAfterDays: expireAfterDays as number };
+}
+
+/**
+ * Validate the optional attribute_mappings section
+ */
+function validateAttributeMappings(value: unknown, issues: string[]): AttributeMappings {
+  if (value === undefined || value === null) {
+    return DEFAULT_ATTRIBUTE_MAPPINGS;
+  }
+  if (!isObject(value)) {
+    issues.push('attribute_mappings: must be a mapping');
+    return DEFAULT_ATTRIBUTE_MAPPINGS;
+  }
+  checkKeys(value, ATTRIBUTE_MAPPING_KEYS, 'attribute_mappings', issues);
+
+  const section = (key: string, allowed: string[]): RawObject => {
+    const entry = value[key];
+    if (entry === undefined || entry === null) {
+      return {};
+    }
+    if (!isObject(entry)) {
+      issues.push(`attribute_mappings.${key}: must be a mapping`);
+      return {};
+    }
+    checkKeys(entry, allowed, `attribute_mappings.${key}`, issues);
+    return entry;
+  };
+  const emails = section('emails', EMAILS_KEYS);
+  const userName = section('userName', USER_NAME_KEYS);
+  const name = section('name', NAME_KEYS);
+
+  const select = emails.select ?? 'all';
+  if (select !== 'all' && select !== 'primary') {
+    issues.push(`attribute_mappings.emails.select: must be one of all, primary (got ${JSON.stringify(select)})`);
+  }
+
+  return {
+    emails: {
+      select: select as AttributeMappings['emails']['select'],
+      lowercase: validateFlag(emails.lowercase, 'attribute_mappings.emails.lowercase', issues),
+      domainRewrites: validateDomainRewrites(emails.domain_rewrites, 'attribute_mappings.emails.domain_rewrites', issues),
+    },
+    userName: {
+      lowercase: validateFlag(userName.lowercase, 'attribute_mappings.userName.lowercase', issues),
+      domainRewrites: validateDomainRewrites(userName.domain_rewrites, 'attribute_mappings.userName.domain_rewrites', issues),
+    },
+    name: {
+      fromDisplayName: validateFlag(name.from_display_name, 'attribute_mappings.name.from_display_name', issues),
+    },
+  };
+}
+
+/**
+ * Validate an optional true/false setting, which defaults to false
+ */
+function validateFlag(value: unknown, at: string, issues: string[]): boolean {
+  if (value !== undefined && typeof value !== 'boolean') {
+    issues.push(`${at}: must be true or false`);
+  }
+  return value === true;
+}
+
+/**
+ * Validate a domain_rewrites list
+ */
+function validateDomainRewrites(value: unknown, section: string, issues: string[]): DomainRewrite[] {
+  const rewrites = validateList(value, section, issues, (entry, at) => {
+    const before = issues.length;
+    checkKeys(entry, DOMAIN_REWRITE_KEYS, at, issues);
+    for (const key of DOMAIN_REWRITE_KEYS) {
+      const domain = entry[key];
+      if (typeof domain !== 'string' || domain.trim() === '' || domain.includes('@')) {
+        issues.push(`${at}.${key}: must be a domain such as example.com`);
+      }
+    }
+    return issues.length > before ? null : { from: entry.from as string, to: entry.to as string };
+  });
+  checkDuplicates(rewrites.map((r) => r.from.toLowerCase()), section, 'from', issues);
+  return rewrites;
+}
+
+/**
+ * Validate a guardrails section
+ */
+function validateGuardrails(value: unknown, at: string, issues: string[]): Guardrails {
+  if (value === undefined || value === null) {
+    return DEFAULT_GUARDRAILS;
+  }
+  if (!isObject(value)) {
+    issues.push(`${at}: must be a mapping`);
+    return DEFAULT_GUARDRAILS;
+  }
+  checkKeys(value, GUARDRAIL_KEYS, at, issues);
+
+  const domains = (key: string): string[] => {
+    const list = validateStringList(value[key], `${at}.${key}`, issues);
+    const invalid = list.filter((domain) => domain.includes('@'));
+    if (invalid.length > 0) {
+      issues.push(`${at}.${key}: must list domains such as example.com (got ${invalid.map((d) => JSON.stringify(d)).join(', ')})`);
+    }
+    return list.map((domain) => domain.toLowerCase());
+  };
+
+  const maxBaseRole = value.max_base_role ?? 'admin';
+  if (!BASE_ROLES.includes(maxBaseRole as LdBuiltInRole)) {
+    issues.push(`${at}.max_base_role: must be one of ${BASE_ROLES.join(', ')} (got ${JSON.stringify(maxBaseRole)})`);
+  }
+
+  return {
+    allowedEmailDomains: domains('allowed_email_domains'),
+    deniedEmailDomains: domains('denied_email_domains'),
+    protectedMembers: validateStringList(value.protected_members, `${at}.protected_members`, issues),
+    allowedCustomRoles: validateStringList(value.allowed_custom_roles, `${at}.allowed_custom_roles`, issues),
+    deniedCustomRoles: validateStringList(value.denied_custom_roles, `${at}.denied_custom_roles`, issues),
+    maxBaseRole: maxBaseRole as LdBuiltInRole,
+  };
+}
+
+/**
+ * Validate an optional list of non-empty strings
+ */
+function validateStringList(value: unknown, at: string, issues: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item.trim() === '')) {
+    issues.push(`${at}: must be a list of non-empty strings`);
+    return [];
+  }
+  return value as string[];
+}
+
+/**
+ * Validate a targets entry. Without conditions, every user is provisioned
+ * into the target. Without guardrails, the target uses the top-level ones.
+ */
+function validateTarget(entry: RawObject, at: string, guardrails: Guardrails, issues: string[]): TargetMapping | null {
+  const before = issues.length;
+  checkKeys(entry, TARGET_KEYS, at, issues);
+
+  if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+    issues.push(`${at}.name: must be a non-empty string`);
+  }
+  if (entry.match !== undefined && entry.match !== 'all' && entry.match !== 'any') {
+    issues.push(`${at}.match: must be one of all, any (got ${JSON.stringify(entry.match)})`);
+  }
+
+  const conditions: RoleRuleCondition[] = [];
+  if (entry.conditions !== undefined && !Array.isArray(entry.conditions)) {
+    issues.push(`${at}.conditions: must be a list`);
+  } else {
+    ((entry.conditions as unknown[] | undefined) ?? []).forEach((condition, i) => {
+      const result = validateCondition(condition, `${at}.conditions[${i}]`, issues);
+      if (result) {
+        conditions.push(result);
+      }
+    });
+  }
+
+  const mappings = validateMappingSet(entry, at, issues);
+  mappings.guardrails = entry.guardrails === undefined
+    ? guardrails
+    : validateGuardrails(entry.guardrails, `${at}.guardrails`, issues);
+
+  if (issues.length > before) {
+    return null;
+  }
+
+  return {
+    name: entry.name as string,
+    match: entry.match === 'any' ? 'any' : 'all',
+    conditions,
+    mappings,
+  };
+}
+
+/**
+ * Validate an optional list section, returning its valid entries
+ */
+function validateList<T>(
+  value: unknown,
+  section: string,
+  issues: string[],
+  validateEntry: (entry: RawObject, at: string, index: number) => T | null
+): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    issues.push(`${section}: must be a list`);
+    return [];
+  }
+
+  const entries: T[] = [];
+  value.forEach((entry, index) => {
+    const at = `${section}[${index}]`;
+    if (!isObject(entry)) {
+      issues.push(`${at}: must be a mapping`);
+      return;
+    }
+    const result = validateEntry(entry, at, index);
+    if (result) {
+      entries.push(result);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Validate a role_mappings or group_mappings entry
+ */
+function validateMapping<T extends RoleMapping | GroupMapping>(
+  entry: RawObject,
+  at: string,
+  nameKey: 'aliceRole' | 'aliceGroup',
+  allowedKeys: string[],
+  issues: string[]
+): T | null {
+  const before = issues.length;
+  checkKeys(entry, allowedKeys, at, issues);
+
+  const name = entry[nameKey];
+  if (typeof name !== 'string' || name.trim() === '') {
+    issues.push(`${at}.${nameKey}: must be a non-empty string`);
+  }
+
+  const grants = validateGrants(entry, at, issues);
+
+  if (issues.length > before || !grants) {
+    return null;
+  }
+  return { [nameKey]: name, ...grants } as T;
+}
+
+/**
+ * Validate a role_rules entry
+ */
+function validateRoleRule(entry: RawObject, at: string, index: number, issues: string[]): RoleRule | null {
+  const before = issues.length;
+  checkKeys(entry, ROLE_RULE_KEYS, at, issues);
+
+  if (entry.name !== undefined && (typeof entry.name !== 'string' || entry.name.trim() === '')) {
+    issues.push(`${at}.name: must be a non-empty string`);
+  }
+  if (entry.priority !== undefined && (typeof entry.priority !== 'number' || !Number.isFinite(entry.priority))) {
+    issues.push(`${at}.priority: must be a number`);
+  }
+  if (entry.match !== undefined && entry.match !== 'all' && entry.match !== 'any') {
+    issues.push(`${at}.match: must be one of all, any (got ${JSON.stringify(entry.match)})`);
+  }
+  if (entry.stop !== undefined && typeof entry.stop !== 'boolean') {
+    issues.push(`${at}.stop: must be true or false`);
+  }
+
+  const conditions: RoleRuleCondition[] = [];
+  if (!Array.isArray(entry.conditions) || entry.conditions.length === 0) {
+    issues.push(`${at}.conditions: must be a non-empty list`);
+  } else {
+    entry.conditions.forEach((condition, i) => {
+      const result = validateCondition(condition, `${at}.conditions[${i}]`, issues);
+      if (result) {
+        conditions.push(result);
+      }
+    });
+  }
+
+  const grants = validateGrants(entry, at, issues);
+
+  if (issues.length > before || !grants) {
+    return null;
+  }
+
+  return {
+    name: (entry.name as string | undefined) || `rule-${index + 1}`,
+    priority: (entry.priority as number | undefined) ?? 100,
+    match: entry.match === 'any' ? 'any' : 'all',
+    conditions,
+    ...grants,
+    stop: entry.stop as boolean | undefined,
+  };
+}
+
+/**
+ * Validate a role rule condition
+ */
+function validateCondition(condition: unknown, at: string, issues: string[]): RoleRuleCondition | null {
+  if (!isObject(condition)) {
+    issues.push(`${at}: must be a mapping`);
+    return null;
+  }
+
+  const before = issues.length;
+  checkKeys(condition, CONDITION_KEYS, at, issues);
+
+  if (!RULE_ATTRIBUTES.includes(condition.attribute as RoleRuleAttribute)) {
+    issues.push(`${at}.attribute: must be one of ${RULE_ATTRIBUTES.join(', ')} (got ${JSON.stringify(condition.attribute)})`);
+  }
+
+  const operators = (['equals', 'glob', 'regex'] as const).filter((key) => condition[key] !== undefined);
+  if (operators.length !== 1) {
+    issues.push(`${at}: must set exactly one of equals, glob, regex`);
+  } else if (typeof condition[operators[0]] !== 'string') {
+    issues.push(`${at}.${operators[0]}: must be a string`);
+  } else if (operators[0] === 'regex') {
+    try {
+      new RegExp(condition.regex as string);
+    } catch (error) {
+      issues.push(`${at}.regex: ${(error as Error).message}`);
+    }
+  }
+
+  return issues.length > before ? null : (condition as unknown as RoleRuleCondition);
+}
+
+/**
+ * Validate the roles an entry grants. ldCustomRoles must be a non-empty list
+ * of role keys; it may only be omitted when the entry sets ldRole.
+ */
+function validateGrants(
+  entry: RawObject,
+  at: string,
+  issues: string[]
+): { ldCustomRoles: string[]; ldRole?: LdBuiltInRole; requiresApproval?: boolean } | null {
+  const before = issues.length;
+
+  if (entry.ldRole !== undefined && !BASE_ROLES.includes(entry.ldRole as LdBuiltInRole)) {
+    issues.push(`${at}.ldRole: must be one of ${BASE_ROLES.join(', ')} (got ${JSON.stringify(entry.ldRole)})`);
+  }
+
+  const roles = entry.ldCustomRoles;
+  if (roles === undefined) {
+    if (entry.ldRole === undefined) {
+      issues.push(`${at}.ldCustomRoles: is required unless ldRole is set`);
+    }
+  } else if (!Array.isArray(roles) || roles.length === 0) {
+    issues.push(`${at}.ldCustomRoles: must be a non-empty list (omit it and set ldRole to grant only a base role)`);
+  } else if (roles.some((role) => typeof role !== 'string' || role.trim() === '')) {
+    issues.push(`${at}.ldCustomRoles: every role key must be a non-empty string`);
+  }
+
+  const requiresApproval = validateFlag(entry.requiresApproval, `${at}.requiresApproval`, issues);
+
+  if (issues.length > before) {
+    return null;
+  }
+  return {
+    ldCustomRoles: (roles as string[] | undefined) ?? [],
+    ldRole: entry.ldRole as LdBuiltInRole | undefined,
+    ...(requiresApproval && { requiresApproval }),
+  };
+}
+
+/**
+ * Report keys that are not in the allowed list
+ */
+function checkKeys(object: RawObject, allowed: string[], at: string, issues: string[]): void {
+  for (const key of Object.keys(object)) {
+    if (!allowed.includes(key)) {
+      issues.push(`${at ? `${at}.` : ''}${key}: unknown key (expected one of ${allowed.join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Report values that appear more than once in a section
+ */
+function checkDuplicates(values: string[], section: string, key: string, issues: string[]): void {
+  const seen = new Set<string>();
+  for (const value of values) {
+    if (seen.has(value)) {
+      issues.push(`${section}: duplicate ${key} ${JSON.stringify(value)}`);
+    }
+    seen.add(value);
+  }
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+/**
+ * Mapping Configuration Hot Reload
+ *
+ * Reloads mappings.yaml when the file changes or the process receives SIGHUP.
+ * A valid file replaces config.mappings in place, so every request after the
+ * swap sees the new mappings. An invalid file is rejected and the last good
+ * configuration stays active.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AppConfig } from './index.js';
+import { MappingConfigError, checkMappingTargets, checkTeamsSyncMappings, hashContents, parseMappingConfig } from './mappings.js';
+import { logger } from '../middleware/logging.js';
+
+/** Wait for writes to settle before reloading (editors often write in several steps) */
+const RELOAD_DEBOUNCE_MS = 250;
+
+/**
+ * Reload the mappings file into the running configuration.
+ * Returns true if a new configuration was applied.
+ */
+export function reloadMappingConfig(config: AppConfig): boolean {
+  const info = config.mappingsInfo;
+
+  let contents: string;
+  try {
+    contents = fs.readFileSync(info.path, 'utf8');
+  } catch (error) {
+    info.lastReloadError = `Failed to read ${info.path}: ${(error as Error).message}`;
+    logger.error({ path: info.path, error }, 'Mapping config reload failed, keeping current config');
+    return false;
+  }
+
+  const hash = hashContents(contents);
+  if (hash === info.hash) {
+    // Unchanged, or reverted to the active config after a rejected edit
+    delete info.lastReloadError;
+    return false;
+  }
+
+  try {
+    const { mappings, version } = parseMappingConfig(contents);
+    checkMappingTargets(mappings, config.ldTargets.map((t) => t.name));
+    if (config.ldTeams) {
+      checkTeamsSyncMappings(mappings);
+    }
+    const previous = { version: info.version, hash: info.hash };
+
+    config.mappings = mappings;
+    config.mappingsInfo = { path: info.path, version, hash, loadedAt: new Date().toISOString() };
+
+    logger.info(
+      { version, hash, previousVersion: previous.version, previousHash: previous.hash },
+      'Mapping config reloaded'
+    );
+    return true;
+  } catch (error) {
+    const issues = error instanceof MappingConfigError ? error.issues : [(error as Error).message];
+    info.lastReloadError = issues.join('; ');
+    logger.error({ path: info.path, issues, hash }, 'Rejected invalid mapping config, keeping current config');
+    return false;
+  }
+}
+
+/**
+ * Watch the mappings file and listen for SIGHUP.
+ * Returns a function that stops watching.
+ */
+export function watchMappingConfig(config: AppConfig): () => void {
+  const filePath = config.mappingsInfo.path;
+  let timer: NodeJS.Timeout | undefined;
+
+  const scheduleReload = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => reloadMappingConfig(config), RELOAD_DEBOUNCE_MS);
+  };
+
+  // Watch the directory rather than the file: editors and config management
+  // tools usually replace the file, which would end a watch on the file itself
+  let watcher: fs.FSWatcher | undefined;
+  try {
+    watcher = fs.watch(path.dirname(filePath), (_event, filename) => {
+      if (filename === null || filename.toString() === path.basename(filePath)) {
+        scheduleReload();
+      }
+    });
+    watcher.on('error', (error) => logger.error({ error }, 'Mapping config watcher failed'));
+  } catch (error) {
+    logger.warn({ path: filePath, error }, 'Cannot watch mapping config, reload with SIGHUP instead');
+  }
+
+  const onSighup = () => {
+    logger.info('Received SIGHUP, reloading mapping config');
+    reloadMappingConfig(config);
+  };
+  process.on('SIGHUP', onSighup);
+
+  return () => {
+    clearTimeout(timer);
+    watcher?.close();
+    process.off('SIGHUP', onSighup);
+  };
+}
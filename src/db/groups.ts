@@ -0,0 +1,258 @@
+import { getDatabase } from './index.js';
+
+/**
+ * Group record - a SCIM Group pushed by Alice and stored by the gateway
+ */
+export interface GroupRecord {
+  id: number;
+  aliceId: string;
+  aliceExternalId: string | null;
+  displayName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Group membership record - links a group to one of our user mappings
+ */
+export interface GroupMember {
+  userAliceId: string;
+  ldUserName: string | null;
+}
+
+/**
+ * Create a new group
+ */
+export function createGroup(
+  aliceId: string,
+  aliceExternalId: string | null,
+  displayName: string
+): GroupRecord {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO scim_groups (alice_id, alice_external_id, display_name)
+    VALUES (?, ?, ?)
+  `);
+
+  const result = stmt.run(aliceId, aliceExternalId, displayName);
+
+  return getGroupById(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Get a group by database ID
+ */
+export function getGroupById(id: number): GroupRecord | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, alice_id, alice_external_id, display_name, created_at, updated_at
+    FROM scim_groups WHERE id = ?
+  `);
+
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? mapRowToGroupRecord(row) : null;
+}
+
+/**
+ * Get a group by Alice ID (our internal ID assigned to the group)
+ */
+export function getGroupByAliceId(aliceId: string): GroupRecord | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, alice_id, alice_external_id, display_name, created_at, updated_at
+    FROM scim_groups WHERE alice_id = ?
+  `);
+
+  const row = stmt.get(aliceId) as Record<string, unknown> | undefined;
+  return row ? mapRowToGroupRecord(row) : null;
+}
+
+/**
+ * Get a group by Alice's externalId
+ *
+ * @param excludeAliceId a group to leave out, to find another group with the same externalId
+ */
+export function getGroupByExternalId(externalId: string, excludeAliceId?: string): GroupRecord | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, alice_id, alice_external_id, display_name, created_at, updated_at
+    FROM scim_groups WHERE alice_external_id = ? AND alice_id IS NOT ?
+  `);
+
+  const row = stmt.get(externalId, excludeAliceId ?? null) as Record<string, unknown> | undefined;
+  return row ? mapRowToGroupRecord(row) : null;
+}
+
+/**
+ * Get a group by displayName
+ *
+ * @param excludeAliceId a group to leave out, to find another group with the same displayName
+ */
+export function getGroupByDisplayName(displayName: string, excludeAliceId?: string): GroupRecord | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, alice_id, alice_external_id, display_name, created_at, updated_at
+    FROM scim_groups WHERE display_name = ? AND alice_id IS NOT ?
+  `);
+
+  const row = stmt.get(displayName, excludeAliceId ?? null) as Record<string, unknown> | undefined;
+  return row ? mapRowToGroupRecord(row) : null;
+}
+
+/**
+ * Update a group
+ */
+export function updateGroup(
+  aliceId: string,
+  updates: Partial<Pick<GroupRecord, 'aliceExternalId' | 'displayName'>>
+): GroupRecord | null {
+  const db = getDatabase();
+
+  const setClauses: string[] = ["updated_at = datetime('now')"];
+  const values: unknown[] = [];
+
+  if (updates.aliceExternalId !== undefined) {
+    setClauses.push('alice_external_id = ?');
+    values.push(updates.aliceExternalId);
+  }
+  if (updates.displayName !== undefined) {
+    setClauses.push('display_name = ?');
+    values.push(updates.displayName);
+  }
+
+  values.push(aliceId);
+
+  const stmt = db.prepare(`
+    UPDATE scim_groups SET ${setClauses.join(', ')} WHERE alice_id = ?
+  `);
+
+  stmt.run(...values);
+  return getGroupByAliceId(aliceId);
+}
+
+/**
+ * Delete a group and all of its memberships
+ */
+export function deleteGroup(aliceId: string): boolean {
+  const db = getDatabase();
+  const result = db.transaction(() => {
+    db.prepare('DELETE FROM group_members WHERE group_alice_id = ?').run(aliceId);
+    return db.prepare('DELETE FROM scim_groups WHERE alice_id = ?').run(aliceId);
+  })();
+  return result.changes > 0;
+}
+
+/**
+ * Get all groups (for listing)
+ */
+export function getAllGroups(): GroupRecord[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, alice_id, alice_external_id, display_name, created_at, updated_at
+    FROM scim_groups ORDER BY created_at DESC
+  `);
+
+  const rows = stmt.all() as Record<string, unknown>[];
+  return rows.map(mapRowToGroupRecord);
+}
+
+/**
+ * Get the members of a group, joined with their user mapping
+ */
+export function getGroupMembers(groupAliceId: string): GroupMember[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT gm.user_alice_id, um.ld_user_name
+    FROM group_members gm
+    LEFT JOIN user_mappings um ON um.alice_id = gm.user_alice_id
+    WHERE gm.group_alice_id = ?
+    ORDER BY gm.created_at ASC
+  `);
+
+  const rows = stmt.all(groupAliceId) as Record<string, unknown>[];
+  return rows.map((row) => ({
+    userAliceId: row.user_alice_id as string,
+    ldUserName: row.ld_user_name as string | null,
+  }));
+}
+
+/**
+ * Add users to a group (already-present members are ignored)
+ */
+export function addGroupMembers(groupAliceId: string, userAliceIds: string[]): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO group_members (group_alice_id, user_alice_id)
+    VALUES (?, ?)
+  `);
+
+  db.transaction(() => {
+    for (const userAliceId of userAliceIds) {
+      stmt.run(groupAliceId, userAliceId);
+    }
+  })();
+}
+
+/**
+ * Remove users from a group
+ */
+export function removeGroupMembers(groupAliceId: string, userAliceIds: string[]): void {
+  const db = getDatabase();
+  const stmt = db.prepare('DELETE FROM group_members WHERE group_alice_id = ? AND user_alice_id = ?');
+
+  db.transaction(() => {
+    for (const userAliceId of userAliceIds) {
+      stmt.run(groupAliceId, userAliceId);
+    }
+  })();
+}
+
+/**
+ * Replace the full member list of a group
+ */
+export function replaceGroupMembers(groupAliceId: string, userAliceIds: string[]): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('DELETE FROM group_members WHERE group_alice_id = ?').run(groupAliceId);
+    addGroupMembers(groupAliceId, userAliceIds);
+  })();
+}
+
+/**
+ * Get all groups a user is a member of
+ */
+export function getGroupsForUser(userAliceId: string): GroupRecord[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT g.id, g.alice_id, g.alice_external_id, g.display_name, g.created_at, g.updated_at
+    FROM scim_groups g
+    JOIN group_members gm ON gm.group_alice_id = g.alice_id
+    WHERE gm.user_alice_id = ?
+    ORDER BY g.display_name ASC
+  `);
+
+  const rows = stmt.all(userAliceId) as Record<string, unknown>[];
+  return rows.map(mapRowToGroupRecord);
+}
+
+/**
+ * Remove a user from every group (used when the user is deleted)
+ */
+export function removeUserFromAllGroups(userAliceId: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM group_members WHERE user_alice_id = ?').run(userAliceId);
+}
+
+/**
+ * Map a database row to a GroupRecord object
+ */
+function mapRowToGroupRecord(row: Record<string, unknown>): GroupRecord {
+  return {
+    id: row.id as number,
+    aliceId: row.alice_id as string,
+    aliceExternalId: row.alice_external_id as string | null,
+    displayName: row.display_name as string,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
@@ -0,0 +1,65 @@
+import { getDatabase } from './index.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+
+/**
+ * The last User document submitted by Alice for a user
+ */
+export interface IdpUserState {
+  aliceId: string;
+  document: ScimCoreUser;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Store the User document Alice submitted, replacing any previous one.
+ * Server-assigned attributes (id, meta) and any password are not stored.
+ */
+export function saveIdpUserState(aliceId: string, document: ScimCoreUser): void {
+  const { id: _id, meta: _meta, password: _password, ...submitted } = document as ScimCoreUser & { password?: unknown };
+
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO user_idp_state (alice_id, document)
+    VALUES (?, ?)
+    ON CONFLICT(alice_id) DO UPDATE SET document = excluded.document, updated_at = datetime('now')
+  `);
+
+  stmt.run(aliceId, JSON.stringify(submitted));
+}
+
+/**
+ * Get the last User document Alice submitted for a user
+ */
+export function getIdpUserState(aliceId: string): IdpUserState | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT alice_id, document, created_at, updated_at
+    FROM user_idp_state WHERE alice_id = ?
+  `);
+
+  const row = stmt.get(aliceId) as Record<string, unknown> | undefined;
+  return row ? mapRowToIdpUserState(row) : null;
+}
+
+/**
+ * Delete the stored User document for a user
+ */
+export function deleteIdpUserState(aliceId: string): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare('DELETE FROM user_idp_state WHERE alice_id = ?');
+  const result = stmt.run(aliceId);
+  return result.changes > 0;
+}
+
+/**
+ * Map a database row to an IdpUserState object
+ */
+function mapRowToIdpUserState(row: Record<string, unknown>): IdpUserState {
+  return {
+    aliceId: row.alice_id as string,
+    document: JSON.parse(row.document as string) as ScimCoreUser,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
@@ -0,0 +1,141 @@
+import { getDatabase } from './index.js';
+
+/**
+ * Bearer token accepted from the IdP on the SCIM endpoints. Only the SHA-256
+ * hash of the token is stored; the token itself is shown once, when issued.
+ * Times are UTC, in SQLite's datetime() format.
+ */
+export interface InboundToken {
+  id: string;
+  label: string;
+  createdAt: string;
+  /** Null for tokens that never expire */
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * A stored token together with its state at the time it was read
+ */
+export interface InboundTokenMatch {
+  token: InboundToken;
+  tokenHash: string;
+  expired: boolean;
+}
+
+const TOKEN_COLUMNS = 'id, label, token_hash, created_at, expires_at, last_used_at, revoked_at';
+
+/** last_used_at is written at most this often per token, not on every request */
+const LAST_USED_RESOLUTION = '-1 minute';
+
+/**
+ * Store a new token by its hash
+ *
+ * @param expiresInDays days until the token stops being accepted, or null for no expiry
+ */
+export function createInboundToken(
+  id: string,
+  label: string,
+  tokenHash: string,
+  expiresInDays: number | null
+): InboundToken {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO inbound_tokens (id, label, token_hash, expires_at)
+    VALUES (?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' days') END)
+  `);
+
+  stmt.run(id, label, tokenHash, expiresInDays, expiresInDays);
+
+  return getInboundToken(id)!;
+}
+
+/**
+ * Get a token by ID
+ */
+export function getInboundToken(id: string): InboundToken | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${TOKEN_COLUMNS} FROM inbound_tokens WHERE id = ?`);
+
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? mapRowToInboundToken(row) : null;
+}
+
+/**
+ * Find a token by the hash of its value, revoked and expired ones included
+ */
+export function findInboundTokenByHash(tokenHash: string): InboundTokenMatch | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${TOKEN_COLUMNS},
+      expires_at IS NOT NULL AND expires_at <= datetime('now') AS expired
+    FROM inbound_tokens WHERE token_hash = ?
+  `);
+
+  const row = stmt.get(tokenHash) as Record<string, unknown> | undefined;
+  return row
+    ? { token: mapRowToInboundToken(row), tokenHash: row.token_hash as string, expired: row.expired === 1 }
+    : null;
+}
+
+/**
+ * Get all tokens, oldest first
+ */
+export function listInboundTokens(): InboundToken[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${TOKEN_COLUMNS} FROM inbound_tokens ORDER BY created_at, rowid`);
+
+  return (stmt.all() as Record<string, unknown>[]).map(mapRowToInboundToken);
+}
+
+/**
+ * Count the tokens that are neither revoked nor expired
+ */
+export function countActiveInboundTokens(): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM inbound_tokens
+    WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > datetime('now'))
+  `).get() as { count: number };
+  return row.count;
+}
+
+/**
+ * Revoke a token. Returns false if there is no such token or it was already revoked.
+ */
+export function revokeInboundToken(id: string): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE inbound_tokens SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL
+  `);
+
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Record that a token was used, unless that was already recorded in the last minute
+ */
+export function touchInboundToken(id: string): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE inbound_tokens SET last_used_at = datetime('now')
+    WHERE id = ? AND (last_used_at IS NULL OR last_used_at <= datetime('now', ?))
+  `);
+
+  stmt.run(id, LAST_USED_RESOLUTION);
+}
+
+/**
+ * Map a database row to an InboundToken object
+ */
+function mapRowToInboundToken(row: Record<string, unknown>): InboundToken {
+  return {
+    id: row.id as string,
+    label: row.label as string,
+    createdAt: row.created_at as string,
+    expiresAt: row.expires_at as string | null,
+    lastUsedAt: row.last_used_at as string | null,
+    revokedAt: row.revoked_at as string | null,
+  };
+}
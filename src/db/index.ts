@@ -1,21 +1,29 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SpanKind, trace } from '@opentelemetry/api';
 import { logger } from '../middleware/logging.js';
+import { isTracingEnabled, withSpan } from '../middleware/tracing.js';
 
-let db: Database.Database | null = null;
+/**
+ * Database used by the work running in the current async context. Each
+ * tenant has its own database, and its requests and background tasks run
+ * inside runWithDatabase, so the database modules never mix tenants' rows.
+ */
+const scopedDatabase = new AsyncLocalStorage<Database.Database>();
 
 /**
- * Initialize the SQLite database
+ * Open a SQLite database, creating its tables if needed
  */
-export function initDatabase(databasePath: string): Database.Database {
+export function openDatabase(databasePath: string): Database.Database {
   // Ensure the directory exists
   const dir = path.dirname(databasePath);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 
-  db = new Database(databasePath);
+  const db = new Database(databasePath);
   
   // Enable WAL mode for better concurrent access
   db.pragma('journal_mode = WAL');
@@ -35,30 +43,251 @@ export function initDatabase(databasePath: string): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_user_mappings_alice_id ON user_mappings(alice_id);
     CREATE INDEX IF NOT EXISTS idx_user_mappings_alice_external_id ON user_mappings(alice_external_id);
     CREATE INDEX IF NOT EXISTS idx_user_mappings_ld_id ON user_mappings(ld_id);
+
+    CREATE TABLE IF NOT EXISTS scim_groups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alice_id TEXT NOT NULL UNIQUE,
+      alice_external_id TEXT,
+      display_name TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scim_groups_alice_external_id ON scim_groups(alice_external_id);
+    CREATE INDEX IF NOT EXISTS idx_scim_groups_display_name ON scim_groups(display_name);
+
+    CREATE TABLE IF NOT EXISTS group_members (
+      group_alice_id TEXT NOT NULL,
+      user_alice_id TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (group_alice_id, user_alice_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_group_members_user_alice_id ON group_members(user_alice_id);
+
+    CREATE TABLE IF NOT EXISTS team_mappings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      group_alice_id TEXT NOT NULL UNIQUE,
+      ld_team_key TEXT NOT NULL UNIQUE,
+      applied_state TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_team_mappings_group_alice_id ON team_mappings(group_alice_id);
+    CREATE INDEX IF NOT EXISTS idx_team_mappings_ld_team_key ON team_mappings(ld_team_key);
+
+    CREATE TABLE IF NOT EXISTS user_idp_state (
+      alice_id TEXT PRIMARY KEY,
+      document TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS mapping_reapply_runs (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      mappings_hash TEXT,
+      mappings_version TEXT,
+      total INTEGER NOT NULL DEFAULT 0,
+      processed INTEGER NOT NULL DEFAULT 0,
+      changed INTEGER NOT NULL DEFAULT 0,
+      unchanged INTEGER NOT NULL DEFAULT 0,
+      skipped INTEGER NOT NULL DEFAULT 0,
+      failed INTEGER NOT NULL DEFAULT 0,
+      cursor INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      finished_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS readiness_checks (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      checked_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS outbound_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alice_id TEXT NOT NULL,
+      target TEXT NOT NULL DEFAULT 'primary',
+      operation TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TEXT NOT NULL DEFAULT (datetime('now')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      finished_at TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_outbound_jobs_status ON outbound_jobs(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_outbound_jobs_alice_id ON outbound_jobs(alice_id, status);
+
+    CREATE TABLE IF NOT EXISTS user_target_mappings (
+      alice_id TEXT NOT NULL,
+      target TEXT NOT NULL,
+      ld_id TEXT NOT NULL,
+      ld_user_name TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (alice_id, target)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_user_target_mappings_target ON user_target_mappings(target);
+
+    CREATE TABLE IF NOT EXISTS inbound_tokens (
+      id TEXT PRIMARY KEY,
+      label TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      expires_at TEXT,
+      last_used_at TEXT,
+      revoked_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS user_tombstones (
+      alice_id TEXT PRIMARY KEY,
+      alice_external_id TEXT,
+      ld_id TEXT NOT NULL,
+      ld_user_name TEXT NOT NULL,
+      action TEXT NOT NULL,
+      deleted_at TEXT NOT NULL DEFAULT (datetime('now')),
+      purge_after TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_user_tombstones_alice_external_id ON user_tombstones(alice_external_id);
+    CREATE INDEX IF NOT EXISTS idx_user_tombstones_ld_user_name ON user_tombstones(ld_user_name COLLATE NOCASE);
+    CREATE INDEX IF NOT EXISTS idx_user_tombstones_purge_after ON user_tombstones(purge_after);
+
+    CREATE TABLE IF NOT EXISTS role_approvals (
+      id TEXT PRIMARY KEY,
+      alice_id TEXT NOT NULL,
+      user_name TEXT,
+      entry TEXT NOT NULL,
+      custom_roles TEXT NOT NULL,
+      base_role TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      comment TEXT,
+      requested_at TEXT NOT NULL DEFAULT (datetime('now')),
+      expires_at TEXT NOT NULL,
+      decided_at TEXT,
+      UNIQUE (alice_id, entry)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_role_approvals_status ON role_approvals(status, expires_at);
+
+    CREATE TABLE IF NOT EXISTS oauth_token_cache (
+      target TEXT PRIMARY KEY,
+      fingerprint TEXT NOT NULL,
+      encrypted_token TEXT NOT NULL,
+      obtained_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      expiry_assumed INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
   `);
 
+  // Columns added after a table was first created
+  addColumnIfMissing(db, 'outbound_jobs', 'target', "TEXT NOT NULL DEFAULT 'primary'");
+  addColumnIfMissing(db, 'team_mappings', 'applied_state', 'TEXT');
+
+  if (isTracingEnabled()) {
+    traceStatements(db);
+  }
+
   logger.info({ databasePath }, 'Database initialized');
   return db;
 }
 
 /**
- * Get the database instance
+ * Add a column to a table created by an earlier version of the gateway
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/** Statement methods that execute SQL */
+const EXECUTING_METHODS = ['run', 'get', 'all'] as const;
+
+/**
+ * Run every prepared statement's executions in a span. All database modules
+ * prepare their statements through getDatabase(), so this covers them all.
+ * Statements run outside a trace, such as the job worker polling for due
+ * jobs, are not traced.
+ */
+function traceStatements(database: Database.Database): void {
+  const prepare = database.prepare.bind(database);
+
+  database.prepare = ((source: string) => {
+    const stmt = prepare(source);
+    const statement = source.replace(/\s+/g, ' ').trim();
+    const operation = statement.split(' ')[0].toUpperCase();
+
+    for (const method of EXECUTING_METHODS) {
+      const execute = (stmt[method] as (...params: unknown[]) => unknown).bind(stmt);
+      (stmt as unknown as Record<string, unknown>)[method] = (...params: unknown[]) => {
+        if (!trace.getActiveSpan()) {
+          return execute(...params);
+        }
+        return withSpan(`sqlite ${operation}`, {
+          kind: SpanKind.CLIENT,
+          attributes: { 'db.system.name': 'sqlite', 'db.operation.name': operation, 'db.query.text': statement },
+        }, () => execute(...params));
+      };
+    }
+    return stmt;
+  }) as typeof database.prepare;
+}
+
+/**
+ * Run fn, and everything it starts, against a database
+ */
+export function runWithDatabase<T>(database: Database.Database, fn: () => T): T {
+  return scopedDatabase.run(database, fn);
+}
+
+/**
+ * Get the database of the current context
  */
 export function getDatabase(): Database.Database {
+  const db = scopedDatabase.getStore();
   if (!db) {
-    throw new Error('Database not initialized. Call initDatabase first.');
+    throw new Error('No database in this context. Run the work inside runWithDatabase.');
   }
   return db;
 }
 
 /**
- * Close the database connection
+ * Check that the database is open and accepts writes. Throws if not.
+ */
+export function checkDatabaseWritable(): void {
+  const stmt = getDatabase().prepare(`
+    INSERT INTO readiness_checks (id, checked_at) VALUES (1, datetime('now'))
+    ON CONFLICT(id) DO UPDATE SET checked_at = excluded.checked_at
+  `);
+
+  stmt.run();
+}
+
+/**
+ * Run fn in a transaction, committing if it returns and rolling back if it throws
+ */
+export function transaction<T>(fn: () => T): T {
+  return getDatabase().transaction(fn)();
+}
+
+/**
+ * Close a database connection
  */
-export function closeDatabase(): void {
-  if (db) {
+export function closeDatabase(db: Database.Database): void {
+  if (db.open) {
     db.close();
-    db = null;
-    logger.info('Database connection closed');
+    logger.info({ databasePath: db.name }, 'Database connection closed');
   }
 }
 
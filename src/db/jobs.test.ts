@@ -0,0 +1,105 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  claimNextJob,
+  completeJob,
+  discardJob,
+  enqueueJob,
+  enqueueTargetSync,
+  enqueueTeamSync,
+  failJob,
+  getJob,
+  hasOpenJobs,
+  replayJob,
+} from './jobs.js';
+import { openDatabase, runWithDatabase } from './index.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+
+const document: ScimCoreUser = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+  userName: 'ada@example.com',
+  active: true,
+};
+
+let db: Database.Database;
+
+describe('outbound jobs', () => {
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('claimNextJob', () => {
+    it('claims a user\'s jobs in order, one at a time, without holding back other users', () => runWithDatabase(db, () => {
+      const adaCreate = enqueueJob('alice-ada', 'create', { document });
+      const adaReplace = enqueueJob('alice-ada', 'replace', { document });
+      const bobCreate = enqueueJob('alice-bob', 'create', { document });
+
+      expect(claimNextJob()).toMatchObject({ id: adaCreate.id, status: 'running', attempts: 1 });
+      // Ada's replace waits for her create to finish
+      expect(claimNextJob()?.id).toBe(bobCreate.id);
+      expect(claimNextJob()).toBeNull();
+
+      completeJob(adaCreate.id);
+      expect(claimNextJob()?.id).toBe(adaReplace.id);
+    }));
+
+    it('waits out the backoff of a failed job, still holding back the user\'s later jobs', () => runWithDatabase(db, () => {
+      const create = enqueueJob('alice-ada', 'create', { document });
+      enqueueJob('alice-ada', 'replace', { document });
+
+      claimNextJob();
+      failJob(create.id, 'LaunchDarkly is unavailable', 60);
+      expect(getJob(create.id)).toMatchObject({ status: 'pending', attempts: 1, lastError: 'LaunchDarkly is unavailable' });
+      expect(claimNextJob()).toBeNull();
+
+      db.prepare("UPDATE outbound_jobs SET next_attempt_at = datetime('now') WHERE id = ?").run(create.id);
+      expect(claimNextJob()).toMatchObject({ id: create.id, attempts: 2 });
+    }));
+
+    it('holds back a user\'s later jobs behind a dead job until it is replayed or discarded', () => runWithDatabase(db, () => {
+      const create = enqueueJob('alice-ada', 'create', { document });
+      const replace = enqueueJob('alice-ada', 'replace', { document });
+
+      claimNextJob();
+      failJob(create.id, 'LaunchDarkly SCIM Error (400): Invalid email', null);
+      expect(getJob(create.id)).toMatchObject({ status: 'dead' });
+      expect(getJob(create.id)?.finishedAt).not.toBeNull();
+      expect(hasOpenJobs('alice-ada')).toBe(true);
+      expect(claimNextJob()).toBeNull();
+
+      expect(replayJob(create.id)).toBe(true);
+      expect(claimNextJob()).toMatchObject({ id: create.id, attempts: 1 });
+      failJob(create.id, 'LaunchDarkly SCIM Error (400): Invalid email', null);
+
+      expect(replayJob(replace.id)).toBe(false);
+      expect(discardJob(create.id)).toBe(true);
+      expect(claimNextJob()?.id).toBe(replace.id);
+      completeJob(replace.id);
+      expect(hasOpenJobs('alice-ada')).toBe(false);
+    }));
+
+    it('does not hold back a user\'s jobs for other LD accounts', () => runWithDatabase(db, () => {
+      const create = enqueueJob('alice-ada', 'create', { document });
+      const targetSync = enqueueTargetSync('alice-ada', 'us');
+
+      expect(claimNextJob()?.id).toBe(create.id);
+      expect(claimNextJob()?.id).toBe(targetSync.id);
+    }));
+  });
+
+  describe('enqueueTeamSync', () => {
+    it('queues one waiting job per group', () => runWithDatabase(db, () => {
+      const first = enqueueTeamSync('group-eng');
+      expect(first).toMatchObject({ aliceId: 'group-eng', target: 'primary', operation: 'team_sync', status: 'pending' });
+      expect(enqueueTeamSync('group-eng').id).toBe(first.id);
+
+      // A running job may have read the group before the latest change
+      claimNextJob();
+      expect(enqueueTeamSync('group-eng').id).not.toBe(first.id);
+    }));
+  });
+});
@@ -0,0 +1,356 @@
+import { getDatabase } from './index.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { PRIMARY_TARGET, DeprovisionAction } from '../config/index.js';
+
+/**
+ * Status of an outbound job
+ * - pending: waiting to be applied, possibly after a failed attempt
+ * - running: being applied by the worker
+ * - succeeded: applied to LaunchDarkly
+ * - dead: failed permanently or ran out of attempts; holds back later jobs for the same user and target
+ * - discarded: a dead job an operator chose not to apply
+ */
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead' | 'discarded';
+
+/**
+ * Payload of each job operation. Documents are in Alice's shape and are
+ * translated to LaunchDarkly's when the job is applied.
+ */
+export interface JobPayloads {
+  /** previousLdId is the member kept for the user when Alice deleted them before */
+  create: { document: ScimCoreUser; previousLdId?: string };
+  replace: { document: ScimCoreUser };
+  patch: { before: ScimCoreUser; after: ScimCoreUser };
+  /**
+   * ldId is null when the user was deleted before it reached LaunchDarkly.
+   * action is the deprovisioning policy's on_delete, or delete when unset.
+   */
+  delete: { ldId: string | null; action?: DeprovisionAction };
+  /** Group displayNames before and after a membership change */
+  group_roles: { previous: string[]; next: string[] };
+  /** Bring the user's member in an additional LD account in line with their current state */
+  target_sync: Record<string, never>;
+  /**
+   * Bring the LaunchDarkly team of a group in line with the group's current
+   * state, or delete it once the group is gone. Queued under the group's ID.
+   */
+  team_sync: Record<string, never>;
+}
+
+export type JobOperation = keyof JobPayloads;
+
+/**
+ * Outbound job record: one inbound SCIM write to apply to LaunchDarkly
+ */
+export interface OutboundJob<Op extends JobOperation = JobOperation> {
+  id: number;
+  /** The Alice user, or the Alice group of a team_sync job */
+  aliceId: string;
+  /** The LD account the job writes to: PRIMARY_TARGET or a name from LD_TARGETS */
+  target: string;
+  operation: Op;
+  payload: JobPayloads[Op];
+  status: JobStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+const JOB_COLUMNS = `id, alice_id, target, operation, payload, status, attempts, last_error, next_attempt_at,
+  created_at, updated_at, finished_at`;
+
+/**
+ * Record a job to apply after every earlier job for the same user in the primary LD account
+ */
+export function enqueueJob<Op extends JobOperation>(aliceId: string, operation: Op, payload: JobPayloads[Op]): OutboundJob<Op> {
+  return insertJob(aliceId, PRIMARY_TARGET, operation, payload);
+}
+
+/**
+ * Record a target_sync job for a user in an additional LD account, unless one
+ * is already waiting: it reads the user's state when it runs, so one is enough.
+ * Returns the waiting or new job.
+ */
+export function enqueueTargetSync(aliceId: string, target: string): OutboundJob<'target_sync'> {
+  return getPendingJob(aliceId, target, 'target_sync') ?? insertJob(aliceId, target, 'target_sync', {});
+}
+
+/**
+ * Record a team_sync job for a group, unless one is already waiting: it reads
+ * the group's state when it runs, so one is enough. Returns the waiting or new job.
+ */
+export function enqueueTeamSync(groupAliceId: string): OutboundJob<'team_sync'> {
+  return getPendingJob(groupAliceId, PRIMARY_TARGET, 'team_sync') ?? insertJob(groupAliceId, PRIMARY_TARGET, 'team_sync', {});
+}
+
+/**
+ * A job of the given operation waiting to run for a user or group
+ */
+function getPendingJob<Op extends JobOperation>(aliceId: string, target: string, operation: Op): OutboundJob<Op> | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${JOB_COLUMNS} FROM outbound_jobs
+    WHERE alice_id = ? AND target = ? AND operation = ? AND status = 'pending'
+    LIMIT 1
+  `);
+
+  const row = stmt.get(aliceId, target, operation) as Record<string, unknown> | undefined;
+  return row ? mapRowToJob(row) as OutboundJob<Op> : null;
+}
+
+/**
+ * Insert a pending job
+ */
+function insertJob<Op extends JobOperation>(
+  aliceId: string,
+  target: string,
+  operation: Op,
+  payload: JobPayloads[Op]
+): OutboundJob<Op> {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO outbound_jobs (alice_id, target, operation, payload)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const result = stmt.run(aliceId, target, operation, JSON.stringify(payload));
+
+  return getJob(result.lastInsertRowid as number) as OutboundJob<Op>;
+}
+
+/**
+ * Get a job by ID
+ */
+export function getJob(id: number): OutboundJob | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${JOB_COLUMNS} FROM outbound_jobs WHERE id = ?`);
+
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? mapRowToJob(row) : null;
+}
+
+/**
+ * List jobs, newest first
+ */
+export function listJobs(
+  filter: { status?: JobStatus; aliceId?: string; target?: string; limit?: number } = {}
+): OutboundJob[] {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.status) {
+    conditions.push('status = ?');
+    values.push(filter.status);
+  }
+  if (filter.aliceId) {
+    conditions.push('alice_id = ?');
+    values.push(filter.aliceId);
+  }
+  if (filter.target) {
+    conditions.push('target = ?');
+    values.push(filter.target);
+  }
+  values.push(filter.limit ?? 100);
+
+  const stmt = db.prepare(`
+    SELECT ${JOB_COLUMNS} FROM outbound_jobs
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY id DESC LIMIT ?
+  `);
+
+  const rows = stmt.all(...values) as Record<string, unknown>[];
+  return rows.map(mapRowToJob);
+}
+
+/**
+ * Number of jobs in each status, for every target or only one
+ */
+export function countJobsByStatus(target?: string): Record<JobStatus, number> {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT status, COUNT(*) AS count FROM outbound_jobs
+    ${target !== undefined ? 'WHERE target = ?' : ''}
+    GROUP BY status
+  `);
+
+  const counts: Record<JobStatus, number> = { pending: 0, running: 0, succeeded: 0, dead: 0, discarded: 0 };
+  const rows = (target !== undefined ? stmt.all(target) : stmt.all()) as Array<{ status: JobStatus; count: number }>;
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Whether a user has writes that are not yet applied to the primary LaunchDarkly account
+ */
+export function hasOpenJobs(aliceId: string): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT 1 FROM outbound_jobs
+    WHERE alice_id = ? AND target = ? AND status IN ('pending', 'running', 'dead')
+    LIMIT 1
+  `);
+
+  return stmt.get(aliceId, PRIMARY_TARGET) !== undefined;
+}
+
+/**
+ * Claim the oldest job that is due and has no earlier unfinished job for the
+ * same user in the same LD account
+ */
+export function claimNextJob(): OutboundJob | null {
+  const db = getDatabase();
+  const select = db.prepare(`
+    SELECT ${JOB_COLUMNS} FROM outbound_jobs j
+    WHERE j.status = 'pending' AND j.next_attempt_at <= datetime('now')
+      AND NOT EXISTS (
+        SELECT 1 FROM outbound_jobs e
+        WHERE e.alice_id = j.alice_id AND e.target = j.target AND e.id < j.id AND e.status IN ('pending', 'running', 'dead')
+      )
+    ORDER BY j.id LIMIT 1
+  `);
+  const claim = db.prepare(`
+    UPDATE outbound_jobs SET status = 'running', attempts = attempts + 1, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+
+  return db.transaction(() => {
+    const row = select.get() as Record<string, unknown> | undefined;
+    if (!row) {
+      return null;
+    }
+    claim.run(row.id);
+    return getJob(row.id as number);
+  })();
+}
+
+/**
+ * Mark a job as applied
+ */
+export function completeJob(id: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE outbound_jobs
+    SET status = 'succeeded', last_error = NULL, updated_at = datetime('now'), finished_at = datetime('now')
+    WHERE id = ?
+  `);
+
+  stmt.run(id);
+}
+
+/**
+ * Record a failed attempt. The job is retried after retryInSeconds, or moved
+ * to the dead-letter state when retryInSeconds is null.
+ */
+export function failJob(id: number, error: string, retryInSeconds: number | null): void {
+  const db = getDatabase();
+
+  if (retryInSeconds === null) {
+    db.prepare(`
+      UPDATE outbound_jobs
+      SET status = 'dead', last_error = ?, updated_at = datetime('now'), finished_at = datetime('now')
+      WHERE id = ?
+    `).run(error, id);
+    return;
+  }
+
+  db.prepare(`
+    UPDATE outbound_jobs
+    SET status = 'pending', last_error = ?, next_attempt_at = datetime('now', ?), updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, `+${retryInSeconds} seconds`, id);
+}
+
+/**
+ * Move a dead job back to pending with a fresh set of attempts
+ */
+export function replayJob(id: number): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE outbound_jobs
+    SET status = 'pending', attempts = 0, next_attempt_at = datetime('now'), updated_at = datetime('now'),
+        finished_at = NULL
+    WHERE id = ? AND status = 'dead'
+  `);
+
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Replay every dead job
+ */
+export function replayDeadJobs(): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE outbound_jobs
+    SET status = 'pending', attempts = 0, next_attempt_at = datetime('now'), updated_at = datetime('now'),
+        finished_at = NULL
+    WHERE status = 'dead'
+  `);
+
+  return stmt.run().changes;
+}
+
+/**
+ * Give up on a dead job, releasing later jobs for the same user and target
+ */
+export function discardJob(id: number): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE outbound_jobs SET status = 'discarded', updated_at = datetime('now')
+    WHERE id = ? AND status = 'dead'
+  `);
+
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Return jobs left running by a previous process to pending
+ */
+export function resetRunningJobs(): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE outbound_jobs SET status = 'pending', updated_at = datetime('now')
+    WHERE status = 'running'
+  `);
+
+  return stmt.run().changes;
+}
+
+/**
+ * Delete succeeded and discarded jobs finished more than olderThanDays ago
+ */
+export function pruneFinishedJobs(olderThanDays: number): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    DELETE FROM outbound_jobs
+    WHERE status IN ('succeeded', 'discarded') AND updated_at < datetime('now', ?)
+  `);
+
+  return stmt.run(`-${olderThanDays} days`).changes;
+}
+
+/**
+ * Map a database row to an OutboundJob object
+ */
+function mapRowToJob(row: Record<string, unknown>): OutboundJob {
+  return {
+    id: row.id as number,
+    aliceId: row.alice_id as string,
+    target: row.target as string,
+    operation: row.operation as JobOperation,
+    payload: JSON.parse(row.payload as string) as JobPayloads[JobOperation],
+    status: row.status as JobStatus,
+    attempts: row.attempts as number,
+    lastError: row.last_error as string | null,
+    nextAttemptAt: row.next_attempt_at as string,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    finishedAt: row.finished_at as string | null,
+  };
+}
@@ -0,0 +1,76 @@
+import { getDatabase } from './index.js';
+
+/**
+ * A LaunchDarkly OAuth token cached for an LD account. The token itself is
+ * encrypted by the caller; times are ISO 8601.
+ */
+export interface CachedOAuthTokenRow {
+  target: string;
+  /** Hash of the credentials the token was obtained with */
+  fingerprint: string;
+  encryptedToken: string;
+  obtainedAt: string;
+  expiresAt: string;
+  /** Whether the token endpoint gave no lifetime and expiresAt is a guess */
+  expiryAssumed: boolean;
+}
+
+/**
+ * Get the cached token of an LD account
+ */
+export function getCachedOAuthToken(target: string): CachedOAuthTokenRow | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT target, fingerprint, encrypted_token, obtained_at, expires_at, expiry_assumed
+    FROM oauth_token_cache WHERE target = ?
+  `);
+
+  const row = stmt.get(target) as Record<string, unknown> | undefined;
+  return row ? mapRowToCachedOAuthToken(row) : null;
+}
+
+/**
+ * Cache the token of an LD account, replacing the previous one
+ */
+export function saveCachedOAuthToken(token: CachedOAuthTokenRow): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO oauth_token_cache (target, fingerprint, encrypted_token, obtained_at, expires_at, expiry_assumed)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(target) DO UPDATE SET
+      fingerprint = excluded.fingerprint, encrypted_token = excluded.encrypted_token,
+      obtained_at = excluded.obtained_at, expires_at = excluded.expires_at,
+      expiry_assumed = excluded.expiry_assumed, updated_at = datetime('now')
+  `);
+
+  stmt.run(
+    token.target,
+    token.fingerprint,
+    token.encryptedToken,
+    token.obtainedAt,
+    token.expiresAt,
+    token.expiryAssumed ? 1 : 0
+  );
+}
+
+/**
+ * Drop the cached token of an LD account
+ */
+export function deleteCachedOAuthToken(target: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM oauth_token_cache WHERE target = ?').run(target);
+}
+
+/**
+ * Map a database row to a CachedOAuthTokenRow object
+ */
+function mapRowToCachedOAuthToken(row: Record<string, unknown>): CachedOAuthTokenRow {
+  return {
+    target: row.target as string,
+    fingerprint: row.fingerprint as string,
+    encryptedToken: row.encrypted_token as string,
+    obtainedAt: row.obtained_at as string,
+    expiresAt: row.expires_at as string,
+    expiryAssumed: row.expiry_assumed === 1,
+  };
+}
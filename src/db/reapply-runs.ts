@@ -0,0 +1,172 @@
+import { getDatabase } from './index.js';
+
+/**
+ * Status of a mapping re-application run
+ * - running: users are being processed
+ * - cancelled: stopped on request, can be resumed
+ * - interrupted: the gateway stopped while the run was in progress, can be resumed
+ * - completed: every user was processed
+ */
+export type ReapplyRunStatus = 'running' | 'cancelled' | 'interrupted' | 'completed';
+
+/**
+ * Mapping re-application run record
+ */
+export interface ReapplyRun {
+  id: string;
+  status: ReapplyRunStatus;
+  /** Hash of the mapping config the run applies */
+  mappingsHash: string | null;
+  mappingsVersion: string | null;
+  total: number;
+  processed: number;
+  changed: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+  /** Database ID of the last processed user mapping */
+  cursor: number;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Progress counters of a run
+ */
+export type ReapplyRunProgress = Pick<
+  ReapplyRun,
+  'processed' | 'changed' | 'unchanged' | 'skipped' | 'failed' | 'cursor' | 'lastError'
+>;
+
+const RUN_COLUMNS = `id, status, mappings_hash, mappings_version, total, processed, changed, unchanged,
+  skipped, failed, cursor, last_error, created_at, updated_at, finished_at`;
+
+/**
+ * Create a new run in the running state
+ */
+export function createReapplyRun(
+  id: string,
+  mappingsHash: string | null,
+  mappingsVersion: string | null,
+  total: number
+): ReapplyRun {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO mapping_reapply_runs (id, status, mappings_hash, mappings_version, total)
+    VALUES (?, 'running', ?, ?, ?)
+  `);
+
+  stmt.run(id, mappingsHash, mappingsVersion, total);
+
+  return getReapplyRun(id)!;
+}
+
+/**
+ * Get a run by ID
+ */
+export function getReapplyRun(id: string): ReapplyRun | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${RUN_COLUMNS} FROM mapping_reapply_runs WHERE id = ?`);
+
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? mapRowToReapplyRun(row) : null;
+}
+
+/**
+ * Get all runs, newest first
+ */
+export function getAllReapplyRuns(): ReapplyRun[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${RUN_COLUMNS} FROM mapping_reapply_runs ORDER BY created_at DESC, rowid DESC`);
+
+  const rows = stmt.all() as Record<string, unknown>[];
+  return rows.map(mapRowToReapplyRun);
+}
+
+/**
+ * Get the run currently in progress, if any
+ */
+export function getRunningReapplyRun(): ReapplyRun | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${RUN_COLUMNS} FROM mapping_reapply_runs WHERE status = 'running' LIMIT 1`);
+
+  const row = stmt.get() as Record<string, unknown> | undefined;
+  return row ? mapRowToReapplyRun(row) : null;
+}
+
+/**
+ * Record a run's progress
+ */
+export function updateReapplyRunProgress(id: string, progress: ReapplyRunProgress): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE mapping_reapply_runs
+    SET processed = ?, changed = ?, unchanged = ?, skipped = ?, failed = ?, cursor = ?, last_error = ?,
+        updated_at = datetime('now')
+    WHERE id = ?
+  `);
+
+  stmt.run(
+    progress.processed,
+    progress.changed,
+    progress.unchanged,
+    progress.skipped,
+    progress.failed,
+    progress.cursor,
+    progress.lastError,
+    id
+  );
+}
+
+/**
+ * Change a run's status. Completing a run records its finish time.
+ */
+export function setReapplyRunStatus(id: string, status: ReapplyRunStatus, total?: number): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE mapping_reapply_runs
+    SET status = ?, total = COALESCE(?, total), updated_at = datetime('now'),
+        finished_at = CASE WHEN ? = 'completed' THEN datetime('now') ELSE NULL END
+    WHERE id = ?
+  `);
+
+  stmt.run(status, total ?? null, status, id);
+}
+
+/**
+ * Mark runs left running by a previous process as interrupted
+ */
+export function interruptRunningReapplyRuns(): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE mapping_reapply_runs SET status = 'interrupted', updated_at = datetime('now')
+    WHERE status = 'running'
+  `);
+
+  return stmt.run().changes;
+}
+
+/**
+ * Map a database row to a ReapplyRun object
+ */
+function mapRowToReapplyRun(row: Record<string, unknown>): ReapplyRun {
+  return {
+    id: row.id as string,
+    status: row.status as ReapplyRunStatus,
+    mappingsHash: row.mappings_hash as string | null,
+    mappingsVersion: row.mappings_version as string | null,
+    total: row.total as number,
+    processed: row.processed as number,
+    changed: row.changed as number,
+    unchanged: row.unchanged as number,
+    skipped: row.skipped as number,
+    failed: row.failed as number,
+    cursor: row.cursor as number,
+    lastError: row.last_error as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    finishedAt: row.finished_at as string | null,
+  };
+}
@@ -0,0 +1,196 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from './index.js';
+import { LdBuiltInRole } from '../scim/schemas/launchdarkly.js';
+
+/**
+ * pending: waiting for a decision; approved: the grant is applied;
+ * denied or expired: the grant stays held until it stops matching the user
+ */
+export type RoleApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+/**
+ * A user's grant from a mapping entry marked requiresApproval
+ */
+export interface RoleApproval {
+  id: string;
+  aliceId: string;
+  /** The user's userName when the grant was requested */
+  userName: string | null;
+  /** The mapping entry: role:<aliceRole>, group:<aliceGroup> or rule:<name> */
+  entry: string;
+  /** What the entry grants */
+  customRoles: string[];
+  baseRole: LdBuiltInRole | null;
+  status: RoleApprovalStatus;
+  /** Comment given with the decision */
+  comment: string | null;
+  requestedAt: string;
+  /** When a pending request expires */
+  expiresAt: string;
+  decidedAt: string | null;
+}
+
+const APPROVAL_COLUMNS = `id, alice_id, user_name, entry, custom_roles, base_role, status, comment,
+  requested_at, expires_at, decided_at`;
+
+/**
+ * Request approval of a user's grant from a mapping entry
+ */
+export function createRoleApproval(
+  aliceId: string,
+  userName: string | null,
+  entry: string,
+  grant: { customRoles: string[]; baseRole?: LdBuiltInRole },
+  expireAfterDays: number
+): RoleApproval {
+  const db = getDatabase();
+  const id = uuidv4();
+  const stmt = db.prepare(`
+    INSERT INTO role_approvals (id, alice_id, user_name, entry, custom_roles, base_role, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now', '+' || ? || ' days'))
+  `);
+
+  stmt.run(id, aliceId, userName, entry, JSON.stringify(grant.customRoles), grant.baseRole ?? null, expireAfterDays);
+  return getRoleApproval(id)!;
+}
+
+/**
+ * Get an approval by ID
+ */
+export function getRoleApproval(id: string): RoleApproval | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${APPROVAL_COLUMNS} FROM role_approvals WHERE id = ?`);
+
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? mapRowToRoleApproval(row) : null;
+}
+
+/**
+ * Approvals, oldest request first
+ */
+export function listRoleApprovals(
+  filter: { status?: RoleApprovalStatus; aliceId?: string; limit?: number } = {}
+): RoleApproval[] {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.status) {
+    conditions.push('status = ?');
+    values.push(filter.status);
+  }
+  if (filter.aliceId) {
+    conditions.push('alice_id = ?');
+    values.push(filter.aliceId);
+  }
+  values.push(filter.limit ?? 100);
+
+  const stmt = db.prepare(`
+    SELECT ${APPROVAL_COLUMNS} FROM role_approvals
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY requested_at ASC LIMIT ?
+  `);
+
+  const rows = stmt.all(...values) as Record<string, unknown>[];
+  return rows.map(mapRowToRoleApproval);
+}
+
+/**
+ * Every approval of a user, whatever its status
+ */
+export function getUserRoleApprovals(aliceId: string): RoleApproval[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${APPROVAL_COLUMNS} FROM role_approvals WHERE alice_id = ? ORDER BY requested_at ASC`);
+
+  const rows = stmt.all(aliceId) as Record<string, unknown>[];
+  return rows.map(mapRowToRoleApproval);
+}
+
+/**
+ * The mapping entries approved for a user
+ */
+export function getApprovedEntries(aliceId: string): string[] {
+  const db = getDatabase();
+  const stmt = db.prepare("SELECT entry FROM role_approvals WHERE alice_id = ? AND status = 'approved'");
+
+  const rows = stmt.all(aliceId) as Array<{ entry: string }>;
+  return rows.map((row) => row.entry);
+}
+
+/**
+ * Decide a pending approval. Returns false if it is no longer pending.
+ */
+export function decideRoleApproval(id: string, status: 'approved' | 'denied', comment: string | null): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE role_approvals SET status = ?, comment = ?, decided_at = datetime('now')
+    WHERE id = ? AND status = 'pending'
+  `);
+
+  const result = stmt.run(status, comment, id);
+  return result.changes > 0;
+}
+
+/**
+ * Expire pending approvals past their expiry. Returns the number expired.
+ */
+export function expireRoleApprovals(): number {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE role_approvals SET status = 'expired', decided_at = datetime('now')
+    WHERE status = 'pending' AND expires_at <= datetime('now')
+  `);
+
+  return stmt.run().changes;
+}
+
+/**
+ * Delete a user's approvals for the given entries, or all of them
+ */
+export function deleteRoleApprovals(aliceId: string, entries?: string[]): number {
+  const db = getDatabase();
+  if (!entries) {
+    return db.prepare('DELETE FROM role_approvals WHERE alice_id = ?').run(aliceId).changes;
+  }
+
+  const stmt = db.prepare('DELETE FROM role_approvals WHERE alice_id = ? AND entry = ?');
+  let deleted = 0;
+  for (const entry of entries) {
+    deleted += stmt.run(aliceId, entry).changes;
+  }
+  return deleted;
+}
+
+/**
+ * Count approvals by status
+ */
+export function countRoleApprovals(): Record<RoleApprovalStatus, number> {
+  const db = getDatabase();
+  const stmt = db.prepare('SELECT status, COUNT(*) AS count FROM role_approvals GROUP BY status');
+
+  const counts: Record<RoleApprovalStatus, number> = { pending: 0, approved: 0, denied: 0, expired: 0 };
+  const rows = stmt.all() as Array<{ status: RoleApprovalStatus; count: number }>;
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Map a database row to a RoleApproval object
+ */
+function mapRowToRoleApproval(row: Record<string, unknown>): RoleApproval {
+  return {
+    id: row.id as string,
+    aliceId: row.alice_id as string,
+    userName: row.user_name as string | null,
+    entry: row.entry as string,
+    customRoles: JSON.parse(row.custom_roles as string) as string[],
+    baseRole: row.base_role as LdBuiltInRole | null,
+    status: row.status as RoleApprovalStatus,
+    comment: row.comment as string | null,
+    requestedAt: row.requested_at as string,
+    expiresAt: row.expires_at as string,
+    decidedAt: row.decided_at as string | null,
+  };
+}
@@ -0,0 +1,136 @@
+import { getDatabase } from './index.js';
+
+/**
+ * What the gateway last applied to a team, so the next sync knows what to
+ * remove even after the group or the mappings changed
+ */
+export interface AppliedTeamState {
+  name: string;
+  customRoles: string[];
+  /** LaunchDarkly member IDs */
+  memberIds: string[];
+}
+
+/**
+ * Team mapping record - correlates an Alice group with a LaunchDarkly team
+ */
+export interface TeamMapping {
+  id: number;
+  groupAliceId: string;
+  ldTeamKey: string;
+  /** Null for teams linked before the applied state was recorded */
+  applied: AppliedTeamState | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const TEAM_MAPPING_COLUMNS = 'id, group_alice_id, ld_team_key, applied_state, created_at, updated_at';
+
+/**
+ * Create a new team mapping
+ */
+export function createTeamMapping(groupAliceId: string, ldTeamKey: string, applied: AppliedTeamState): TeamMapping {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO team_mappings (group_alice_id, ld_team_key, applied_state)
+    VALUES (?, ?, ?)
+  `);
+
+  const result = stmt.run(groupAliceId, ldTeamKey, JSON.stringify(applied));
+
+  return getTeamMappingById(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Record the state last applied to a group's team
+ */
+export function updateTeamAppliedState(groupAliceId: string, applied: AppliedTeamState): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    UPDATE team_mappings SET applied_state = ?, updated_at = datetime('now')
+    WHERE group_alice_id = ?
+  `);
+
+  const result = stmt.run(JSON.stringify(applied), groupAliceId);
+  return result.changes > 0;
+}
+
+/**
+ * Get a team mapping by database ID
+ */
+export function getTeamMappingById(id: number): TeamMapping | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${TEAM_MAPPING_COLUMNS}
+    FROM team_mappings WHERE id = ?
+  `);
+
+  const row = stmt.get(id) as Record<string, unknown> | undefined;
+  return row ? mapRowToTeamMapping(row) : null;
+}
+
+/**
+ * Get a team mapping by the Alice group ID
+ */
+export function getTeamMappingByGroupAliceId(groupAliceId: string): TeamMapping | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${TEAM_MAPPING_COLUMNS}
+    FROM team_mappings WHERE group_alice_id = ?
+  `);
+
+  const row = stmt.get(groupAliceId) as Record<string, unknown> | undefined;
+  return row ? mapRowToTeamMapping(row) : null;
+}
+
+/**
+ * Get a team mapping by LaunchDarkly team key
+ */
+export function getTeamMappingByTeamKey(ldTeamKey: string): TeamMapping | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${TEAM_MAPPING_COLUMNS}
+    FROM team_mappings WHERE ld_team_key = ?
+  `);
+
+  const row = stmt.get(ldTeamKey) as Record<string, unknown> | undefined;
+  return row ? mapRowToTeamMapping(row) : null;
+}
+
+/**
+ * Delete a team mapping by Alice group ID
+ */
+export function deleteTeamMapping(groupAliceId: string): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare('DELETE FROM team_mappings WHERE group_alice_id = ?');
+  const result = stmt.run(groupAliceId);
+  return result.changes > 0;
+}
+
+/**
+ * Get all team mappings (for listing/debugging)
+ */
+export function getAllTeamMappings(): TeamMapping[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${TEAM_MAPPING_COLUMNS}
+    FROM team_mappings ORDER BY created_at DESC
+  `);
+
+  const rows = stmt.all() as Record<string, unknown>[];
+  return rows.map(mapRowToTeamMapping);
+}
+
+/**
+ * Map a database row to a TeamMapping object
+ */
+function mapRowToTeamMapping(row: Record<string, unknown>): TeamMapping {
+  return {
+    id: row.id as number,
+    groupAliceId: row.group_alice_id as string,
+    ldTeamKey: row.ld_team_key as string,
+    applied: row.applied_state ? JSON.parse(row.applied_state as string) as AppliedTeamState : null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
@@ -13,6 +13,18 @@ export interface UserMapping {
   updatedAt: string;
 }
 
+/**
+ * ldId of a user accepted in async write mode whose LaunchDarkly member has not been created yet
+ */
+export const PENDING_LD_ID = '';
+
+/**
+ * Whether the user's LaunchDarkly member is still waiting to be created
+ */
+export function isPendingLdUser(mapping: UserMapping): boolean {
+  return mapping.ldId === PENDING_LD_ID;
+}
+
 /**
  * Create a new user mapping
  */
@@ -148,6 +160,30 @@ export function getAllUserMappings(): UserMapping[] {
   return rows.map(mapRowToUserMapping);
 }
 
+/**
+ * Get a page of user mappings in insertion order, starting after a database ID.
+ * Used to walk every mapping in batches that can be resumed.
+ */
+export function getUserMappingsAfterId(afterId: number, limit: number): UserMapping[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT id, alice_id, alice_external_id, ld_id, ld_user_name, created_at, updated_at
+    FROM user_mappings WHERE id > ? ORDER BY id ASC LIMIT ?
+  `);
+
+  const rows = stmt.all(afterId, limit) as Record<string, unknown>[];
+  return rows.map(mapRowToUserMapping);
+}
+
+/**
+ * Count all user mappings
+ */
+export function countUserMappings(): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT COUNT(*) AS count FROM user_mappings').get() as { count: number };
+  return row.count;
+}
+
 /**
  * Map a database row to a UserMapping object
  */
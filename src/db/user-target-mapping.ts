@@ -0,0 +1,75 @@
+import { getDatabase } from './index.js';
+
+/**
+ * A user's member in an additional LaunchDarkly account (see LD_TARGETS)
+ */
+export interface UserTargetMapping {
+  aliceId: string;
+  target: string;
+  ldId: string;
+  ldUserName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Record the LD member of a user in a target, replacing any previous one
+ */
+export function saveUserTargetMapping(aliceId: string, target: string, ldId: string, ldUserName: string): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO user_target_mappings (alice_id, target, ld_id, ld_user_name)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(alice_id, target) DO UPDATE SET
+      ld_id = excluded.ld_id, ld_user_name = excluded.ld_user_name, updated_at = datetime('now')
+  `);
+
+  stmt.run(aliceId, target, ldId, ldUserName);
+}
+
+/**
+ * Get the LD member of a user in a target
+ */
+export function getUserTargetMapping(aliceId: string, target: string): UserTargetMapping | null {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT alice_id, target, ld_id, ld_user_name, created_at, updated_at
+    FROM user_target_mappings WHERE alice_id = ? AND target = ?
+  `);
+
+  const row = stmt.get(aliceId, target) as Record<string, unknown> | undefined;
+  return row ? mapRowToUserTargetMapping(row) : null;
+}
+
+/**
+ * Forget the LD member of a user in a target
+ */
+export function deleteUserTargetMapping(aliceId: string, target: string): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare('DELETE FROM user_target_mappings WHERE alice_id = ? AND target = ?');
+  const result = stmt.run(aliceId, target);
+  return result.changes > 0;
+}
+
+/**
+ * Count the users provisioned into a target
+ */
+export function countUserTargetMappings(target: string): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT COUNT(*) AS count FROM user_target_mappings WHERE target = ?').get(target) as { count: number };
+  return row.count;
+}
+
+/**
+ * Map a database row to a UserTargetMapping object
+ */
+function mapRowToUserTargetMapping(row: Record<string, unknown>): UserTargetMapping {
+  return {
+    aliceId: row.alice_id as string,
+    target: row.target as string,
+    ldId: row.ld_id as string,
+    ldUserName: row.ld_user_name as string,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
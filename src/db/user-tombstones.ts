@@ -0,0 +1,127 @@
+import { getDatabase } from './index.js';
+import { DeprovisionAction } from '../config/index.js';
+import { UserMapping } from './user-mapping.js';
+
+/**
+ * The mapping of a user Alice deleted whose LaunchDarkly member was kept
+ * (deactivated or downgraded), so that the user is relinked to the same
+ * member if Alice creates them again
+ */
+export interface UserTombstone {
+  aliceId: string;
+  aliceExternalId: string | null;
+  ldId: string;
+  ldUserName: string;
+  /** The deprovisioning action applied to the member */
+  action: DeprovisionAction;
+  deletedAt: string;
+  /** When the member is due to be deleted (deactivate_then_delete only) */
+  purgeAfter: string | null;
+}
+
+const TOMBSTONE_COLUMNS = 'alice_id, alice_external_id, ld_id, ld_user_name, action, deleted_at, purge_after';
+
+/**
+ * Record the tombstone of a deleted user's mapping, replacing any previous one
+ *
+ * @param purgeAfterDays days until the member is due to be deleted, or null to keep it
+ */
+export function createUserTombstone(mapping: UserMapping, action: DeprovisionAction, purgeAfterDays: number | null): void {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO user_tombstones (alice_id, alice_external_id, ld_id, ld_user_name, action, purge_after)
+    VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' days') END)
+    ON CONFLICT(alice_id) DO UPDATE SET
+      alice_external_id = excluded.alice_external_id, ld_id = excluded.ld_id, ld_user_name = excluded.ld_user_name,
+      action = excluded.action, deleted_at = datetime('now'), purge_after = excluded.purge_after
+  `);
+
+  stmt.run(mapping.aliceId, mapping.aliceExternalId, mapping.ldId, mapping.ldUserName, action, purgeAfterDays, purgeAfterDays);
+}
+
+/**
+ * Find the tombstone of a deleted user matching a new user: by externalId if
+ * the new user has one that matches, otherwise by userName, ignoring case.
+ * The most recently deleted match wins.
+ */
+export function findUserTombstone(externalId: string | null, userName: string): UserTombstone | null {
+  const db = getDatabase();
+
+  if (externalId) {
+    const row = db.prepare(`
+      SELECT ${TOMBSTONE_COLUMNS} FROM user_tombstones
+      WHERE alice_external_id = ? ORDER BY deleted_at DESC LIMIT 1
+    `).get(externalId) as Record<string, unknown> | undefined;
+    if (row) {
+      return mapRowToUserTombstone(row);
+    }
+  }
+
+  const row = db.prepare(`
+    SELECT ${TOMBSTONE_COLUMNS} FROM user_tombstones
+    WHERE ld_user_name = ? COLLATE NOCASE ORDER BY deleted_at DESC LIMIT 1
+  `).get(userName) as Record<string, unknown> | undefined;
+  return row ? mapRowToUserTombstone(row) : null;
+}
+
+/**
+ * Tombstones whose member is due to be deleted
+ */
+export function getDueUserTombstones(): UserTombstone[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    SELECT ${TOMBSTONE_COLUMNS} FROM user_tombstones
+    WHERE purge_after IS NOT NULL AND purge_after <= datetime('now')
+    ORDER BY purge_after ASC
+  `);
+
+  const rows = stmt.all() as Record<string, unknown>[];
+  return rows.map(mapRowToUserTombstone);
+}
+
+/**
+ * Get all tombstones, most recently deleted first
+ */
+export function getAllUserTombstones(): UserTombstone[] {
+  const db = getDatabase();
+  const stmt = db.prepare(`SELECT ${TOMBSTONE_COLUMNS} FROM user_tombstones ORDER BY deleted_at DESC`);
+
+  const rows = stmt.all() as Record<string, unknown>[];
+  return rows.map(mapRowToUserTombstone);
+}
+
+/**
+ * Delete a user's tombstone
+ */
+export function deleteUserTombstone(aliceId: string): boolean {
+  const db = getDatabase();
+  const stmt = db.prepare('DELETE FROM user_tombstones WHERE alice_id = ?');
+  const result = stmt.run(aliceId);
+  return result.changes > 0;
+}
+
+/**
+ * Count tombstones, and those with a member due to be deleted later
+ */
+export function countUserTombstones(): { total: number; awaitingDeletion: number } {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) AS total, COUNT(purge_after) AS awaiting_deletion FROM user_tombstones
+  `).get() as { total: number; awaiting_deletion: number };
+  return { total: row.total, awaitingDeletion: row.awaiting_deletion };
+}
+
+/**
+ * Map a database row to a UserTombstone object
+ */
+function mapRowToUserTombstone(row: Record<string, unknown>): UserTombstone {
+  return {
+    aliceId: row.alice_id as string,
+    aliceExternalId: row.alice_external_id as string | null,
+    ldId: row.ld_id as string,
+    ldUserName: row.ld_user_name as string,
+    action: row.action as DeprovisionAction,
+    deletedAt: row.deleted_at as string,
+    purgeAfter: row.purge_after as string | null,
+  };
+}
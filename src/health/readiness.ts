@@ -0,0 +1,162 @@
+/**
+ * Readiness Checks
+ *
+ * Backs GET /ready. The gateway is ready when the database accepts writes,
+ * the token provider can produce a LaunchDarkly token, and a recent probe of
+ * the LaunchDarkly SCIM API succeeded. The probe runs in the background, so
+ * readiness requests never wait on LaunchDarkly. An OAuth token that is still
+ * valid but cannot be refreshed is reported as a warning.
+ */
+
+import { AppConfig } from '../config/index.js';
+import { checkDatabaseWritable } from '../db/index.js';
+import { LaunchDarklyScimClient, TokenProvider } from '../scim/client/launchdarkly.js';
+import { TokenManager } from '../auth/token-manager.js';
+import { CircuitBreaker, CircuitStatus } from '../scim/client/circuit-breaker.js';
+import { logger } from '../middleware/logging.js';
+
+/** Longest wait for a token before the check fails */
+const TOKEN_TIMEOUT_MS = 5000;
+
+export interface ReadinessCheck {
+  ok: boolean;
+  /** Whether a failure makes the gateway not ready */
+  required: boolean;
+  error?: string;
+  /** Something to act on before it makes the check fail */
+  warning?: string;
+}
+
+export interface LaunchDarklyCheck extends ReadinessCheck {
+  lastProbeAt: string | null;
+  lastSuccessAt: string | null;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  timestamp: string;
+  checks: {
+    database: ReadinessCheck;
+    token: ReadinessCheck;
+    launchDarkly: LaunchDarklyCheck;
+  };
+  circuitBreaker: CircuitStatus | 'disabled';
+}
+
+export type ReadinessChecker = ReturnType<typeof createReadinessChecker>;
+
+/**
+ * Create the readiness checker
+ */
+export function createReadinessChecker(
+  config: AppConfig,
+  tokenProvider: TokenProvider,
+  ldClient: LaunchDarklyScimClient,
+  circuitBreaker?: CircuitBreaker
+) {
+  const probeIntervalMs = config.ldProbeIntervalSeconds * 1000;
+  let lastProbe: { at: number; ok: boolean; error?: string } | null = null;
+  let lastSuccessAt: number | null = null;
+
+  async function probe(): Promise<void> {
+    try {
+      await ldClient.probe();
+      if (lastProbe && !lastProbe.ok) {
+        logger.info('LaunchDarkly probe succeeded again');
+      }
+      lastProbe = { at: Date.now(), ok: true };
+      lastSuccessAt = lastProbe.at;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!lastProbe || lastProbe.ok) {
+        logger.warn({ error: message }, 'LaunchDarkly probe failed');
+      }
+      lastProbe = { at: Date.now(), ok: false, error: message };
+    }
+  }
+
+  function checkDatabase(): ReadinessCheck {
+    try {
+      checkDatabaseWritable();
+      return { ok: true, required: true };
+    } catch (error) {
+      return { ok: false, required: true, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async function checkToken(): Promise<ReadinessCheck> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        tokenProvider.getAccessToken(),
+        new Promise((_resolve, reject) => {
+          timer = setTimeout(() => reject(new Error(`No token within ${TOKEN_TIMEOUT_MS}ms`)), TOKEN_TIMEOUT_MS);
+        }),
+      ]);
+      const status = tokenProvider instanceof TokenManager ? tokenProvider.status() : undefined;
+      if (status?.state === 'refresh_failing' || status?.state === 'expiring') {
+        return {
+          ok: true,
+          required: true,
+          warning: `Token expires at ${status.expiresAt} and could not be refreshed: ${status.lastRefreshError}`,
+        };
+      }
+      return { ok: true, required: true };
+    } catch (error) {
+      return { ok: false, required: true, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * In async write mode writes are queued while LaunchDarkly is unreachable,
+   * so a failing probe is reported without taking the gateway out of service.
+   */
+  function checkLaunchDarkly(): LaunchDarklyCheck {
+    const required = config.writeMode === 'sync';
+    const times = {
+      lastProbeAt: lastProbe ? new Date(lastProbe.at).toISOString() : null,
+      lastSuccessAt: lastSuccessAt ? new Date(lastSuccessAt).toISOString() : null,
+    };
+
+    if (!lastProbe) {
+      return { ok: false, required, error: 'LaunchDarkly has not been probed yet', ...times };
+    }
+    if (!lastProbe.ok) {
+      return { ok: false, required, error: lastProbe.error, ...times };
+    }
+    if (Date.now() - lastProbe.at > 2 * probeIntervalMs + config.ldRetry.timeoutMs) {
+      return { ok: false, required, error: 'No recent LaunchDarkly probe', ...times };
+    }
+    return { ok: true, required, ...times };
+  }
+
+  return {
+    /**
+     * Probe LaunchDarkly now and then every probe interval.
+     * Returns a function that stops probing.
+     */
+    start(): () => void {
+      void probe();
+      const timer = setInterval(() => void probe(), probeIntervalMs);
+      return () => clearInterval(timer);
+    },
+
+    async check(): Promise<ReadinessReport> {
+      const checks = {
+        database: checkDatabase(),
+        token: await checkToken(),
+        launchDarkly: checkLaunchDarkly(),
+      };
+      const ready = Object.values(checks).every((c) => c.ok || !c.required);
+
+      return {
+        status: ready ? 'ready' : 'not_ready',
+        timestamp: new Date().toISOString(),
+        checks,
+        circuitBreaker: circuitBreaker?.status() ?? 'disabled',
+      };
+    },
+  };
+}
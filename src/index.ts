@@ -1,79 +1,85 @@
 /**
  * SCIM Gateway - Main Entry Point
- * 
+ *
  * A SCIM middleware service that bridges Alice IdP and LaunchDarkly.
  * Transforms standard SCIM User resources to LaunchDarkly's extended schema.
  */
 
 import 'dotenv/config';
 import express from 'express';
-import { loadConfig, AppConfig } from './config/index.js';
-import { initDatabase, closeDatabase } from './db/index.js';
+import { loadConfig, loadTenantConfigs, isMultiTenant, TenantConfig } from './config/index.js';
 import { logger, requestLogger } from './middleware/logging.js';
+import { metricsRegistry, requestMetrics } from './middleware/metrics.js';
+import { initTracing, requestTracing } from './middleware/tracing.js';
 import { bearerTokenAuth } from './middleware/auth.js';
-import { TokenManager } from './auth/token-manager.js';
-import { LaunchDarklyScimClient, createStaticTokenProvider, TokenProvider } from './scim/client/launchdarkly.js';
-import { createScimRouter } from './scim/server/routes.js';
+import { createTenant } from './tenants/runtime.js';
+import { DEFAULT_TENANT } from './tenants/context.js';
 
-let config: AppConfig;
+const multiTenant = isMultiTenant();
+let tenantConfigs: TenantConfig[];
 
-// Load configuration
+// Load configuration: one tenant per TENANTS entry, or a single tenant from the plain variables
 try {
-  config = loadConfig();
+  tenantConfigs = multiTenant
+    ? loadTenantConfigs()
+    : [{ name: DEFAULT_TENANT, config: loadConfig() }];
 } catch (error) {
   console.error('Failed to load configuration:', error);
   process.exit(1);
 }
 
-// Initialize database
-initDatabase(config.databasePath);
+// Process-wide settings are the same in every tenant's config
+const { port, tracing, metricsBearerToken } = tenantConfigs[0].config;
+
+// Start tracing before anything that creates spans
+const stopTracing = initTracing(tracing);
+
+const tenants = tenantConfigs.map(({ name, config }) => createTenant(name, config));
 
 // Create Express app
 const app = express();
 
 // Middleware
 app.use(express.json({ type: ['application/json', 'application/scim+json'] }));
+app.use(requestTracing);
 app.use(requestLogger);
+app.use(requestMetrics);
 
-// Health check endpoint (unauthenticated)
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+// Prometheus metrics (authenticated with their own token, disabled unless configured)
+if (metricsBearerToken) {
+  app.get('/metrics', bearerTokenAuth(metricsBearerToken), async (_req, res) => {
+    res.type(metricsRegistry.contentType).send(await metricsRegistry.metrics());
+  });
+}
 
-// Ready check endpoint (unauthenticated)
-app.get('/ready', (_req, res) => {
-  res.json({ status: 'ready', timestamp: new Date().toISOString() });
-});
+if (multiTenant) {
+  // Health check endpoint (unauthenticated); per-tenant details are at /t/{tenant}/admin/health
+  app.get('/health', (_req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      tenants: tenants.map((t) => t.name),
+    });
+  });
 
-// Create token provider (OAuth2 client credentials or static token)
-let tokenProvider: TokenProvider;
-
-if (config.ldOAuth) {
-  logger.info({ scope: config.ldOAuth.scope, userId: config.ldOAuth.userId }, 'Using OAuth2 client credentials for LaunchDarkly authentication');
-  tokenProvider = new TokenManager({
-    tokenUrl: config.ldOAuth.tokenUrl,
-    clientId: config.ldOAuth.clientId,
-    clientSecret: config.ldOAuth.clientSecret,
-    scope: config.ldOAuth.scope,
-    userId: config.ldOAuth.userId,
+  // Ready check endpoint (unauthenticated): ready when every tenant is
+  app.get('/ready', async (_req, res) => {
+    const reports = await Promise.all(tenants.map((t) => t.ready()));
+    const ready = reports.every((r) => r.status === 'ready');
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'ready' : 'not_ready',
+      timestamp: new Date().toISOString(),
+      tenants: Object.fromEntries(tenants.map((t, i) => [t.name, reports[i]])),
+    });
   });
-} else if (config.ldAccessToken) {
-  logger.info('Using static access token for LaunchDarkly authentication');
-  tokenProvider = createStaticTokenProvider(config.ldAccessToken);
+
+  for (const tenant of tenants) {
+    tenant.mount(app, `/t/${tenant.name}`);
+  }
 } else {
-  throw new Error('No LaunchDarkly authentication configured');
+  tenants[0].mount(app, '');
 }
 
-// Create LaunchDarkly SCIM client
-const ldClient = new LaunchDarklyScimClient({
-  baseUrl: config.ldScimBaseUrl,
-  tokenProvider,
-});
-
-// SCIM routes (authenticated)
-const scimRouter = createScimRouter(config, ldClient);
-app.use('/scim/v2', bearerTokenAuth(config.gatewayBearerToken), scimRouter);
-
 // 404 handler
 app.use((_req, res) => {
   res.status(404).json({
@@ -93,27 +99,38 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
   });
 });
 
+const stopTenants = tenants.map((t) => t.start());
+
 // Start server
-const server = app.listen(config.port, () => {
-  logger.info({
-    port: config.port,
-    ldScimBaseUrl: config.ldScimBaseUrl,
-    authMethod: config.ldOAuth ? 'oauth2' : 'static_token',
-    mappingsCount: config.mappings.roleMappings.length,
-    defaultRole: config.mappings.defaultRole,
-  }, 'SCIM Gateway started');
+const server = app.listen(port, () => {
+  if (multiTenant) {
+    logger.info(
+      { port, tracing: tracing.exporter, metrics: Boolean(metricsBearerToken), tenants: tenants.map((t) => t.name) },
+      'SCIM Gateway started'
+    );
+    for (const tenant of tenants) {
+      logger.info({ tenant: tenant.name, routes: `/t/${tenant.name}`, ...tenant.describe() }, 'Tenant started');
+    }
+  } else {
+    logger.info(
+      { port, tracing: tracing.exporter, metrics: Boolean(metricsBearerToken), ...tenants[0].describe() },
+      'SCIM Gateway started'
+    );
+  }
 });
 
 // Graceful shutdown
 function shutdown() {
   logger.info('Shutting down...');
+  stopTenants.forEach((stop) => stop());
   server.close(() => {
-    closeDatabase();
+    tenants.forEach((t) => t.close());
     logger.info('Server closed');
-    process.exit(0);
+    stopTracing()
+      .catch((error) => logger.error({ error }, 'Failed to flush traces'))
+      .finally(() => process.exit(0));
   });
 }
 
 process.on('SIGTERM', shutdown);
 process.on('SIGINT', shutdown);
-
@@ -0,0 +1,157 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJobWorker } from './worker.js';
+import { openDatabase, runWithDatabase } from '../db/index.js';
+import { PENDING_LD_ID, createUserMapping, getUserMappingByAliceId } from '../db/user-mapping.js';
+import { addGroupMembers, createGroup, deleteGroup } from '../db/groups.js';
+import { OutboundJob, enqueueJob, enqueueTeamSync, getJob, listJobs } from '../db/jobs.js';
+import { LaunchDarklyScimClient, LdScimError } from '../scim/client/launchdarkly.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { TeamSync } from '../mapping/team-sync.js';
+import { AppConfig } from '../config/index.js';
+import { createTestConfig } from '../testing/config.js';
+
+const config = createTestConfig('{}', { WRITE_MODE: 'async', JOB_MAX_ATTEMPTS: '3' });
+
+const document: ScimCoreUser = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+  userName: 'ada@example.com',
+  emails: [{ value: 'ada@example.com', primary: true }],
+  active: true,
+};
+
+function fakeLdClient() {
+  return {
+    createUser: vi.fn(async () => ({ id: 'ld-ada', userName: 'ada@example.com' })),
+    findUserByUserName: vi.fn(async () => null),
+    replaceUser: vi.fn(async (id: string, user: ScimCoreUser) => ({ ...user, id })),
+  };
+}
+
+function fakeTeamSync() {
+  return { syncGroup: vi.fn(async () => undefined), deleteTeam: vi.fn(async () => undefined) };
+}
+
+/** Start a worker, let it apply the due jobs once and stop it */
+async function runWorker(
+  ldClient: ReturnType<typeof fakeLdClient>,
+  teamSync?: ReturnType<typeof fakeTeamSync>,
+  workerConfig: AppConfig = config
+): Promise<void> {
+  const worker = createJobWorker(
+    workerConfig, ldClient as unknown as LaunchDarklyScimClient, undefined, teamSync as unknown as TeamSync
+  );
+  const stop = worker.start();
+  await vi.advanceTimersByTimeAsync(1000);
+  await vi.waitFor(() => expect(listJobs({ status: 'running' })).toEqual([]));
+  stop();
+}
+
+/** Make a job that waits out a backoff due now */
+function makeDue(job: OutboundJob): void {
+  db.prepare("UPDATE outbound_jobs SET next_attempt_at = datetime('now') WHERE id = ?").run(job.id);
+}
+
+let db: Database.Database;
+
+describe('createJobWorker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    db = openDatabase(':memory:');
+    runWithDatabase(db, () => createUserMapping('alice-ada', null, 'ld-ada', 'ada@example.com'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  it('applies a user\'s jobs in the order they were queued', () => runWithDatabase(db, async () => {
+    const ldClient = fakeLdClient();
+    const first = enqueueJob('alice-ada', 'replace', { document: { ...document, userName: 'ada@example.com' } });
+    const second = enqueueJob('alice-ada', 'replace', { document: { ...document, userName: 'ada.lovelace@example.com' } });
+
+    await runWorker(ldClient);
+
+    expect(ldClient.replaceUser.mock.calls.map(([, user]) => user.userName))
+      .toEqual(['ada@example.com', 'ada.lovelace@example.com']);
+    expect([getJob(first.id)?.status, getJob(second.id)?.status]).toEqual(['succeeded', 'succeeded']);
+  }));
+
+  it('retries a failed job with backoff, holding back the user\'s later jobs', () => runWithDatabase(db, async () => {
+    const ldClient = fakeLdClient();
+    ldClient.replaceUser.mockRejectedValueOnce(new LdScimError(503, 'Service unavailable'));
+    const first = enqueueJob('alice-ada', 'replace', { document });
+    const second = enqueueJob('alice-ada', 'replace', { document });
+
+    await runWorker(ldClient);
+    expect(getJob(first.id)).toMatchObject({ status: 'pending', attempts: 1, lastError: expect.stringContaining('503') });
+    expect(getJob(second.id)).toMatchObject({ status: 'pending', attempts: 0 });
+
+    makeDue(first);
+    await runWorker(ldClient);
+    expect([getJob(first.id)?.status, getJob(second.id)?.status]).toEqual(['succeeded', 'succeeded']);
+  }));
+
+  it('moves a job LaunchDarkly rejects to the dead-letter state at once', () => runWithDatabase(db, async () => {
+    const ldClient = fakeLdClient();
+    ldClient.replaceUser.mockRejectedValueOnce(new LdScimError(400, 'Invalid email'));
+    const rejected = enqueueJob('alice-ada', 'replace', { document });
+    const later = enqueueJob('alice-ada', 'replace', { document });
+
+    await runWorker(ldClient);
+
+    expect(getJob(rejected.id)).toMatchObject({ status: 'dead', attempts: 1 });
+    expect(getJob(later.id)).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(ldClient.replaceUser).toHaveBeenCalledTimes(1);
+  }));
+
+  it('moves a job to the dead-letter state after JOB_MAX_ATTEMPTS attempts', () => runWithDatabase(db, async () => {
+    const ldClient = fakeLdClient();
+    ldClient.replaceUser.mockRejectedValue(new Error('socket hang up'));
+    const job = enqueueJob('alice-ada', 'replace', { document });
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      makeDue(job);
+      await runWorker(ldClient);
+    }
+
+    expect(getJob(job.id)).toMatchObject({ status: 'dead', attempts: 3, lastError: 'socket hang up' });
+  }));
+
+  describe('team_sync jobs', () => {
+    it('sync the group\'s team, or delete it once the group is gone', () => runWithDatabase(db, async () => {
+      const teamSync = fakeTeamSync();
+      createGroup('group-eng', null, 'Engineering');
+      createGroup('group-ops', null, 'Operations');
+      enqueueTeamSync('group-eng');
+      enqueueTeamSync('group-ops');
+      deleteGroup('group-ops');
+
+      await runWorker(fakeLdClient(), teamSync);
+
+      expect(teamSync.syncGroup).toHaveBeenCalledWith(expect.objectContaining({ aliceId: 'group-eng' }));
+      expect(teamSync.deleteTeam).toHaveBeenCalledWith('group-ops');
+      expect(listJobs({ status: 'succeeded' })).toHaveLength(2);
+    }));
+
+    it('are queued for the groups of a user once their queued create is applied', () => runWithDatabase(db, async () => {
+      const teamSync = fakeTeamSync();
+      createUserMapping('alice-carol', null, PENDING_LD_ID, 'carol@example.com');
+      createGroup('group-eng', null, 'Engineering');
+      addGroupMembers('group-eng', ['alice-carol']);
+      enqueueJob('alice-carol', 'create', { document: { ...document, userName: 'carol@example.com' } });
+
+      await runWorker(fakeLdClient(), teamSync);
+
+      expect(getUserMappingByAliceId('alice-carol')?.ldId).toBe('ld-ada');
+      expect(listJobs({ aliceId: 'group-eng' })).toEqual([expect.objectContaining({ operation: 'team_sync' })]);
+    }));
+
+    it('are dead without Teams sync', () => runWithDatabase(db, async () => {
+      const job = enqueueTeamSync('group-eng');
+      await runWorker(fakeLdClient());
+      expect(getJob(job.id)).toMatchObject({ status: 'dead', lastError: 'Teams sync is no longer enabled (LD_TEAMS_SYNC)' });
+    }));
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Outbound Job Worker
+ *
+ * Applies queued SCIM writes (see db/jobs.ts) to LaunchDarkly one at a time,
+ * oldest first, never starting a user's job before their earlier jobs are
+ * done. Failed jobs are retried with backoff. A job that fails permanently,
+ * or runs out of attempts, moves to the dead-letter state and holds back the
+ * user's later jobs until it is replayed or discarded.
+ */
+
+import { AppConfig } from '../config/index.js';
+import { LaunchDarklyScimClient, LdScimError } from '../scim/client/launchdarkly.js';
+import { GuardrailViolationError } from '../mapping/guardrails.js';
+import {
+  OutboundJob,
+  JobPayloads,
+  claimNextJob,
+  completeJob,
+  failJob,
+  enqueueTeamSync,
+  resetRunningJobs,
+  pruneFinishedJobs,
+} from '../db/jobs.js';
+import {
+  getUserMappingByAliceId,
+  getUserMappingByLdId,
+  updateUserMapping,
+  isPendingLdUser,
+  UserMapping,
+} from '../db/user-mapping.js';
+import { getApprovedEntries, expireRoleApprovals } from '../db/role-approvals.js';
+import { getGroupByAliceId, getGroupsForUser } from '../db/groups.js';
+import {
+  transformAliceUserToLdUser,
+  buildLdPatchOperations,
+  isDowngraded,
+  recordRoleMappingResults,
+} from '../mapping/transformer.js';
+import { provisionLdUser } from '../mapping/provision.js';
+import { deprovisionLdUser, queueDueDeletions } from '../mapping/deprovision.js';
+import { applyGroupRoleChange } from '../mapping/group-roles.js';
+import { TargetSync } from '../mapping/target-sync.js';
+import { TeamSync } from '../mapping/team-sync.js';
+import { directGroupNames } from '../mapping/role-diff.js';
+import { logger } from '../middleware/logging.js';
+import { withSpan } from '../middleware/tracing.js';
+
+/** How often the worker looks for due jobs when the queue is idle */
+const POLL_INTERVAL_MS = 1000;
+
+/** Backoff before the first retry, doubled for each retry after it */
+const RETRY_BASE_DELAY_SECONDS = 5;
+const RETRY_MAX_DELAY_SECONDS = 15 * 60;
+
+/** Succeeded and discarded jobs are kept this long for inspection */
+const RETENTION_DAYS = 7;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** LaunchDarkly statuses that a later attempt can succeed after */
+const TRANSIENT_STATUSES = new Set([401, 408, 429]);
+
+/**
+ * A job failure that retrying cannot fix
+ */
+class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export type JobWorker = ReturnType<typeof createJobWorker>;
+
+/**
+ * Create the outbound job worker
+ *
+ * @param targetSync applies target_sync jobs for the additional accounts in LD_TARGETS
+ * @param teamSync applies team_sync jobs for the LaunchDarkly teams of groups
+ */
+export function createJobWorker(
+  config: AppConfig,
+  ldClient: LaunchDarklyScimClient,
+  targetSync?: TargetSync,
+  teamSync?: TeamSync
+) {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  let lastPrunedAt = 0;
+
+  /**
+   * The user's mapping once their LD member exists. Null if the user has since
+   * been deleted, in which case the job has nothing left to do.
+   */
+  function provisionedMapping(aliceId: string): UserMapping | null {
+    const mapping = getUserMappingByAliceId(aliceId);
+    if (mapping && isPendingLdUser(mapping)) {
+      throw new PermanentJobError('The user was never created in LaunchDarkly; replay or discard their create job');
+    }
+    return mapping;
+  }
+
+  async function applyCreate(aliceId: string, { document, previousLdId }: JobPayloads['create']): Promise<void> {
+    const mapping = getUserMappingByAliceId(aliceId);
+    if (!mapping || !isPendingLdUser(mapping)) {
+      // Deleted before it reached LD, or created by an earlier attempt
+      return;
+    }
+
+    const groupNames = directGroupNames(config, aliceId);
+    const approvedEntries = getApprovedEntries(aliceId);
+    const { ldUser, linked } = await provisionLdUser(
+      config.mappings, ldClient, document, groupNames, previousLdId, approvedEntries
+    );
+    recordRoleMappingResults(document, config.mappings, groupNames, approvedEntries);
+    if (!updateUserMapping(aliceId, { ldId: ldUser.id, ldUserName: ldUser.userName })) {
+      // Alice deleted the user while it was being created
+      if (!linked) {
+        await ldClient.deleteUser(ldUser.id);
+      }
+      return;
+    }
+    logger.info({ aliceId, ldId: ldUser.id, linked }, 'Queued user created in LD');
+
+    // Team syncs before the create left the user out, having no member to add
+    if (teamSync) {
+      for (const group of getGroupsForUser(aliceId)) {
+        enqueueTeamSync(group.aliceId);
+      }
+    }
+  }
+
+  async function applyReplace(aliceId: string, { document }: JobPayloads['replace']): Promise<void> {
+    const mapping = provisionedMapping(aliceId);
+    if (!mapping) {
+      return;
+    }
+
+    const groupNames = directGroupNames(config, aliceId);
+    const approvedEntries = getApprovedEntries(aliceId);
+    const payload = transformAliceUserToLdUser(document, config.mappings, groupNames, approvedEntries);
+    const ldUser = await ldClient.replaceUser(mapping.ldId, payload);
+    recordRoleMappingResults(document, config.mappings, groupNames, approvedEntries);
+    if (ldUser.userName !== mapping.ldUserName) {
+      updateUserMapping(aliceId, { ldUserName: ldUser.userName });
+    }
+  }
+
+  async function applyPatch(aliceId: string, { before, after }: JobPayloads['patch']): Promise<void> {
+    const mapping = provisionedMapping(aliceId);
+    if (!mapping) {
+      return;
+    }
+
+    const groupNames = directGroupNames(config, aliceId);
+    const approvedEntries = getApprovedEntries(aliceId);
+    if (isDowngraded(before, config.mappings) && !isDowngraded(after, config.mappings)) {
+      // Reactivating a downgraded member replaces it, so it loses the no_access base role too
+      return applyReplace(aliceId, { document: after });
+    }
+
+    const operations = buildLdPatchOperations(
+      transformAliceUserToLdUser(before, config.mappings, groupNames, approvedEntries),
+      transformAliceUserToLdUser(after, config.mappings, groupNames, approvedEntries)
+    );
+    recordRoleMappingResults(after, config.mappings, groupNames, approvedEntries);
+    if (operations.length === 0) {
+      return;
+    }
+
+    const ldUser = await ldClient.patchUser(mapping.ldId, operations);
+    if (ldUser.userName !== mapping.ldUserName) {
+      updateUserMapping(aliceId, { ldUserName: ldUser.userName });
+    }
+  }
+
+  async function applyDelete({ ldId, action = 'delete' }: JobPayloads['delete']): Promise<void> {
+    if (!ldId) {
+      return;
+    }
+    const relinked = getUserMappingByLdId(ldId);
+    if (relinked) {
+      // Alice created the user again since, and they were linked to this member
+      logger.info({ ldId, aliceId: relinked.aliceId, action }, 'LD member was relinked, not deprovisioning it');
+      return;
+    }
+    await deprovisionLdUser(ldClient, ldId, action);
+  }
+
+  async function applyGroupRoles(aliceId: string, { previous, next }: JobPayloads['group_roles']): Promise<void> {
+    const mapping = provisionedMapping(aliceId);
+    if (mapping) {
+      await applyGroupRoleChange(config, ldClient, mapping, previous, next);
+    }
+  }
+
+  async function applyTeamSync(groupAliceId: string): Promise<void> {
+    if (!teamSync) {
+      throw new PermanentJobError('Teams sync is no longer enabled (LD_TEAMS_SYNC)');
+    }
+    const group = getGroupByAliceId(groupAliceId);
+    if (group) {
+      await teamSync.syncGroup(group);
+    } else {
+      await teamSync.deleteTeam(groupAliceId);
+    }
+  }
+
+  async function applyTargetSync(job: OutboundJob): Promise<void> {
+    if (!targetSync || !config.ldTargets.some((t) => t.name === job.target)) {
+      throw new PermanentJobError(`LD target "${job.target}" is no longer listed in LD_TARGETS`);
+    }
+    await targetSync.syncUser(job.target, job.aliceId);
+  }
+
+  /**
+   * Apply a job to LaunchDarkly
+   */
+  async function apply(job: OutboundJob): Promise<void> {
+    switch (job.operation) {
+      case 'create':
+        return applyCreate(job.aliceId, job.payload as JobPayloads['create']);
+      case 'replace':
+        return applyReplace(job.aliceId, job.payload as JobPayloads['replace']);
+      case 'patch':
+        return applyPatch(job.aliceId, job.payload as JobPayloads['patch']);
+      case 'delete':
+        return applyDelete(job.payload as JobPayloads['delete']);
+      case 'group_roles':
+        return applyGroupRoles(job.aliceId, job.payload as JobPayloads['group_roles']);
+      case 'target_sync':
+        return applyTargetSync(job);
+      case 'team_sync':
+        return applyTeamSync(job.aliceId);
+      default:
+        throw new PermanentJobError(`Unknown job operation: ${job.operation as string}`);
+    }
+  }
+
+  /**
+   * Apply a claimed job and record the outcome
+   */
+  async function processJob(job: OutboundJob): Promise<void> {
+    try {
+      await withSpan(`job ${job.operation}`, {
+        attributes: { 'job.id': job.id, 'job.operation': job.operation, 'job.target': job.target, 'job.attempt': job.attempts },
+      }, () => apply(job));
+      completeJob(job.id);
+      logger.info({ jobId: job.id, aliceId: job.aliceId, target: job.target, operation: job.operation, attempts: job.attempts }, 'Job applied');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (isPermanent(error) || job.attempts >= config.jobMaxAttempts) {
+        failJob(job.id, message, null);
+        logger.error(
+          { jobId: job.id, aliceId: job.aliceId, target: job.target, operation: job.operation, attempts: job.attempts, error: message },
+          'Job moved to dead-letter state'
+        );
+        return;
+      }
+
+      const retryIn = Math.min(RETRY_MAX_DELAY_SECONDS, RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1));
+      failJob(job.id, message, retryIn);
+      logger.warn(
+        { jobId: job.id, aliceId: job.aliceId, target: job.target, operation: job.operation, attempts: job.attempts, retryIn, error: message },
+        'Job failed, will retry'
+      );
+    }
+  }
+
+  /**
+   * Apply every due job, then prune old finished jobs, queue the deletion
+   * of members whose deprovisioning grace period is over and expire stale
+   * role approval requests
+   */
+  async function drain(): Promise<void> {
+    while (!stopped) {
+      const job = claimNextJob();
+      if (!job) {
+        break;
+      }
+      await processJob(job);
+    }
+
+    if (Date.now() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+      lastPrunedAt = Date.now();
+      const pruned = pruneFinishedJobs(RETENTION_DAYS);
+      if (pruned > 0) {
+        logger.info({ pruned }, 'Pruned finished jobs');
+      }
+      queueDueDeletions();
+      const expired = expireRoleApprovals();
+      if (expired > 0) {
+        logger.info({ expired }, 'Expired pending role approvals');
+      }
+    }
+  }
+
+  function poll(): void {
+    timer = setTimeout(() => {
+      drain()
+        .catch((error) => logger.error({ error }, 'Job worker failed'))
+        .finally(() => {
+          if (!stopped) {
+            poll();
+          }
+        });
+    }, POLL_INTERVAL_MS);
+  }
+
+  return {
+    /**
+     * Start applying jobs. Jobs left running by a previous process are retried.
+     * Returns a function that stops the worker.
+     */
+    start(): () => void {
+      const reset = resetRunningJobs();
+      if (reset > 0) {
+        logger.warn({ count: reset }, 'Retrying jobs left running by a previous process');
+      }
+
+      poll();
+      return () => {
+        stopped = true;
+        clearTimeout(timer);
+      };
+    },
+  };
+}
+
+/**
+ * Whether retrying a failed job cannot help
+ */
+function isPermanent(error: unknown): boolean {
+  if (error instanceof PermanentJobError || error instanceof GuardrailViolationError) {
+    return true;
+  }
+  return error instanceof LdScimError
+    && error.status >= 400 && error.status < 500
+    && !TRANSIENT_STATUSES.has(error.status);
+}
@@ -0,0 +1,235 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApprovalConflictError, createApprovalQueue, requestApprovals, rolesInEffect } from './approvals.js';
+import { openDatabase, runWithDatabase } from '../db/index.js';
+import { createUserMapping } from '../db/user-mapping.js';
+import { saveIdpUserState } from '../db/idp-state.js';
+import { addGroupMembers, createGroup } from '../db/groups.js';
+import { listJobs } from '../db/jobs.js';
+import { getUserRoleApprovals } from '../db/role-approvals.js';
+import { LaunchDarklyScimClient } from '../scim/client/launchdarkly.js';
+import { LD_SCIM_EXTENSION_SCHEMA } from '../scim/schemas/launchdarkly.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { createTestConfig } from '../testing/config.js';
+
+const MAPPINGS = `
+role_mappings:
+  - aliceRole: "ld-developer"
+    ldCustomRoles: ["developer"]
+  - aliceRole: "ld-billing-admin"
+    ldCustomRoles: ["billing-admin"]
+    requiresApproval: true
+group_mappings:
+  - aliceGroup: "Finance"
+    ldCustomRoles: ["finance"]
+    ldRole: "writer"
+    requiresApproval: true
+approvals:
+  expire_after_days: 7
+`;
+
+const config = createTestConfig(MAPPINGS);
+const asyncConfig = createTestConfig(MAPPINGS, { WRITE_MODE: 'async' });
+const { mappings } = config;
+
+function document(roles: string[]): ScimCoreUser {
+  return {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+    userName: 'ada@example.com',
+    emails: [{ value: 'ada@example.com', primary: true }],
+    roles: roles.map((value) => ({ value })),
+    active: true,
+  };
+}
+
+/** A client whose member ld-ada has the developer role */
+function fakeLdClient() {
+  return {
+    getUser: vi.fn(async (id: string) => ({
+      id,
+      userName: 'ada@example.com',
+      [LD_SCIM_EXTENSION_SCHEMA]: { customRole: ['developer'], role: 'reader' },
+    })),
+    updateUserCustomRoles: vi.fn(async () => ({})),
+  };
+}
+
+let db: Database.Database;
+
+/** Provision ada with the given roles, as a create from Alice would */
+function provisionAda(roles: string[]): void {
+  createUserMapping('alice-ada', null, 'ld-ada', 'ada@example.com');
+  saveIdpUserState('alice-ada', document(roles));
+}
+
+describe('role approvals', () => {
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('requestApprovals', () => {
+    it('requests each matching entry once and drops entries no longer matched', () => runWithDatabase(db, () => {
+      const created = requestApprovals(config, 'alice-ada', document(['ld-developer', 'ld-billing-admin']));
+      expect(created).toEqual([
+        expect.objectContaining({
+          aliceId: 'alice-ada',
+          userName: 'ada@example.com',
+          entry: 'role:ld-billing-admin',
+          customRoles: ['billing-admin'],
+          baseRole: null,
+          status: 'pending',
+        }),
+      ]);
+
+      expect(requestApprovals(config, 'alice-ada', document(['ld-developer', 'ld-billing-admin']))).toEqual([]);
+      expect(getUserRoleApprovals('alice-ada')).toHaveLength(1);
+
+      requestApprovals(config, 'alice-ada', document(['ld-developer']));
+      expect(getUserRoleApprovals('alice-ada')).toEqual([]);
+    }));
+
+    it('requests entries matched through groups', () => runWithDatabase(db, () => {
+      createGroup('group-finance', null, 'Finance');
+      addGroupMembers('group-finance', ['alice-ada']);
+
+      const created = requestApprovals(config, 'alice-ada', document([]));
+      expect(created.map((a) => [a.entry, a.customRoles, a.baseRole])).toEqual([['group:Finance', ['finance'], 'writer']]);
+    }));
+
+    it('requests an entry again once its request expired or was denied', () => runWithDatabase(db, () => {
+      const roles = document(['ld-billing-admin']);
+      const [first] = requestApprovals(config, 'alice-ada', roles);
+      db.prepare("UPDATE role_approvals SET expires_at = datetime('now', '-1 minute') WHERE id = ?").run(first.id);
+
+      const [second] = requestApprovals(config, 'alice-ada', roles);
+      expect(second).toMatchObject({ entry: 'role:ld-billing-admin', status: 'pending' });
+      expect(second.id).not.toBe(first.id);
+      expect(getUserRoleApprovals('alice-ada')).toEqual([second]);
+
+      createApprovalQueue(config, fakeLdClient() as unknown as LaunchDarklyScimClient).deny(second.id);
+      const [third] = requestApprovals(config, 'alice-ada', roles);
+      expect(third).toMatchObject({ entry: 'role:ld-billing-admin', status: 'pending' });
+      expect(getUserRoleApprovals('alice-ada')).toEqual([third]);
+    }));
+
+    it('keeps approved requests', () => runWithDatabase(db, async () => {
+      provisionAda(['ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-billing-admin']));
+      await createApprovalQueue(config, fakeLdClient() as unknown as LaunchDarklyScimClient).approve(approval.id);
+
+      expect(requestApprovals(config, 'alice-ada', document(['ld-billing-admin']))).toEqual([]);
+      expect(getUserRoleApprovals('alice-ada')).toEqual([expect.objectContaining({ id: approval.id, status: 'approved' })]);
+    }));
+
+    it('requests nothing for users downgraded for being inactive', () => runWithDatabase(db, () => {
+      const downgrading = createTestConfig(`${MAPPINGS}\ndeprovisioning:\n  on_deactivate: downgrade\n`);
+      const inactive = { ...document(['ld-billing-admin']), active: false };
+      expect(requestApprovals(downgrading, 'alice-ada', inactive)).toEqual([]);
+    }));
+  });
+
+  describe('with Teams sync', () => {
+    it('refuses group mappings that require approval', () => {
+      expect(() => createTestConfig(MAPPINGS, { LD_TEAMS_SYNC: 'true' })).toThrow(expect.objectContaining({
+        issues: ['group_mappings[0].requiresApproval: not supported with LD_TEAMS_SYNC, since team roles apply to every member'],
+      }));
+      expect(() => createTestConfig(MAPPINGS.replace('    requiresApproval: true\napprovals', 'approvals'), { LD_TEAMS_SYNC: 'true' }))
+        .not.toThrow();
+    });
+  });
+
+  describe('rolesInEffect', () => {
+    it('leaves out role values held for approval until they are approved', () => runWithDatabase(db, async () => {
+      const roles = document(['ld-developer', 'ld-billing-admin', 'unmapped']).roles;
+      expect(rolesInEffect('alice-ada', roles, mappings)).toEqual([{ value: 'ld-developer' }, { value: 'unmapped' }]);
+
+      provisionAda(['ld-developer', 'ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-developer', 'ld-billing-admin']));
+      await createApprovalQueue(config, fakeLdClient() as unknown as LaunchDarklyScimClient).approve(approval.id);
+      expect(rolesInEffect('alice-ada', roles, mappings)).toEqual(roles);
+    }));
+  });
+
+  describe('createApprovalQueue', () => {
+    it('applies an approved grant to the member straight away', () => runWithDatabase(db, async () => {
+      provisionAda(['ld-developer', 'ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-developer', 'ld-billing-admin']));
+      const ldClient = fakeLdClient();
+
+      const approved = await createApprovalQueue(config, ldClient as unknown as LaunchDarklyScimClient)
+        .approve(approval.id, 'Billing owner');
+
+      expect(approved).toMatchObject({ id: approval.id, status: 'approved', comment: 'Billing owner' });
+      expect(approved?.decidedAt).not.toBeNull();
+      expect(ldClient.getUser).toHaveBeenCalledWith('ld-ada', { cached: false });
+      expect(ldClient.updateUserCustomRoles).toHaveBeenCalledWith('ld-ada', ['developer', 'billing-admin'], undefined);
+      expect(listJobs()).toEqual([]);
+    }));
+
+    it('queues the grant in async write mode', () => runWithDatabase(db, async () => {
+      provisionAda(['ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-billing-admin']));
+      const ldClient = fakeLdClient();
+
+      await createApprovalQueue(asyncConfig, ldClient as unknown as LaunchDarklyScimClient)
+        .approve(approval.id);
+
+      expect(ldClient.updateUserCustomRoles).not.toHaveBeenCalled();
+      expect(listJobs()).toEqual([expect.objectContaining({ aliceId: 'alice-ada', operation: 'replace' })]);
+    }));
+
+    it('queues the grant for retry when the update fails', () => runWithDatabase(db, async () => {
+      provisionAda(['ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-billing-admin']));
+      const ldClient = fakeLdClient();
+      ldClient.updateUserCustomRoles.mockRejectedValueOnce(new Error('LaunchDarkly is unavailable'));
+
+      const approved = await createApprovalQueue(config, ldClient as unknown as LaunchDarklyScimClient)
+        .approve(approval.id);
+
+      expect(approved?.status).toBe('approved');
+      expect(listJobs()).toEqual([expect.objectContaining({ aliceId: 'alice-ada', operation: 'replace' })]);
+    }));
+
+    it('denies a request without touching the member', () => runWithDatabase(db, () => {
+      provisionAda(['ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-billing-admin']));
+      const ldClient = fakeLdClient();
+
+      const denied = createApprovalQueue(config, ldClient as unknown as LaunchDarklyScimClient).deny(approval.id, 'No');
+
+      expect(denied).toMatchObject({ status: 'denied', comment: 'No' });
+      expect(ldClient.getUser).not.toHaveBeenCalled();
+      expect(rolesInEffect('alice-ada', document(['ld-billing-admin']).roles, mappings)).toEqual([]);
+    }));
+
+    it('refuses to decide a request twice', () => runWithDatabase(db, async () => {
+      provisionAda(['ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-billing-admin']));
+      const queue = createApprovalQueue(config, fakeLdClient() as unknown as LaunchDarklyScimClient);
+
+      queue.deny(approval.id);
+      await expect(queue.approve(approval.id)).rejects.toThrow(new ApprovalConflictError('The approval is already denied'));
+      expect(() => queue.deny(approval.id)).toThrow(ApprovalConflictError);
+    }));
+
+    it('refuses to decide a request past its expiry', () => runWithDatabase(db, async () => {
+      provisionAda(['ld-billing-admin']);
+      const [approval] = requestApprovals(config, 'alice-ada', document(['ld-billing-admin']));
+      db.prepare("UPDATE role_approvals SET expires_at = datetime('now', '-1 minute') WHERE id = ?").run(approval.id);
+      const queue = createApprovalQueue(config, fakeLdClient() as unknown as LaunchDarklyScimClient);
+
+      await expect(queue.approve(approval.id)).rejects.toThrow('The approval is already expired');
+    }));
+
+    it('returns null for unknown requests', () => runWithDatabase(db, async () => {
+      const queue = createApprovalQueue(config, fakeLdClient() as unknown as LaunchDarklyScimClient);
+      await expect(queue.approve('missing')).resolves.toBeNull();
+      expect(queue.deny('missing')).toBeNull();
+    }));
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Role Approvals
+ *
+ * Holds back grants from mapping entries marked requiresApproval. When a
+ * user first matches such an entry, the rest of their create, PUT, PATCH or
+ * group change applies as usual and the entry's grant waits in
+ * role_approvals until an operator approves or denies it. Pending requests
+ * expire after approvals.expire_after_days. An approval covers the entry in
+ * the primary account and in every LD target; a user who stops matching the
+ * entry loses it, and is asked for again if they match it later. Expired and
+ * denied requests are asked for again on the user's next change.
+ */
+
+import { AppConfig, MappingConfig } from '../config/index.js';
+import { LaunchDarklyScimClient } from '../scim/client/launchdarkly.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { getUserMappingByAliceId, isPendingLdUser } from '../db/user-mapping.js';
+import { getIdpUserState } from '../db/idp-state.js';
+import { getGroupsForUser } from '../db/groups.js';
+import { enqueueJob } from '../db/jobs.js';
+import {
+  RoleApproval,
+  createRoleApproval,
+  getRoleApproval,
+  getApprovedEntries,
+  decideRoleApproval,
+  deleteRoleApprovals,
+  getUserRoleApprovals,
+  expireRoleApprovals,
+} from '../db/role-approvals.js';
+import { transaction } from '../db/index.js';
+import { MatchedEntry, matchApprovalEntries } from './transformer.js';
+import { diffUserRoles, directGroupNames } from './role-diff.js';
+import { TargetSync, belongsIn } from './target-sync.js';
+import { getLogger } from '../middleware/logging.js';
+
+/**
+ * Error thrown when an approval has already been decided
+ */
+export class ApprovalConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalConflictError';
+  }
+}
+
+/**
+ * Bring a user's approval requests in line with the entries marked
+ * requiresApproval they match, in the primary account or any LD target they
+ * belong in: request the new ones and drop those they no longer match.
+ * Call it whenever the user's document or groups change. Returns the
+ * requests created.
+ */
+export function requestApprovals(config: AppConfig, aliceId: string, document: ScimCoreUser): RoleApproval[] {
+  const groupNames = getGroupsForUser(aliceId).map((g) => g.displayName);
+  const matches = new Map<string, MatchedEntry>();
+  const addMatches = (entries: MatchedEntry[]) => {
+    for (const entry of entries) {
+      if (!matches.has(entry.source)) {
+        matches.set(entry.source, entry);
+      }
+    }
+  };
+
+  addMatches(matchApprovalEntries(document, config.mappings, directGroupNames(config, aliceId)));
+  for (const target of config.mappings.targets) {
+    if (belongsIn(target, document, groupNames)) {
+      addMatches(matchApprovalEntries(document, target.mappings, groupNames));
+    }
+  }
+
+  return transaction(() => {
+    // A request past its expiry is asked for again, even before the worker expires it
+    expireRoleApprovals();
+    const existing = getUserRoleApprovals(aliceId);
+    const stale = existing.filter((a) => !matches.has(a.entry)).map((a) => a.entry);
+    if (stale.length > 0) {
+      deleteRoleApprovals(aliceId, stale);
+      getLogger().info({ aliceId, entries: stale }, 'Dropped role approvals the user no longer matches');
+    }
+
+    const created: RoleApproval[] = [];
+    for (const entry of matches.values()) {
+      const previous = existing.find((a) => a.entry === entry.source);
+      if (previous?.status === 'pending' || previous?.status === 'approved') {
+        continue;
+      }
+      if (previous) {
+        // One request per entry: the expired or denied one is replaced
+        deleteRoleApprovals(aliceId, [entry.source]);
+        getLogger().info(
+          { aliceId, approvalId: previous.id, entry: entry.source, status: previous.status, comment: previous.comment },
+          'Requesting role approval again'
+        );
+      }
+      const approval = createRoleApproval(
+        aliceId,
+        document.userName ?? null,
+        entry.source,
+        { customRoles: entry.customRoles, baseRole: entry.baseRole },
+        config.mappings.approvals.expireAfterDays
+      );
+      getLogger().info(
+        { aliceId, approvalId: approval.id, entry: entry.source, customRoles: entry.customRoles, baseRole: entry.baseRole },
+        'Grant held for approval'
+      );
+      created.push(approval);
+    }
+    return created;
+  });
+}
+
+/**
+ * A user's role values that are in effect: values whose role mappings all
+ * require an approval the user does not have are left out. Values without a
+ * mapping are kept, since they grant nothing.
+ */
+export function rolesInEffect(aliceId: string, roles: ScimCoreUser['roles'], mappings: MappingConfig): ScimCoreUser['roles'] {
+  if (!roles || !mappings.roleMappings.some((m) => m.requiresApproval)) {
+    return roles;
+  }
+
+  const approvedEntries = getApprovedEntries(aliceId);
+  return roles.filter((role) => {
+    const entries = mappings.roleMappings.filter((m) => m.aliceRole === role.value);
+    return entries.length === 0
+      || entries.some((m) => !m.requiresApproval || approvedEntries.includes(`role:${m.aliceRole}`));
+  });
+}
+
+export type ApprovalQueue = ReturnType<typeof createApprovalQueue>;
+
+/**
+ * Create the service that decides approval requests
+ *
+ * @param targetSync applies an approved grant in the additional accounts in LD_TARGETS
+ */
+export function createApprovalQueue(config: AppConfig, ldClient: LaunchDarklyScimClient, targetSync?: TargetSync) {
+  /**
+   * Apply a user's approved grants. In async write mode, or while the user's
+   * LD member is still being created, a replace job is queued; otherwise the
+   * member's roles are updated straight away, and queued for retry if that fails.
+   */
+  async function applyGrant(approval: RoleApproval): Promise<void> {
+    const mapping = getUserMappingByAliceId(approval.aliceId);
+    const document = getIdpUserState(approval.aliceId)?.document;
+    if (!mapping || !document) {
+      return;
+    }
+
+    if (config.writeMode === 'async' || isPendingLdUser(mapping)) {
+      const job = enqueueJob(approval.aliceId, 'replace', { document });
+      getLogger().info({ aliceId: approval.aliceId, approvalId: approval.id, jobId: job.id }, 'Approved grant queued');
+    } else {
+      try {
+        const diff = diffUserRoles(config, mapping, await ldClient.getUser(mapping.ldId, { cached: false }));
+        if (diff.status === 'changed') {
+          await ldClient.updateUserCustomRoles(mapping.ldId, diff.proposed!.customRoles, diff.proposed!.role);
+        }
+        getLogger().info(
+          { aliceId: approval.aliceId, approvalId: approval.id, ldId: mapping.ldId, proposed: diff.proposed },
+          'Applied approved grant'
+        );
+      } catch (error) {
+        const job = enqueueJob(approval.aliceId, 'replace', { document });
+        getLogger().warn(
+          { aliceId: approval.aliceId, approvalId: approval.id, jobId: job.id, error: error instanceof Error ? error.message : String(error) },
+          'Failed to apply approved grant, queued for retry'
+        );
+      }
+    }
+
+    await targetSync?.propagate([approval.aliceId]);
+  }
+
+  /**
+   * Record a decision on a pending request
+   *
+   * @throws ApprovalConflictError if it is no longer pending
+   */
+  function decide(id: string, status: 'approved' | 'denied', comment: string | null): RoleApproval | null {
+    // A request past its expiry cannot be decided, even before the worker expires it
+    expireRoleApprovals();
+    const approval = getRoleApproval(id);
+    if (!approval) {
+      return null;
+    }
+    if (!decideRoleApproval(id, status, comment)) {
+      throw new ApprovalConflictError(`The approval is already ${approval.status}`);
+    }
+    return getRoleApproval(id);
+  }
+
+  return {
+    /**
+     * Approve a pending request and apply the grant. Returns null if there
+     * is no such request.
+     *
+     * @throws ApprovalConflictError if it is no longer pending
+     */
+    async approve(id: string, comment: string | null = null): Promise<RoleApproval | null> {
+      const approval = decide(id, 'approved', comment);
+      if (approval) {
+        getLogger().info({ approvalId: id, aliceId: approval.aliceId, entry: approval.entry }, 'Role approval approved');
+        await applyGrant(approval);
+      }
+      return approval;
+    },
+
+    /**
+     * Deny a pending request. The grant stays held, and is asked for again
+     * on the user's next change. Returns null if there is no such request.
+     *
+     * @throws ApprovalConflictError if it is no longer pending
+     */
+    deny(id: string, comment: string | null = null): RoleApproval | null {
+      const approval = decide(id, 'denied', comment);
+      if (approval) {
+        getLogger().info({ approvalId: id, aliceId: approval.aliceId, entry: approval.entry }, 'Role approval denied');
+      }
+      return approval;
+    },
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Attribute Mappings
+ *
+ * Applies the attribute_mappings section of mappings.yaml to an Alice user
+ * before it is sent to LaunchDarkly: lowercasing and domain rewrites of
+ * emails and userName, keeping only the primary email, and deriving name from
+ * displayName. The stored IdP document keeps Alice's values, so responses to
+ * Alice are not affected.
+ */
+
+import { AttributeMappings, DomainRewrite, MappingConfig } from '../config/index.js';
+import { ScimCoreUser, ScimEmail, ScimName } from '../scim/schemas/core.js';
+
+/**
+ * The user as it is sent to LaunchDarkly
+ */
+export function applyAttributeMappings(aliceUser: ScimCoreUser, config: MappingConfig): ScimCoreUser {
+  const { emails, userName, name } = config.attributeMappings;
+  const mapped: ScimCoreUser = { ...aliceUser };
+
+  if (aliceUser.userName) {
+    mapped.userName = mapAddress(aliceUser.userName, userName);
+  }
+
+  if (aliceUser.emails?.length) {
+    const selected = emails.select === 'primary'
+      ? [{ ...selectPrimaryEmail(aliceUser.emails)!, primary: true }]
+      : aliceUser.emails;
+    mapped.emails = selected.map((email) => ({ ...email, value: mapAddress(email.value, emails) }));
+  }
+
+  if (name.fromDisplayName && !aliceUser.name?.givenName && !aliceUser.name?.familyName && aliceUser.displayName) {
+    mapped.name = { ...aliceUser.name, ...splitDisplayName(aliceUser.displayName) };
+  }
+
+  return mapped;
+}
+
+/**
+ * The user's primary email address: the one marked primary, or the first
+ */
+export function primaryEmail(aliceUser: ScimCoreUser): string | undefined {
+  return aliceUser.emails?.length ? selectPrimaryEmail(aliceUser.emails)!.value : undefined;
+}
+
+function selectPrimaryEmail(emails: ScimEmail[]): ScimEmail | undefined {
+  return emails.find((email) => email.primary) ?? emails[0];
+}
+
+/**
+ * Lowercase an email address or userName and rewrite its domain
+ */
+function mapAddress(
+  value: string,
+  { lowercase, domainRewrites }: Pick<AttributeMappings['userName'], 'lowercase' | 'domainRewrites'>
+): string {
+  let address = lowercase ? value.toLowerCase() : value;
+
+  const at = address.lastIndexOf('@');
+  if (at !== -1) {
+    const domain = address.slice(at + 1).toLowerCase();
+    const rewrite = domainRewrites.find((r: DomainRewrite) => r.from.toLowerCase() === domain);
+    if (rewrite) {
+      address = `${address.slice(0, at + 1)}${rewrite.to}`;
+    }
+  }
+  return address;
+}
+
+/**
+ * Split a displayName such as "Ada Lovelace" or "Lovelace, Ada" into given and family names
+ */
+function splitDisplayName(displayName: string): ScimName {
+  const comma = displayName.indexOf(',');
+  if (comma !== -1) {
+    const familyName = displayName.slice(0, comma).trim();
+    const givenName = displayName.slice(comma + 1).trim();
+    return { ...(givenName && { givenName }), ...(familyName && { familyName }) };
+  }
+
+  const parts = displayName.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return { givenName: parts[0] };
+  }
+  return { givenName: parts.slice(0, -1).join(' '), familyName: parts[parts.length - 1] };
+}
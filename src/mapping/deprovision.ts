@@ -0,0 +1,95 @@
+/**
+ * User Deprovisioning
+ *
+ * Applies the deprovisioning policy of mappings.yaml when Alice deletes a
+ * user. Unless the policy deletes the LaunchDarkly member, the user's mapping
+ * is kept as a tombstone, so that a user Alice creates again is relinked to
+ * the same member and keeps its audit history (see provisionLdUser). Members
+ * kept under deactivate_then_delete are deleted through a delete job once
+ * their grace period is over. Used by the users controller, and by the job
+ * worker when writes are queued.
+ */
+
+import { DeprovisionAction, DeprovisioningPolicy } from '../config/index.js';
+import { LaunchDarklyScimClient, LdScimError } from '../scim/client/launchdarkly.js';
+import { UserMapping, deleteUserMapping } from '../db/user-mapping.js';
+import { createUserTombstone, getDueUserTombstones, deleteUserTombstone } from '../db/user-tombstones.js';
+import { removeUserFromAllGroups } from '../db/groups.js';
+import { deleteIdpUserState } from '../db/idp-state.js';
+import { deleteRoleApprovals } from '../db/role-approvals.js';
+import { enqueueJob } from '../db/jobs.js';
+import { transaction } from '../db/index.js';
+import { getLogger } from '../middleware/logging.js';
+
+/**
+ * Apply a deprovisioning action to an LD member.
+ * Returns false if the member no longer exists.
+ */
+export async function deprovisionLdUser(
+  ldClient: LaunchDarklyScimClient,
+  ldId: string,
+  action: DeprovisionAction
+): Promise<boolean> {
+  try {
+    switch (action) {
+      case 'delete':
+        await ldClient.deleteUser(ldId);
+        break;
+      case 'deactivate':
+      case 'deactivate_then_delete':
+        await ldClient.deactivateUser(ldId);
+        break;
+      case 'downgrade':
+        await ldClient.updateUserCustomRoles(ldId, [], 'no_access');
+        break;
+    }
+  } catch (error) {
+    // Already deleted in LD
+    if (error instanceof LdScimError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+
+  getLogger().info({ ldId, action }, 'Deprovisioned LD member');
+  return true;
+}
+
+/**
+ * Remove a deleted user's mapping, stored IdP state, group memberships and
+ * role approvals, leaving a tombstone when the policy keeps their LD member
+ *
+ * @param hasLdMember whether the user has an LD member the policy was, or is about to be, applied to
+ */
+export function removeDeletedUser(mapping: UserMapping, policy: DeprovisioningPolicy, hasLdMember: boolean): void {
+  transaction(() => {
+    removeUserFromAllGroups(mapping.aliceId);
+    deleteIdpUserState(mapping.aliceId);
+    deleteRoleApprovals(mapping.aliceId);
+    deleteUserMapping(mapping.aliceId);
+
+    if (hasLdMember && policy.onDelete !== 'delete') {
+      const purgeAfterDays = policy.onDelete === 'deactivate_then_delete' ? policy.gracePeriodDays : null;
+      createUserTombstone(mapping, policy.onDelete, purgeAfterDays);
+    }
+  });
+}
+
+/**
+ * Queue the deletion of every member whose grace period is over, dropping
+ * their tombstones. Returns the number of deletions queued.
+ */
+export function queueDueDeletions(): number {
+  const due = getDueUserTombstones();
+  transaction(() => {
+    for (const tombstone of due) {
+      enqueueJob(tombstone.aliceId, 'delete', { ldId: tombstone.ldId, action: 'delete' });
+      deleteUserTombstone(tombstone.aliceId);
+      getLogger().info(
+        { aliceId: tombstone.aliceId, ldId: tombstone.ldId, deletedAt: tombstone.deletedAt },
+        'Grace period over, queued deletion of LD member'
+      );
+    }
+  });
+  return due.length;
+}
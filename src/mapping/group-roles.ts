@@ -0,0 +1,65 @@
+/**
+ * Group Role Updates
+ *
+ * Applies a change in a user's group memberships to their LaunchDarkly roles.
+ * Used directly by the groups controller, and by the job worker when writes
+ * are queued.
+ */
+
+import { AppConfig } from '../config/index.js';
+import { LaunchDarklyScimClient } from '../scim/client/launchdarkly.js';
+import { LD_SCIM_EXTENSION_SCHEMA } from '../scim/schemas/launchdarkly.js';
+import { UserMapping } from '../db/user-mapping.js';
+import { getIdpUserState } from '../db/idp-state.js';
+import { getApprovedEntries } from '../db/role-approvals.js';
+import {
+  getLdCustomRoles,
+  shouldUpdateRoles,
+  recordRoleMappingResults,
+  transformAliceUserToLdUser,
+  transformLdUserToAliceUser,
+} from './transformer.js';
+import { getLogger } from '../middleware/logging.js';
+
+/**
+ * Update a member's LD roles after their groups changed from previous to next.
+ *
+ * Roles are resolved for the user before and after the change with the same
+ * precedence rules as user provisioning. Only the difference is applied, so
+ * custom roles assigned outside the mappings are left in place on the LD member.
+ */
+export async function applyGroupRoleChange(
+  config: AppConfig,
+  ldClient: LaunchDarklyScimClient,
+  mapping: UserMapping,
+  previous: string[],
+  next: string[]
+): Promise<void> {
+  const ldUser = await ldClient.getUser(mapping.ldId, { cached: false });
+  const aliceUser = getIdpUserState(mapping.aliceId)?.document
+    ?? transformLdUserToAliceUser(ldUser, config.mappings);
+  const approvedEntries = getApprovedEntries(mapping.aliceId);
+  const before = transformAliceUserToLdUser(aliceUser, config.mappings, previous, approvedEntries)[LD_SCIM_EXTENSION_SCHEMA] ?? {};
+  const after = transformAliceUserToLdUser(aliceUser, config.mappings, next, approvedEntries)[LD_SCIM_EXTENSION_SCHEMA] ?? {};
+
+  const previousRoles = before.customRole ?? [];
+  const nextRoles = after.customRole ?? [];
+  const currentRoles = getLdCustomRoles(ldUser);
+
+  const updatedRoles = new Set(
+    currentRoles.filter((role) => !previousRoles.includes(role) || nextRoles.includes(role))
+  );
+  for (const role of nextRoles) {
+    updatedRoles.add(role);
+  }
+
+  const baseRole = after.role !== before.role ? after.role : undefined;
+  if (shouldUpdateRoles(currentRoles, Array.from(updatedRoles)) || baseRole) {
+    await ldClient.updateUserCustomRoles(mapping.ldId, Array.from(updatedRoles), baseRole);
+    recordRoleMappingResults(aliceUser, config.mappings, next, approvedEntries);
+    getLogger().info(
+      { aliceId: mapping.aliceId, ldId: mapping.ldId, customRoles: Array.from(updatedRoles), baseRole },
+      'Updated LD roles from group membership'
+    );
+  }
+}
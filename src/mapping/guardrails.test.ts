@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { createWriteGuard, GuardrailRule, GuardrailViolationError } from './guardrails.js';
+import { Guardrails } from '../config/index.js';
+import { LD_SCIM_EXTENSION_SCHEMA, LdBuiltInRole, LdScimUserCreatePayload } from '../scim/schemas/launchdarkly.js';
+import { metricsRegistry } from '../middleware/metrics.js';
+
+const guardrails: Guardrails = {
+  allowedEmailDomains: ['example.com'],
+  deniedEmailDomains: ['contractors.example.com'],
+  protectedMembers: ['owner@example.com', 'ld-owner-id'],
+  allowedCustomRoles: ['team-*', 'release-manager'],
+  deniedCustomRoles: ['team-admin*'],
+  maxBaseRole: 'writer',
+};
+
+const guard = createWriteGuard(() => guardrails, 'primary');
+
+function payload(overrides: Partial<LdScimUserCreatePayload> = {}): LdScimUserCreatePayload {
+  return {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:User', LD_SCIM_EXTENSION_SCHEMA],
+    userName: 'ada@example.com',
+    emails: [{ value: 'ada@example.com', primary: true }],
+    [LD_SCIM_EXTENSION_SCHEMA]: { role: 'reader', customRole: ['team-web'] },
+    ...overrides,
+  };
+}
+
+async function violationCount(rule: GuardrailRule): Promise<number> {
+  const metric = await metricsRegistry.getSingleMetric('scim_gateway_guardrail_violations_total')!.get();
+  return metric.values.find((v) => v.labels.target === 'primary' && v.labels.rule === rule)?.value ?? 0;
+}
+
+describe('createWriteGuard', () => {
+  describe('checkCreate', () => {
+    it('allows users within the guardrails', () => {
+      expect(() => guard.checkCreate(payload())).not.toThrow();
+      expect(() => guard.checkCreate(payload({ userName: 'ada@eu.example.com', emails: [{ value: 'ada@eu.example.com' }] })))
+        .not.toThrow();
+    });
+
+    it('refuses email domains that are denied or not allowed', () => {
+      const denied = () => guard.checkCreate(payload({ emails: [{ value: 'ada@dev.contractors.example.com' }] }));
+      expect(denied).toThrow(GuardrailViolationError);
+      expect(denied).toThrow(expect.objectContaining({
+        rule: 'email_domain',
+        message: 'Refused by guardrails: email domain "dev.contractors.example.com" is denied',
+      }));
+
+      expect(() => guard.checkCreate(payload({ userName: 'ada@Example.org' }))).toThrow(expect.objectContaining({
+        detail: 'email domain "example.org" is not in allowed_email_domains',
+      }));
+
+      // A look-alike domain is not a subdomain
+      expect(() => guard.checkCreate(payload({ userName: 'ada@notexample.com' })))
+        .toThrow(expect.objectContaining({ rule: 'email_domain' }));
+    });
+
+    it('refuses creating a protected member', () => {
+      expect(() => guard.checkCreate(payload({ userName: 'Owner@Example.com' })))
+        .toThrow(expect.objectContaining({ rule: 'protected_member' }));
+    });
+
+    it('refuses custom roles that are denied or not allowed, wherever they are set', () => {
+      expect(() => guard.checkCreate(payload({ [LD_SCIM_EXTENSION_SCHEMA]: { customRole: ['team-admins'] } })))
+        .toThrow(expect.objectContaining({ rule: 'custom_role', detail: 'custom role "team-admins" may not be granted' }));
+      expect(() => guard.checkCreate(payload({ customRolesArray: ['billing'] })))
+        .toThrow(expect.objectContaining({ detail: 'custom role "billing" is not in allowed_custom_roles' }));
+      expect(() => guard.checkCreate(payload({ customRole: 'team-web, billing' })))
+        .toThrow(expect.objectContaining({ detail: 'custom role "billing" is not in allowed_custom_roles' }));
+    });
+
+    it('refuses base roles above max_base_role', () => {
+      expect(() => guard.checkCreate(payload({ role: 'admin' }))).toThrow(expect.objectContaining({
+        rule: 'base_role',
+        detail: 'base role "admin" exceeds max_base_role "writer"',
+      }));
+    });
+
+    it('refuses base roles it does not know', () => {
+      expect(() => guard.checkCreate(payload({ role: 'owner' as LdBuiltInRole }))).toThrow(expect.objectContaining({
+        rule: 'base_role',
+        detail: 'base role "owner" is not a known LaunchDarkly base role',
+      }));
+      expect(() => guard.checkPatch('ld-ada', [{ op: 'replace', path: `${LD_SCIM_EXTENSION_SCHEMA}:role`, value: 'constructor' }]))
+        .toThrow(expect.objectContaining({ rule: 'base_role' }));
+    });
+
+    it('counts each refused write', async () => {
+      const before = await violationCount('base_role');
+      expect(() => guard.checkCreate(payload({ [LD_SCIM_EXTENSION_SCHEMA]: { role: 'admin' } }))).toThrow(GuardrailViolationError);
+      expect(await violationCount('base_role')).toBe(before + 1);
+    });
+  });
+
+  describe('checkMember', () => {
+    it('refuses changes to protected members by ID or userName', () => {
+      expect(guard.protectsMembers()).toBe(true);
+      expect(() => guard.checkMember('ld-owner-id', undefined)).toThrow(expect.objectContaining({ rule: 'protected_member' }));
+      expect(() => guard.checkMember('ld-other', 'OWNER@example.com'))
+        .toThrow(expect.objectContaining({ detail: 'LaunchDarkly member OWNER@example.com is protected' }));
+      expect(() => guard.checkMember('ld-ada', 'ada@example.com')).not.toThrow();
+    });
+
+    it('reads the guardrails on every check', () => {
+      let current = guardrails;
+      const reloadable = createWriteGuard(() => current, 'primary');
+      current = { ...guardrails, protectedMembers: [] };
+      expect(reloadable.protectsMembers()).toBe(false);
+      expect(() => reloadable.checkMember('ld-owner-id', 'owner@example.com')).not.toThrow();
+    });
+  });
+
+  describe('checkReplace', () => {
+    it('checks the new userName and grants but not the email domain', () => {
+      expect(() => guard.checkReplace('ld-ada', payload({ emails: [{ value: 'ada@example.org' }] }))).not.toThrow();
+      expect(() => guard.checkReplace('ld-ada', payload({ userName: 'owner@example.com' })))
+        .toThrow(expect.objectContaining({ rule: 'protected_member' }));
+      expect(() => guard.checkReplace('ld-ada', payload({ customRolesArray: ['billing'] })))
+        .toThrow(expect.objectContaining({ rule: 'custom_role' }));
+    });
+  });
+
+  describe('checkPatch', () => {
+    it('checks roles set on the extension, its attributes or the user', () => {
+      expect(() => guard.checkPatch('ld-ada', [
+        { op: 'replace', path: `${LD_SCIM_EXTENSION_SCHEMA}:customRole`, value: ['team-web', 'release-manager'] },
+        { op: 'replace', path: `${LD_SCIM_EXTENSION_SCHEMA}:role`, value: 'writer' },
+      ])).not.toThrow();
+
+      expect(() => guard.checkPatch('ld-ada', [
+        { op: 'replace', path: `${LD_SCIM_EXTENSION_SCHEMA}:role`, value: 'admin' },
+      ])).toThrow(expect.objectContaining({ rule: 'base_role' }));
+      expect(() => guard.checkPatch('ld-ada', [
+        { op: 'add', path: LD_SCIM_EXTENSION_SCHEMA, value: { customRole: 'team-admin' } },
+      ])).toThrow(expect.objectContaining({ rule: 'custom_role' }));
+      expect(() => guard.checkPatch('ld-ada', [
+        { op: 'replace', value: { [LD_SCIM_EXTENSION_SCHEMA]: { customRole: ['billing'] } } },
+      ])).toThrow(expect.objectContaining({ rule: 'custom_role' }));
+    });
+
+    it('refuses renaming a member to a protected userName', () => {
+      expect(() => guard.checkPatch('ld-ada', [{ op: 'replace', path: 'userName', value: 'owner@example.com' }]))
+        .toThrow(expect.objectContaining({ rule: 'protected_member' }));
+      expect(() => guard.checkPatch('ld-ada', [{ op: 'replace', value: { userName: 'owner@example.com' } }]))
+        .toThrow(expect.objectContaining({ rule: 'protected_member' }));
+    });
+
+    it('ignores remove operations', () => {
+      expect(() => guard.checkPatch('ld-ada', [
+        { op: 'remove', path: `${LD_SCIM_EXTENSION_SCHEMA}:role`, value: 'admin' },
+      ])).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * LaunchDarkly Write Guardrails
+ *
+ * Checks each write of a LaunchDarklyScimClient against the guardrails in
+ * mappings.yaml before it is sent, whatever Alice sent and the mappings
+ * grant: users are only created with allowed email domains, protected
+ * members are never modified or deleted, and only allowed custom roles and
+ * base roles up to the ceiling are granted. A refused write is logged and
+ * fails with a GuardrailViolationError.
+ */
+
+import { Guardrails } from '../config/index.js';
+import { LD_SCIM_EXTENSION_SCHEMA, LdBuiltInRole, LdScimUserCreatePayload } from '../scim/schemas/launchdarkly.js';
+import { ScimPatchOperation } from '../scim/schemas/core.js';
+import { getLogger } from '../middleware/logging.js';
+import { recordGuardrailViolation } from '../middleware/metrics.js';
+import { globToRegExp } from './rules.js';
+
+/**
+ * Which guardrail a write broke
+ */
+export type GuardrailRule = 'email_domain' | 'protected_member' | 'custom_role' | 'base_role';
+
+/**
+ * Error thrown when a write to LaunchDarkly breaks a guardrail
+ */
+export class GuardrailViolationError extends Error {
+  constructor(public rule: GuardrailRule, public detail: string) {
+    super(`Refused by guardrails: ${detail}`);
+    this.name = 'GuardrailViolationError';
+  }
+}
+
+/** Base roles ordered by privilege, for the max_base_role ceiling */
+const BASE_ROLE_PRIVILEGE: Record<LdBuiltInRole, number> = {
+  no_access: 0,
+  reader: 1,
+  writer: 2,
+  admin: 3,
+};
+
+/**
+ * Roles a write grants
+ */
+interface Grants {
+  customRoles: string[];
+  baseRoles: LdBuiltInRole[];
+}
+
+export type WriteGuard = ReturnType<typeof createWriteGuard>;
+
+/**
+ * Create the guard of an LD account's writes
+ *
+ * @param getGuardrails the guardrails in force, read on every write so that reloads apply
+ * @param target the LD account: PRIMARY_TARGET or a name from LD_TARGETS
+ */
+export function createWriteGuard(getGuardrails: () => Guardrails, target: string) {
+  function refuse(rule: GuardrailRule, detail: string, context: Record<string, unknown>): never {
+    getLogger().warn({ target, rule, ...context }, `LaunchDarkly write refused by guardrails: ${detail}`);
+    recordGuardrailViolation(target, rule);
+    throw new GuardrailViolationError(rule, detail);
+  }
+
+  function isProtected(guardrails: Guardrails, idOrUserName: string | undefined): boolean {
+    return idOrUserName !== undefined
+      && guardrails.protectedMembers.some((entry) => entry.toLowerCase() === idOrUserName.toLowerCase());
+  }
+
+  function checkGrants(guardrails: Guardrails, grants: Grants, context: Record<string, unknown>): void {
+    for (const role of grants.customRoles) {
+      if (guardrails.deniedCustomRoles.some((pattern) => globToRegExp(pattern).test(role))) {
+        refuse('custom_role', `custom role "${role}" may not be granted`, context);
+      }
+      if (
+        guardrails.allowedCustomRoles.length > 0
+        && !guardrails.allowedCustomRoles.some((pattern) => globToRegExp(pattern).test(role))
+      ) {
+        refuse('custom_role', `custom role "${role}" is not in allowed_custom_roles`, context);
+      }
+    }
+
+    for (const role of grants.baseRoles) {
+      // A role missing from the table has no known privilege, so it cannot be shown to be under the ceiling
+      if (!Object.hasOwn(BASE_ROLE_PRIVILEGE, role)) {
+        refuse('base_role', `base role "${role}" is not a known LaunchDarkly base role`, context);
+      }
+      if (BASE_ROLE_PRIVILEGE[role] > BASE_ROLE_PRIVILEGE[guardrails.maxBaseRole]) {
+        refuse('base_role', `base role "${role}" exceeds max_base_role "${guardrails.maxBaseRole}"`, context);
+      }
+    }
+  }
+
+  return {
+    /**
+     * Whether checkMember needs the member's userName, not only its ID
+     */
+    protectsMembers(): boolean {
+      return getGuardrails().protectedMembers.length > 0;
+    },
+
+    /**
+     * Check a user about to be created
+     */
+    checkCreate(user: LdScimUserCreatePayload): void {
+      const guardrails = getGuardrails();
+      const context = { userName: user.userName };
+
+      if (isProtected(guardrails, user.userName)) {
+        refuse('protected_member', `"${user.userName}" is a protected member`, context);
+      }
+
+      const addresses = [user.userName, ...user.emails.map((email) => email.value)]
+        .filter((value): value is string => !!value && value.includes('@'));
+      for (const address of addresses) {
+        const domain = address.slice(address.lastIndexOf('@') + 1).toLowerCase();
+        if (guardrails.deniedEmailDomains.some((denied) => inDomain(domain, denied))) {
+          refuse('email_domain', `email domain "${domain}" is denied`, context);
+        }
+        if (
+          guardrails.allowedEmailDomains.length > 0
+          && !guardrails.allowedEmailDomains.some((allowed) => inDomain(domain, allowed))
+        ) {
+          refuse('email_domain', `email domain "${domain}" is not in allowed_email_domains`, context);
+        }
+      }
+
+      checkGrants(guardrails, payloadGrants(user), context);
+    },
+
+    /**
+     * Check that a member may be modified or deleted
+     *
+     * @param userName the member's current userName, if known
+     */
+    checkMember(ldId: string, userName: string | undefined): void {
+      const guardrails = getGuardrails();
+      if (isProtected(guardrails, ldId) || isProtected(guardrails, userName)) {
+        refuse('protected_member', `LaunchDarkly member ${userName ?? ldId} is protected`, { ldId, userName });
+      }
+    },
+
+    /**
+     * Check a full replacement of a member
+     */
+    checkReplace(ldId: string, user: LdScimUserCreatePayload): void {
+      const guardrails = getGuardrails();
+      const context = { ldId, userName: user.userName };
+      if (isProtected(guardrails, user.userName)) {
+        refuse('protected_member', `"${user.userName}" is a protected member`, context);
+      }
+      checkGrants(guardrails, payloadGrants(user), context);
+    },
+
+    /**
+     * Check the userName a PATCH sets and the roles it grants
+     */
+    checkPatch(ldId: string, operations: ScimPatchOperation[]): void {
+      const guardrails = getGuardrails();
+      const userName = patchedUserName(operations);
+      if (isProtected(guardrails, userName)) {
+        refuse('protected_member', `"${userName}" is a protected member`, { ldId, userName });
+      }
+      checkGrants(guardrails, patchGrants(operations), { ldId });
+    },
+  };
+}
+
+/**
+ * Whether a domain is the given domain or one of its subdomains
+ */
+function inDomain(domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith(`.${parent}`);
+}
+
+/**
+ * Roles granted by a create or replace payload, in the extension or at the root
+ */
+function payloadGrants(user: LdScimUserCreatePayload): Grants {
+  const extension = user[LD_SCIM_EXTENSION_SCHEMA];
+  return {
+    customRoles: [
+      ...(extension?.customRole ?? []),
+      ...(user.customRolesArray ?? []),
+      ...(user.customRole ? user.customRole.split(',').map((r) => r.trim()).filter(Boolean) : []),
+    ],
+    baseRoles: [extension?.role, user.role].filter((role): role is LdBuiltInRole => !!role),
+  };
+}
+
+/**
+ * The userName PATCH operations set, if any
+ */
+function patchedUserName(operations: ScimPatchOperation[]): string | undefined {
+  let userName: unknown;
+  for (const operation of operations) {
+    if (operation.op.toLowerCase() === 'remove') {
+      continue;
+    }
+    if (!operation.path) {
+      userName = (operation.value as Record<string, unknown> | undefined)?.userName ?? userName;
+    } else if (operation.path.toLowerCase() === 'username') {
+      userName = operation.value;
+    }
+  }
+  return typeof userName === 'string' ? userName : undefined;
+}
+
+/**
+ * Roles granted by PATCH operations on the LaunchDarkly extension, whether
+ * the operation targets the extension, one of its attributes, or the user
+ */
+function patchGrants(operations: ScimPatchOperation[]): Grants {
+  const grants: Grants = { customRoles: [], baseRoles: [] };
+
+  for (const operation of operations) {
+    if (operation.op.toLowerCase() === 'remove') {
+      continue;
+    }
+
+    let extension: unknown;
+    if (!operation.path) {
+      extension = (operation.value as Record<string, unknown> | undefined)?.[LD_SCIM_EXTENSION_SCHEMA];
+    } else if (operation.path === LD_SCIM_EXTENSION_SCHEMA) {
+      extension = operation.value;
+    } else if (operation.path.startsWith(`${LD_SCIM_EXTENSION_SCHEMA}:`)) {
+      extension = { [operation.path.slice(LD_SCIM_EXTENSION_SCHEMA.length + 1)]: operation.value };
+    }
+    if (!extension || typeof extension !== 'object') {
+      continue;
+    }
+
+    const { role, customRole } = extension as { role?: unknown; customRole?: unknown };
+    if (typeof role === 'string') {
+      grants.baseRoles.push(role as LdBuiltInRole);
+    }
+    if (Array.isArray(customRole)) {
+      grants.customRoles.push(...customRole.filter((r): r is string => typeof r === 'string'));
+    } else if (typeof customRole === 'string') {
+      grants.customRoles.push(customRole);
+    }
+  }
+  return grants;
+}
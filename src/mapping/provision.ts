@@ -0,0 +1,70 @@
+/**
+ * User Provisioning
+ *
+ * Creates the LaunchDarkly member for a new Alice user, restores the member
+ * kept when Alice deleted the user before, or links an existing member with
+ * the same userName. Used by the users controller, and by the job worker when
+ * writes are queued.
+ */
+
+import { MappingConfig } from '../config/index.js';
+import { LaunchDarklyScimClient, LdScimError } from '../scim/client/launchdarkly.js';
+import { LdScimUserResponse } from '../scim/schemas/launchdarkly.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { transformAliceUserToLdUser, resolveRoles } from './transformer.js';
+import { applyAttributeMappings, primaryEmail } from './attributes.js';
+import { getLogger } from '../middleware/logging.js';
+
+/**
+ * Create, restore or link the LD member for an Alice user.
+ * A restored member is replaced with the user's profile and roles, which
+ * reactivates it; a linked member keeps its profile and gets the user's
+ * mapped roles. Both count as linked.
+ *
+ * @param mappings the mappings of the LD account ldClient writes to
+ * @param groupNames group displayNames whose mapped roles are assigned directly
+ * @param previousLdId the member kept when Alice deleted the user, from their tombstone
+ * @param approvedEntries mapping entries marked requiresApproval that were approved for the user
+ */
+export async function provisionLdUser(
+  mappings: MappingConfig,
+  ldClient: LaunchDarklyScimClient,
+  aliceUser: ScimCoreUser,
+  groupNames: string[] = [],
+  previousLdId?: string,
+  approvedEntries: string[] = []
+): Promise<{ ldUser: LdScimUserResponse; linked: boolean }> {
+  if (previousLdId) {
+    try {
+      const ldUser = await ldClient.replaceUser(previousLdId, transformAliceUserToLdUser(aliceUser, mappings, groupNames, approvedEntries));
+      getLogger().info({ userName: ldUser.userName, ldId: ldUser.id }, 'Restored LD member of a deleted user');
+      return { ldUser, linked: true };
+    } catch (error) {
+      if (!(error instanceof LdScimError && error.status === 404)) {
+        throw error;
+      }
+      getLogger().warn({ ldId: previousLdId }, 'LD member of a deleted user no longer exists, provisioning the user again');
+    }
+  }
+
+  // Check if user already exists in LD by userName (or email if userName not provided)
+  const mapped = applyAttributeMappings(aliceUser, mappings);
+  const searchUserName = mapped.userName || primaryEmail(mapped);
+  const existingLdUser = searchUserName ? await ldClient.findUserByUserName(searchUserName) : null;
+
+  if (existingLdUser) {
+    // Linking provisions the user as much as creating them does
+    ldClient.checkCreate(transformAliceUserToLdUser(aliceUser, mappings, groupNames, approvedEntries));
+
+    const { customRoles, baseRole } = resolveRoles(aliceUser, mappings, groupNames, approvedEntries);
+    if (customRoles.length > 0 || baseRole) {
+      await ldClient.updateUserCustomRoles(existingLdUser.id, customRoles, baseRole);
+    }
+
+    getLogger().info({ userName: searchUserName, ldId: existingLdUser.id }, 'Linked existing LD user');
+    return { ldUser: existingLdUser, linked: true };
+  }
+
+  const ldUser = await ldClient.createUser(transformAliceUserToLdUser(aliceUser, mappings, groupNames, approvedEntries));
+  return { ldUser, linked: false };
+}
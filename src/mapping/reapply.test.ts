@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReapplyConflictError, createMappingReapplier } from './reapply.js';
+import { openDatabase, runWithDatabase } from '../db/index.js';
+import { createUserMapping } from '../db/user-mapping.js';
+import { saveIdpUserState } from '../db/idp-state.js';
+import { ReapplyRunStatus, getReapplyRun } from '../db/reapply-runs.js';
+import { LaunchDarklyScimClient } from '../scim/client/launchdarkly.js';
+import { LD_SCIM_EXTENSION_SCHEMA } from '../scim/schemas/launchdarkly.js';
+import { AppConfig } from '../config/index.js';
+import { createTestConfig } from '../testing/config.js';
+
+const MAPPINGS = `
+role_mappings:
+  - aliceRole: "ld-developer"
+    ldCustomRoles: ["developer"]
+`;
+
+const USERS = ['ada', 'bob', 'carol'];
+
+/**
+ * A client whose members have no custom roles yet. Reading ld-ada waits
+ * until the returned release function is called.
+ */
+function fakeLdClient() {
+  let release = () => {};
+  const adaRead = new Promise<void>((resolve) => { release = resolve; });
+  const ldClient = {
+    getUser: vi.fn(async (id: string) => {
+      if (id === 'ld-ada') {
+        await adaRead;
+      }
+      return { id, userName: `${id.slice(3)}@example.com`, [LD_SCIM_EXTENSION_SCHEMA]: { customRole: [] } };
+    }),
+    updateUserCustomRoles: vi.fn(async () => ({})),
+  };
+  return { ldClient, release };
+}
+
+/** Wait for a run to leave the running state */
+async function settled(runId: string, status: ReapplyRunStatus) {
+  await vi.waitFor(() => expect(getReapplyRun(runId)?.status).toBe(status));
+  return getReapplyRun(runId)!;
+}
+
+let db: Database.Database;
+let config: AppConfig;
+
+describe('createMappingReapplier', () => {
+  beforeEach(() => {
+    config = createTestConfig(MAPPINGS, { REAPPLY_RATE_PER_SECOND: '1000' });
+    db = openDatabase(':memory:');
+    runWithDatabase(db, () => {
+      for (const name of USERS) {
+        createUserMapping(`alice-${name}`, null, `ld-${name}`, `${name}@example.com`);
+        saveIdpUserState(`alice-${name}`, {
+          schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+          userName: `${name}@example.com`,
+          roles: [{ value: 'ld-developer' }],
+          active: true,
+        });
+      }
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('stops a cancelled run after the user being processed and resumes it from the next', () => runWithDatabase(db, async () => {
+    const { ldClient, release } = fakeLdClient();
+    const reapplier = createMappingReapplier(config, ldClient as unknown as LaunchDarklyScimClient);
+
+    const run = reapplier.start(config.mappingsInfo.hash!);
+    expect(reapplier.cancel(run.id)?.status).toBe('running');
+    release();
+
+    expect(await settled(run.id, 'cancelled')).toMatchObject({ processed: 1, changed: 1 });
+    expect(() => reapplier.cancel(run.id)).toThrow(new ReapplyConflictError('A cancelled run cannot be cancelled'));
+
+    expect(reapplier.resume(run.id)?.status).toBe('running');
+    expect(await settled(run.id, 'completed')).toMatchObject({ total: 3, processed: 3, changed: 3, failed: 0 });
+    expect(ldClient.getUser.mock.calls.map(([id]) => id)).toEqual(['ld-ada', 'ld-bob', 'ld-carol']);
+    expect(() => reapplier.resume(run.id)).toThrow(new ReapplyConflictError('A completed run cannot be resumed'));
+  }));
+
+  it('stops when the mapping config changes and refuses to resume under the new one', () => runWithDatabase(db, async () => {
+    const { ldClient, release } = fakeLdClient();
+    const reapplier = createMappingReapplier(config, ldClient as unknown as LaunchDarklyScimClient);
+    const run = reapplier.start();
+
+    // As a reload of mappings.yaml would
+    config.mappingsInfo = { ...config.mappingsInfo, hash: 'changed' };
+    release();
+
+    expect(await settled(run.id, 'cancelled')).toMatchObject({
+      processed: 1,
+      lastError: 'Mapping config changed during the run; start a new run to apply it',
+    });
+    expect(() => reapplier.resume(run.id)).toThrow(
+      new ReapplyConflictError('The mapping config changed since this run started; start a new run instead')
+    );
+    expect(() => reapplier.start(run.mappingsHash!)).toThrow(ReapplyConflictError);
+
+    const next = reapplier.start('changed');
+    expect(await settled(next.id, 'completed')).toMatchObject({ mappingsHash: 'changed', processed: 3 });
+  }));
+});
@@ -0,0 +1,331 @@
+/**
+ * Mapping Re-application
+ *
+ * Previews and applies a mapping configuration to every provisioned user.
+ * Roles are recomputed from the last User document Alice submitted for each
+ * user (see db/idp-state.ts) and compared with the member's live LaunchDarkly
+ * roles; with Teams sync, the teams of the groups are synced after the users.
+ * Applying runs in the background at a bounded rate and records its
+ * progress, so a run that is cancelled or cut short by a restart can resume
+ * where it stopped.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AppConfig, MappingConfig } from '../config/index.js';
+import { LaunchDarklyScimClient, LdScimError } from '../scim/client/launchdarkly.js';
+import { LdScimUserResponse } from '../scim/schemas/launchdarkly.js';
+import { getAllUserMappings, getUserMappingsAfterId, countUserMappings, isPendingLdUser } from '../db/user-mapping.js';
+import { getIdpUserState } from '../db/idp-state.js';
+import { getGroupByAliceId } from '../db/groups.js';
+import { getAllTeamMappings } from '../db/team-mapping.js';
+import {
+  ReapplyRun,
+  ReapplyRunProgress,
+  createReapplyRun,
+  getReapplyRun,
+  getAllReapplyRuns,
+  getRunningReapplyRun,
+  updateReapplyRunProgress,
+  setReapplyRunStatus,
+} from '../db/reapply-runs.js';
+import { UserRoleDiff, diffUserRoles } from './role-diff.js';
+import { TargetSync } from './target-sync.js';
+import { TeamSync } from './team-sync.js';
+import { logger } from '../middleware/logging.js';
+
+/** Users loaded per batch while applying */
+const BATCH_SIZE = 100;
+
+/**
+ * Per-user role differences for a mapping configuration
+ */
+export interface MappingPreview {
+  mappings: { version: string | null; hash: string | null };
+  summary: { total: number; changed: number; unchanged: number; skipped: number };
+  users: UserRoleDiff[];
+}
+
+/**
+ * A mapping configuration to preview
+ */
+export interface CandidateMappings {
+  mappings: MappingConfig;
+  version: string | null;
+  hash: string | null;
+}
+
+/**
+ * Error thrown when a run cannot be started, resumed or cancelled in its current state
+ */
+export class ReapplyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReapplyConflictError';
+  }
+}
+
+export type MappingReapplier = ReturnType<typeof createMappingReapplier>;
+
+/**
+ * Create the mapping re-application service
+ *
+ * @param targetSync re-applies the targets' mappings in the additional accounts in LD_TARGETS
+ * @param teamSync re-applies the group mappings to the LaunchDarkly teams of the groups
+ */
+export function createMappingReapplier(
+  config: AppConfig,
+  ldClient: LaunchDarklyScimClient,
+  targetSync?: TargetSync,
+  teamSync?: TeamSync
+) {
+  /** The run being executed by this process */
+  let active: { id: string; cancelled: boolean } | null = null;
+
+  /**
+   * Process users after the run's cursor until done, cancelled or the config changes
+   */
+  async function execute(run: ReapplyRun): Promise<void> {
+    const control = { id: run.id, cancelled: false };
+    active = control;
+
+    const progress: ReapplyRunProgress = {
+      processed: run.processed,
+      changed: run.changed,
+      unchanged: run.unchanged,
+      skipped: run.skipped,
+      failed: run.failed,
+      cursor: run.cursor,
+      lastError: run.lastError,
+    };
+    const interval = 1000 / config.reapplyRatePerSecond;
+    let nextRequestAt = 0;
+
+    /** Pace LD requests */
+    async function pace(): Promise<void> {
+      const wait = nextRequestAt - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+      nextRequestAt = Date.now() + interval;
+    }
+
+    logger.info({ runId: run.id, cursor: run.cursor, total: run.total }, 'Mapping re-application started');
+
+    try {
+      for (;;) {
+        const batch = getUserMappingsAfterId(progress.cursor, BATCH_SIZE);
+        if (batch.length === 0) {
+          break;
+        }
+
+        for (const mapping of batch) {
+          if (control.cancelled) {
+            setReapplyRunStatus(run.id, 'cancelled');
+            logger.info({ runId: run.id, ...progress }, 'Mapping re-application cancelled');
+            return;
+          }
+          if (config.mappingsInfo.hash !== run.mappingsHash) {
+            progress.lastError = 'Mapping config changed during the run; start a new run to apply it';
+            updateReapplyRunProgress(run.id, progress);
+            setReapplyRunStatus(run.id, 'cancelled');
+            logger.warn({ runId: run.id }, 'Mapping config changed, mapping re-application stopped');
+            return;
+          }
+
+          if (!getIdpUserState(mapping.aliceId) || isPendingLdUser(mapping)) {
+            progress.skipped++;
+          } else {
+            await pace();
+            try {
+              const diff = diffUserRoles(config, mapping, await getLdUser(mapping.ldId));
+              if (diff.status === 'changed') {
+                await ldClient.updateUserCustomRoles(mapping.ldId, diff.proposed!.customRoles, diff.proposed!.role);
+                logger.info(
+                  { runId: run.id, aliceId: mapping.aliceId, ldId: mapping.ldId, current: diff.current, proposed: diff.proposed },
+                  'Re-applied mappings to user'
+                );
+                progress.changed++;
+              } else if (diff.status === 'unchanged') {
+                progress.unchanged++;
+              } else {
+                progress.skipped++;
+              }
+            } catch (error) {
+              progress.failed++;
+              progress.lastError = `${mapping.aliceId}: ${error instanceof Error ? error.message : String(error)}`;
+              logger.error({ runId: run.id, aliceId: mapping.aliceId, error }, 'Failed to re-apply mappings to user');
+            }
+          }
+
+          // The additional LD accounts are brought in line by queued target_sync jobs
+          targetSync?.schedule(mapping.aliceId);
+
+          progress.processed++;
+          progress.cursor = mapping.id;
+          updateReapplyRunProgress(run.id, progress);
+        }
+
+        logger.info({ runId: run.id, ...progress, total: run.total }, 'Mapping re-application progress');
+      }
+
+      // The group mappings decide the roles of the teams. A resumed run syncs them again.
+      if (teamSync) {
+        for (const teamMapping of getAllTeamMappings()) {
+          if (control.cancelled) {
+            setReapplyRunStatus(run.id, 'cancelled');
+            logger.info({ runId: run.id, ...progress }, 'Mapping re-application cancelled');
+            return;
+          }
+          const group = getGroupByAliceId(teamMapping.groupAliceId);
+          if (!group) {
+            continue;
+          }
+
+          await pace();
+          try {
+            await teamSync.syncGroup(group);
+          } catch (error) {
+            progress.failed++;
+            progress.lastError = `group ${group.aliceId}: ${error instanceof Error ? error.message : String(error)}`;
+            logger.error({ runId: run.id, groupId: group.aliceId, error }, 'Failed to re-apply mappings to team');
+          }
+        }
+        updateReapplyRunProgress(run.id, progress);
+      }
+
+      setReapplyRunStatus(run.id, 'completed', progress.processed);
+      logger.info({ runId: run.id, ...progress }, 'Mapping re-application completed');
+    } catch (error) {
+      // Database errors; the run can be resumed from its last recorded cursor
+      setReapplyRunStatus(run.id, 'interrupted');
+      logger.error({ runId: run.id, error }, 'Mapping re-application interrupted');
+    } finally {
+      if (active === control) {
+        active = null;
+      }
+    }
+  }
+
+  /**
+   * Get an LD member, or undefined if it no longer exists
+   */
+  async function getLdUser(ldId: string): Promise<LdScimUserResponse | undefined> {
+    try {
+      return await ldClient.getUser(ldId, { cached: false });
+    } catch (error) {
+      if (error instanceof LdScimError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    /**
+     * Show the per-user role changes a mapping configuration would make.
+     * Defaults to the active configuration.
+     */
+    async preview(candidate?: CandidateMappings): Promise<MappingPreview> {
+      const { mappings, version, hash } = candidate ?? { ...config.mappingsInfo, mappings: config.mappings };
+      const ldUsers = await ldClient.listAllUsers();
+
+      const users = getAllUserMappings()
+        .sort((a, b) => a.id - b.id)
+        .map((mapping) => diffUserRoles(config, mapping, ldUsers.get(mapping.ldId), mappings));
+
+      return {
+        mappings: { version, hash },
+        summary: {
+          total: users.length,
+          changed: users.filter((u) => u.status === 'changed').length,
+          unchanged: users.filter((u) => u.status === 'unchanged').length,
+          skipped: users.filter((u) => u.status === 'skipped').length,
+        },
+        users,
+      };
+    },
+
+    /**
+     * Start applying the active mapping configuration to every user.
+     *
+     * @param expectedHash if set, the active configuration must have this hash,
+     *   guarding against applying something other than what was previewed
+     * @throws ReapplyConflictError if a run is in progress or the hash differs
+     */
+    start(expectedHash?: string): ReapplyRun {
+      if (getRunningReapplyRun()) {
+        throw new ReapplyConflictError('A mapping re-application run is already in progress');
+      }
+      if (expectedHash && expectedHash !== config.mappingsInfo.hash) {
+        throw new ReapplyConflictError(
+          `Active mapping config hash ${config.mappingsInfo.hash} does not match expected hash ${expectedHash}`
+        );
+      }
+
+      const run = createReapplyRun(
+        uuidv4(),
+        config.mappingsInfo.hash,
+        config.mappingsInfo.version,
+        countUserMappings()
+      );
+      void execute(run);
+      return run;
+    },
+
+    /**
+     * Resume a cancelled or interrupted run from its last processed user
+     *
+     * @throws ReapplyConflictError if the run cannot be resumed
+     */
+    resume(runId: string): ReapplyRun | null {
+      const run = getReapplyRun(runId);
+      if (!run) {
+        return null;
+      }
+      if (run.status !== 'cancelled' && run.status !== 'interrupted') {
+        throw new ReapplyConflictError(`A ${run.status} run cannot be resumed`);
+      }
+      if (getRunningReapplyRun()) {
+        throw new ReapplyConflictError('A mapping re-application run is already in progress');
+      }
+      if (run.mappingsHash !== config.mappingsInfo.hash) {
+        throw new ReapplyConflictError('The mapping config changed since this run started; start a new run instead');
+      }
+
+      setReapplyRunStatus(run.id, 'running', countUserMappings());
+      const resumed = getReapplyRun(run.id)!;
+      void execute(resumed);
+      return resumed;
+    },
+
+    /**
+     * Cancel the running run. It stops after the user being processed.
+     *
+     * @throws ReapplyConflictError if the run is not running
+     */
+    cancel(runId: string): ReapplyRun | null {
+      const run = getReapplyRun(runId);
+      if (!run) {
+        return null;
+      }
+      if (run.status !== 'running' || active?.id !== run.id) {
+        throw new ReapplyConflictError(`A ${run.status} run cannot be cancelled`);
+      }
+
+      active.cancelled = true;
+      return run;
+    },
+
+    getRun(runId: string): ReapplyRun | null {
+      return getReapplyRun(runId);
+    },
+
+    listRuns(): ReapplyRun[] {
+      return getAllReapplyRuns();
+    },
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,299 @@
+/**
+ * Drift Reconciliation
+ *
+ * Compares LaunchDarkly members with user_mappings and the desired state from
+ * the stored IdP documents. Finds LD members the gateway does not know about,
+ * mappings whose LD member has disappeared, and members whose roles were
+ * changed outside the gateway. In correct mode, missing members are relinked
+ * or recreated and role drift is reverted; unmapped LD members are only
+ * reported, since the gateway never deletes members it did not provision.
+ * Members kept for users Alice deleted (tombstones) are not unmapped.
+ */
+
+import { AppConfig, ReconcileMode } from '../config/index.js';
+import { LaunchDarklyScimClient } from '../scim/client/launchdarkly.js';
+import { LdScimUserResponse } from '../scim/schemas/launchdarkly.js';
+import { UserMapping, getAllUserMappings, updateUserMapping, isPendingLdUser } from '../db/user-mapping.js';
+import { hasOpenJobs } from '../db/jobs.js';
+import { getAllUserTombstones } from '../db/user-tombstones.js';
+import { getIdpUserState } from '../db/idp-state.js';
+import { getApprovedEntries } from '../db/role-approvals.js';
+import { transformAliceUserToLdUser } from './transformer.js';
+import { UserRoleDiff, diffUserRoles, directGroupNames } from './role-diff.js';
+import { logger } from '../middleware/logging.js';
+
+/**
+ * A user mapping whose LaunchDarkly member no longer exists
+ */
+export interface MissingLdMember {
+  id: string;
+  userName: string;
+  ldId: string;
+  /**
+   * How the mapping can be repaired:
+   * - relink: an LD member with the same userName exists
+   * - recreate: the member is recreated from the stored IdP document
+   * - none: no stored IdP document, or the user is inactive
+   */
+  resolution: 'relink' | 'recreate' | 'none';
+  /** LD ID of the relinked or recreated member */
+  newLdId?: string;
+  corrected?: boolean;
+  error?: string;
+}
+
+/**
+ * A member whose LaunchDarkly roles differ from the desired roles
+ */
+export interface RoleDrift extends UserRoleDiff {
+  corrected?: boolean;
+  error?: string;
+}
+
+/**
+ * Result of a reconciliation run
+ */
+export interface ReconcileReport {
+  mode: ReconcileMode;
+  startedAt: string;
+  finishedAt: string;
+  ldMembers: number;
+  userMappings: number;
+  /** LD members with no user mapping */
+  unmappedLdMembers: Array<{ ldId: string; userName: string }>;
+  /** LD members kept for users Alice deleted, under the deprovisioning policy */
+  tombstonedLdMembers: number;
+  /** User mappings whose LD member no longer exists */
+  missingLdMembers: MissingLdMember[];
+  /** Users skipped because writes for them are still queued */
+  queuedUsers: number;
+  roleDrift: RoleDrift[];
+  corrected: number;
+  failed: number;
+}
+
+/**
+ * Error thrown when a reconciliation is requested while one is running
+ */
+export class ReconcileInProgressError extends Error {
+  constructor() {
+    super('A reconciliation is already in progress');
+    this.name = 'ReconcileInProgressError';
+  }
+}
+
+export type Reconciler = ReturnType<typeof createReconciler>;
+
+/**
+ * Create the drift reconciler
+ */
+export function createReconciler(config: AppConfig, ldClient: LaunchDarklyScimClient) {
+  let running = false;
+  let lastReport: ReconcileReport | null = null;
+
+  const interval = 1000 / config.reapplyRatePerSecond;
+  let nextRequestAt = 0;
+
+  /**
+   * Pace corrections sent to LD
+   */
+  async function pace(): Promise<void> {
+    const wait = nextRequestAt - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    nextRequestAt = Date.now() + interval;
+  }
+
+  /**
+   * Decide how a mapping with a missing LD member can be repaired, and repair it in correct mode
+   */
+  async function handleMissingMember(
+    mapping: UserMapping,
+    ldUsersByUserName: Map<string, LdScimUserResponse>,
+    mappedLdIds: Set<string>,
+    mode: ReconcileMode
+  ): Promise<MissingLdMember> {
+    const result: MissingLdMember = {
+      id: mapping.aliceId,
+      userName: mapping.ldUserName,
+      ldId: mapping.ldId,
+      resolution: 'none',
+    };
+
+    const sameUserName = ldUsersByUserName.get(mapping.ldUserName.toLowerCase());
+    const document = getIdpUserState(mapping.aliceId)?.document;
+
+    if (sameUserName && !mappedLdIds.has(sameUserName.id)) {
+      result.resolution = 'relink';
+      result.newLdId = sameUserName.id;
+    } else if (document && document.active !== false) {
+      result.resolution = 'recreate';
+    }
+
+    if (mode !== 'correct' || result.resolution === 'none') {
+      return result;
+    }
+
+    try {
+      if (result.resolution === 'relink') {
+        updateUserMapping(mapping.aliceId, { ldId: sameUserName!.id, ldUserName: sameUserName!.userName });
+      } else {
+        await pace();
+        const payload = transformAliceUserToLdUser(
+          document!, config.mappings, directGroupNames(config, mapping.aliceId), getApprovedEntries(mapping.aliceId)
+        );
+        const created = await ldClient.createUser(payload);
+        updateUserMapping(mapping.aliceId, { ldId: created.id, ldUserName: created.userName });
+        result.newLdId = created.id;
+      }
+      result.corrected = true;
+      logger.info(
+        { aliceId: mapping.aliceId, oldLdId: mapping.ldId, newLdId: result.newLdId, resolution: result.resolution },
+        'Reconciled missing LD member'
+      );
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      logger.error({ aliceId: mapping.aliceId, error }, 'Failed to reconcile missing LD member');
+    }
+    return result;
+  }
+
+  /**
+   * Revert a member's role drift
+   */
+  async function correctRoleDrift(drift: RoleDrift): Promise<void> {
+    try {
+      await pace();
+      await ldClient.updateUserCustomRoles(drift.ldId, drift.proposed!.customRoles, drift.proposed!.role);
+      drift.corrected = true;
+      logger.info({ aliceId: drift.id, ldId: drift.ldId, current: drift.current, proposed: drift.proposed }, 'Corrected role drift');
+    } catch (error) {
+      drift.error = error instanceof Error ? error.message : String(error);
+      logger.error({ aliceId: drift.id, ldId: drift.ldId, error }, 'Failed to correct role drift');
+    }
+  }
+
+  /**
+   * Run a reconciliation
+   *
+   * @param mode defaults to the configured mode
+   * @throws ReconcileInProgressError if a reconciliation is already running
+   */
+  async function run(mode: ReconcileMode = config.reconcile.mode): Promise<ReconcileReport> {
+    if (running) {
+      throw new ReconcileInProgressError();
+    }
+    running = true;
+
+    try {
+      const startedAt = new Date().toISOString();
+      logger.info({ mode }, 'Reconciliation started');
+
+      const ldUsers = await ldClient.listAllUsers();
+      const ldUsersByUserName = new Map(
+        Array.from(ldUsers.values()).map((u) => [u.userName.toLowerCase(), u] as const)
+      );
+      const mappings = getAllUserMappings().sort((a, b) => a.id - b.id);
+      const mappedLdIds = new Set(mappings.map((m) => m.ldId));
+
+      // Users with queued writes are expected to differ from LD until the writes are applied
+      const queued = mappings.filter((m) => isPendingLdUser(m) || hasOpenJobs(m.aliceId));
+
+      const missingLdMembers: MissingLdMember[] = [];
+      const roleDrift: RoleDrift[] = [];
+
+      for (const mapping of mappings) {
+        if (queued.includes(mapping)) {
+          continue;
+        }
+
+        const ldUser = ldUsers.get(mapping.ldId);
+        if (!ldUser) {
+          const missing = await handleMissingMember(mapping, ldUsersByUserName, mappedLdIds, mode);
+          if (missing.resolution === 'relink') {
+            mappedLdIds.add(missing.newLdId!);
+          }
+          missingLdMembers.push(missing);
+          continue;
+        }
+
+        const diff = diffUserRoles(config, mapping, ldUser);
+        if (diff.status !== 'changed') {
+          continue;
+        }
+
+        const drift: RoleDrift = diff;
+        if (mode === 'correct') {
+          await correctRoleDrift(drift);
+        }
+        roleDrift.push(drift);
+      }
+
+      const tombstonedLdIds = new Set(getAllUserTombstones().map((t) => t.ldId));
+      const notMapped = Array.from(ldUsers.values()).filter((u) => !mappedLdIds.has(u.id));
+      const unmappedLdMembers = notMapped
+        .filter((u) => !tombstonedLdIds.has(u.id))
+        .map((u) => ({ ldId: u.id, userName: u.userName }));
+
+      const outcomes = [...missingLdMembers, ...roleDrift];
+      const report: ReconcileReport = {
+        mode,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        ldMembers: ldUsers.size,
+        userMappings: mappings.length,
+        unmappedLdMembers,
+        tombstonedLdMembers: notMapped.length - unmappedLdMembers.length,
+        missingLdMembers,
+        queuedUsers: queued.length,
+        roleDrift,
+        corrected: outcomes.filter((o) => o.corrected).length,
+        failed: outcomes.filter((o) => o.error).length,
+      };
+
+      lastReport = report;
+      logger.info(
+        {
+          mode,
+          unmappedLdMembers: unmappedLdMembers.length,
+          missingLdMembers: missingLdMembers.length,
+          roleDrift: roleDrift.length,
+          corrected: report.corrected,
+          failed: report.failed,
+        },
+        'Reconciliation completed'
+      );
+      return report;
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    run,
+
+    /**
+     * The most recent report, if any
+     */
+    getLastReport(): ReconcileReport | null {
+      return lastReport;
+    },
+
+    /**
+     * Run reconciliation every configured interval.
+     * Returns a function that stops the schedule.
+     */
+    schedule(): () => void {
+      const timer = setInterval(() => {
+        run().catch((error) => {
+          if (!(error instanceof ReconcileInProgressError)) {
+            logger.error({ error }, 'Scheduled reconciliation failed');
+          }
+        });
+      }, config.reconcile.intervalMinutes * 60_000);
+
+      return () => clearInterval(timer);
+    },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Role Diff
+ *
+ * Compares a member's live LaunchDarkly roles with the roles the mappings give
+ * them, computed from the last User document Alice submitted.
+ */
+
+import { AppConfig, MappingConfig } from '../config/index.js';
+import { LD_SCIM_EXTENSION_SCHEMA, LdBuiltInRole, LdScimUserResponse } from '../scim/schemas/launchdarkly.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { UserMapping } from '../db/user-mapping.js';
+import { getIdpUserState } from '../db/idp-state.js';
+import { getGroupsForUser } from '../db/groups.js';
+import { getApprovedEntries } from '../db/role-approvals.js';
+import { transformAliceUserToLdUser, getLdCustomRoles } from './transformer.js';
+
+/**
+ * LaunchDarkly roles of a member
+ */
+export interface RoleAssignment {
+  customRoles: string[];
+  /** Base role; unset means the mappings leave the member's base role as is */
+  role?: LdBuiltInRole;
+}
+
+/**
+ * Role difference for a single user
+ */
+export interface UserRoleDiff {
+  id: string;
+  userName: string;
+  ldId: string;
+  status: 'changed' | 'unchanged' | 'skipped';
+  /** Why the user was skipped */
+  reason?: string;
+  current?: RoleAssignment;
+  proposed?: RoleAssignment;
+  addedCustomRoles?: string[];
+  removedCustomRoles?: string[];
+}
+
+/**
+ * Compare a member's live LD roles with the roles the mappings give them.
+ * Users without a stored IdP document or without an LD member are skipped.
+ *
+ * @param mappings the mapping configuration to apply, defaults to the active one
+ */
+export function diffUserRoles(
+  config: AppConfig,
+  mapping: UserMapping,
+  ldUser: LdScimUserResponse | undefined,
+  mappings: MappingConfig = config.mappings
+): UserRoleDiff {
+  const base = { id: mapping.aliceId, userName: mapping.ldUserName, ldId: mapping.ldId };
+
+  const state = getIdpUserState(mapping.aliceId);
+  if (!state) {
+    return { ...base, status: 'skipped', reason: 'No stored IdP state; roles are updated on the next push from Alice' };
+  }
+  if (!ldUser) {
+    return { ...base, status: 'skipped', reason: 'LaunchDarkly member not found' };
+  }
+
+  const current: RoleAssignment = {
+    customRoles: getLdCustomRoles(ldUser),
+    role: ldUser[LD_SCIM_EXTENSION_SCHEMA]?.role ?? ldUser.role,
+  };
+  const proposed = desiredRoles(
+    state.document, mappings, directGroupNames(config, mapping.aliceId), getApprovedEntries(mapping.aliceId)
+  );
+
+  const addedCustomRoles = proposed.customRoles.filter((r) => !current.customRoles.includes(r));
+  const removedCustomRoles = current.customRoles.filter((r) => !proposed.customRoles.includes(r));
+  const roleChanged = proposed.role !== undefined && proposed.role !== current.role;
+  const changed = addedCustomRoles.length > 0 || removedCustomRoles.length > 0 || roleChanged;
+
+  return {
+    ...base,
+    status: changed ? 'changed' : 'unchanged',
+    current,
+    proposed,
+    addedCustomRoles,
+    removedCustomRoles,
+  };
+}
+
+/**
+ * Group displayNames whose mapped roles are assigned to the member directly.
+ * With Teams sync enabled, group roles are attached to the LD team instead.
+ */
+export function directGroupNames(config: AppConfig, aliceId: string): string[] {
+  return config.ldTeams ? [] : getGroupsForUser(aliceId).map((g) => g.displayName);
+}
+
+/**
+ * The roles the mappings give a user
+ */
+function desiredRoles(
+  document: ScimCoreUser,
+  mappings: MappingConfig,
+  groupNames: string[],
+  approvedEntries: string[]
+): RoleAssignment {
+  const extension = transformAliceUserToLdUser(document, mappings, groupNames, approvedEntries)[LD_SCIM_EXTENSION_SCHEMA] ?? {};
+  return { customRoles: extension.customRole ?? [], role: extension.role };
+}
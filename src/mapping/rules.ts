@@ -0,0 +1,165 @@
+/**
+ * Role Rules Engine
+ *
+ * Evaluates attribute-based role rules against an Alice user. Rules match on
+ * roles, groups, entitlements, userType, title or the Enterprise User
+ * extension's department, organization, division, costCenter or
+ * employeeNumber, using equals, glob or regex conditions combined with AND/OR,
+ * and are evaluated in priority order.
+ */
+
+import { RoleRule, RoleRuleAttribute, RoleRuleCondition } from '../config/index.js';
+import { ScimCoreUser, SCIM_ENTERPRISE_USER_SCHEMA } from '../scim/schemas/core.js';
+import { LdBuiltInRole } from '../scim/schemas/launchdarkly.js';
+import { getLogger } from '../middleware/logging.js';
+
+/**
+ * A role rule that matched a user
+ */
+export interface RoleRuleMatch {
+  name: string;
+  customRoles: string[];
+  baseRole?: LdBuiltInRole;
+  requiresApproval?: boolean;
+}
+
+/**
+ * Compiled patterns, cached per condition
+ */
+const patternCache = new WeakMap<RoleRuleCondition, RegExp | null>();
+
+/**
+ * Evaluate role rules against an Alice user, returning the matched rules in
+ * evaluation order
+ */
+export function evaluateRoleRules(aliceUser: ScimCoreUser, rules: RoleRule[]): RoleRuleMatch[] {
+  const matches: RoleRuleMatch[] = [];
+
+  for (const rule of rules) {
+    if (!ruleMatches(aliceUser, rule)) {
+      continue;
+    }
+
+    matches.push({
+      name: rule.name,
+      customRoles: rule.ldCustomRoles,
+      baseRole: rule.ldRole,
+      requiresApproval: rule.requiresApproval,
+    });
+
+    getLogger().debug(
+      { rule: rule.name, ldCustomRoles: rule.ldCustomRoles, ldRole: rule.ldRole },
+      'Role rule matched'
+    );
+
+    if (rule.stop) {
+      break;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Whether a rule's conditions match the user
+ */
+function ruleMatches(aliceUser: ScimCoreUser, rule: RoleRule): boolean {
+  if (rule.conditions.length === 0) {
+    return false;
+  }
+  return matchesConditions(aliceUser, rule.conditions, rule.match);
+}
+
+/**
+ * Whether all (or, with match 'any', any) of the conditions match the user
+ */
+export function matchesConditions(
+  aliceUser: ScimCoreUser,
+  conditions: RoleRuleCondition[],
+  match: 'all' | 'any'
+): boolean {
+  const matches = (condition: RoleRuleCondition) =>
+    getAttributeValues(aliceUser, condition.attribute).some((value) => conditionMatches(condition, value));
+
+  return match === 'any'
+    ? conditions.some(matches)
+    : conditions.every(matches);
+}
+
+/**
+ * Read the values of a rule attribute from the user
+ */
+function getAttributeValues(aliceUser: ScimCoreUser, attribute: RoleRuleAttribute): string[] {
+  switch (attribute) {
+    case 'roles':
+      return (aliceUser.roles || []).map((r) => r.value);
+    case 'groups':
+      return (aliceUser.groups || []).map((g) => g.display).filter((d): d is string => Boolean(d));
+    case 'entitlements':
+      return (aliceUser.entitlements || []).map((e) => e.value);
+    case 'userType':
+      return aliceUser.userType ? [aliceUser.userType] : [];
+    case 'title':
+      return aliceUser.title ? [aliceUser.title] : [];
+    case 'department':
+    case 'organization':
+    case 'division':
+    case 'costCenter':
+    case 'employeeNumber': {
+      const value = aliceUser[SCIM_ENTERPRISE_USER_SCHEMA]?.[attribute];
+      return value ? [value] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether a single value satisfies a condition
+ */
+function conditionMatches(condition: RoleRuleCondition, value: string): boolean {
+  if (condition.equals !== undefined) {
+    return value === condition.equals;
+  }
+
+  const pattern = compilePattern(condition);
+  return pattern ? pattern.test(value) : false;
+}
+
+/**
+ * Compile a condition's glob or regex into a RegExp
+ */
+function compilePattern(condition: RoleRuleCondition): RegExp | null {
+  if (patternCache.has(condition)) {
+    return patternCache.get(condition)!;
+  }
+
+  let pattern: RegExp | null = null;
+  try {
+    if (condition.glob !== undefined) {
+      pattern = globToRegExp(condition.glob);
+    } else if (condition.regex !== undefined) {
+      pattern = new RegExp(condition.regex);
+    }
+  } catch (error) {
+    getLogger().error({ condition, error }, 'Invalid role rule pattern, condition will never match');
+  }
+
+  patternCache.set(condition, pattern);
+  return pattern;
+}
+
+/**
+ * Convert a glob (* and ?) into an anchored RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,182 @@
+/**
+ * LaunchDarkly Target Sync
+ *
+ * Fans users out to the additional LaunchDarkly accounts in LD_TARGETS. The
+ * targets section of mappings.yaml decides which users belong in each target
+ * and which roles they get there. Each target is synced separately from the
+ * primary account and from the other targets: a target that fails is retried
+ * through a target_sync job without holding back the others.
+ */
+
+import { AppConfig, MappingConfig, TargetMapping } from '../config/index.js';
+import { LaunchDarklyScimClient, LdScimError } from '../scim/client/launchdarkly.js';
+import { ScimCoreUser } from '../scim/schemas/core.js';
+import { getUserMappingByAliceId } from '../db/user-mapping.js';
+import {
+  getUserTargetMapping,
+  saveUserTargetMapping,
+  deleteUserTargetMapping,
+} from '../db/user-target-mapping.js';
+import { getIdpUserState } from '../db/idp-state.js';
+import { getGroupsForUser } from '../db/groups.js';
+import { enqueueTargetSync } from '../db/jobs.js';
+import { getApprovedEntries } from '../db/role-approvals.js';
+import { transformAliceUserToLdUser } from './transformer.js';
+import { provisionLdUser } from './provision.js';
+import { matchesConditions } from './rules.js';
+import { getLogger } from '../middleware/logging.js';
+
+export type TargetSync = ReturnType<typeof createTargetSync>;
+
+/**
+ * Create the target sync service
+ *
+ * @param clients a SCIM client for each target in config.ldTargets, by name
+ */
+export function createTargetSync(config: AppConfig, clients: Map<string, LaunchDarklyScimClient>) {
+  /**
+   * The target's mappings if the user belongs in it
+   */
+  function membership(target: string, aliceUser: ScimCoreUser, groupNames: string[]): MappingConfig | null {
+    const entry = config.mappings.targets.find((t) => t.name === target);
+    return entry && belongsIn(entry, aliceUser, groupNames) ? entry.mappings : null;
+  }
+
+  /**
+   * Remove the user's member from a target, if they have one
+   */
+  async function removeFromTarget(target: string, client: LaunchDarklyScimClient, aliceId: string): Promise<void> {
+    const member = getUserTargetMapping(aliceId, target);
+    if (!member) {
+      return;
+    }
+
+    try {
+      await client.deleteUser(member.ldId);
+    } catch (error) {
+      // Already deleted in LD
+      if (!(error instanceof LdScimError && error.status === 404)) {
+        throw error;
+      }
+    }
+    deleteUserTargetMapping(aliceId, target);
+    getLogger().info({ aliceId, target, ldId: member.ldId }, 'Removed user from LD target');
+  }
+
+  /**
+   * Bring a user's member in a target in line with their current state:
+   * create or link it when they belong in the target, replace it with the
+   * target's roles when they still do, and delete it when they no longer do
+   * or were deleted. Users without a stored IdP document are left as they are.
+   */
+  async function syncUser(target: string, aliceId: string): Promise<void> {
+    const client = clients.get(target);
+    if (!client) {
+      throw new Error(`Unknown LD target "${target}"; is it still listed in LD_TARGETS?`);
+    }
+
+    if (!getUserMappingByAliceId(aliceId)) {
+      await removeFromTarget(target, client, aliceId);
+      return;
+    }
+
+    const document = getIdpUserState(aliceId)?.document;
+    if (!document) {
+      getLogger().debug({ aliceId, target }, 'No stored IdP document, skipping LD target');
+      return;
+    }
+
+    const groupNames = getGroupsForUser(aliceId).map((g) => g.displayName);
+    const mappings = membership(target, document, groupNames);
+    if (!mappings) {
+      await removeFromTarget(target, client, aliceId);
+      return;
+    }
+
+    const approvedEntries = getApprovedEntries(aliceId);
+    const member = getUserTargetMapping(aliceId, target);
+    if (member) {
+      try {
+        const payload = transformAliceUserToLdUser(document, mappings, groupNames, approvedEntries);
+        const ldUser = await client.replaceUser(member.ldId, payload);
+        if (ldUser.userName !== member.ldUserName) {
+          saveUserTargetMapping(aliceId, target, ldUser.id, ldUser.userName);
+        }
+        return;
+      } catch (error) {
+        if (!(error instanceof LdScimError && error.status === 404)) {
+          throw error;
+        }
+        // Deleted directly in LD; provision it again
+        getLogger().warn({ aliceId, target, ldId: member.ldId }, 'LD target member no longer exists, recreating it');
+      }
+    }
+
+    const { ldUser, linked } = await provisionLdUser(mappings, client, document, groupNames, undefined, approvedEntries);
+    if (!getUserMappingByAliceId(aliceId)) {
+      // Alice deleted the user while it was being provisioned
+      if (!linked) {
+        await client.deleteUser(ldUser.id);
+      }
+      return;
+    }
+    saveUserTargetMapping(aliceId, target, ldUser.id, ldUser.userName);
+    getLogger().info({ aliceId, target, ldId: ldUser.id, linked }, 'Provisioned user in LD target');
+  }
+
+  return {
+    syncUser,
+
+    /**
+     * Propagate a change to users into every target. In sync write mode each
+     * target is synced straight away, and a target that fails is queued for
+     * retry; in async mode every target is queued. Failures never reach the
+     * caller, since the change already applies to the primary account.
+     */
+    async propagate(aliceIds: Iterable<string>): Promise<void> {
+      for (const aliceId of aliceIds) {
+        await Promise.all(config.ldTargets.map(async ({ name: target }) => {
+          if (config.writeMode === 'async') {
+            enqueueTargetSync(aliceId, target);
+            return;
+          }
+
+          try {
+            await syncUser(target, aliceId);
+          } catch (error) {
+            const job = enqueueTargetSync(aliceId, target);
+            getLogger().warn(
+              { aliceId, target, jobId: job.id, error: error instanceof Error ? error.message : String(error) },
+              'Failed to sync user to LD target, queued for retry'
+            );
+          }
+        }));
+      }
+    },
+
+    /**
+     * Queue a sync of a user into every target
+     */
+    schedule(aliceId: string): void {
+      for (const { name: target } of config.ldTargets) {
+        enqueueTargetSync(aliceId, target);
+      }
+    },
+  };
+}
+
+/**
+ * Whether a user meets a target's conditions. Groups pushed to /Groups count
+ * towards groups conditions, as well as groups on the User document.
+ */
+export function belongsIn(entry: TargetMapping, aliceUser: ScimCoreUser, groupNames: string[]): boolean {
+  if (entry.conditions.length === 0) {
+    return true;
+  }
+
+  const groups = [
+    ...(aliceUser.groups ?? []),
+    ...groupNames.map((display) => ({ value: display, display })),
+  ];
+  return matchesConditions({ ...aliceUser, groups }, entry.conditions, entry.match);
+}
@@ -0,0 +1,135 @@
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTeamSync } from './team-sync.js';
+import { openDatabase, runWithDatabase } from '../db/index.js';
+import { PENDING_LD_ID, createUserMapping, updateUserMapping } from '../db/user-mapping.js';
+import { addGroupMembers, createGroup, getGroupByAliceId, removeGroupMembers, updateGroup } from '../db/groups.js';
+import { getTeamMappingByGroupAliceId } from '../db/team-mapping.js';
+import { LaunchDarklyTeamsClient, LdApiError, LdTeam } from '../scim/client/launchdarkly-teams.js';
+import { createTestConfig } from '../testing/config.js';
+
+const MAPPINGS = `
+group_mappings:
+  - aliceGroup: "Engineering"
+    ldCustomRoles: ["developer", "deployer"]
+`;
+
+function fakeTeamsClient() {
+  return {
+    createTeam: vi.fn(async (team: { key: string; name: string }): Promise<LdTeam> => team),
+    getTeam: vi.fn(async (key: string): Promise<LdTeam> => ({ key, name: key, roles: { items: [] } })),
+    patchTeam: vi.fn(async (key: string): Promise<LdTeam> => ({ key, name: key })),
+    deleteTeam: vi.fn(async () => undefined),
+  };
+}
+
+let db: Database.Database;
+
+describe('createTeamSync', () => {
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    runWithDatabase(db, () => {
+      createUserMapping('alice-ada', null, 'ld-ada', 'ada@example.com');
+      createUserMapping('alice-bob', null, 'ld-bob', 'bob@example.com');
+      createGroup('group-eng', null, 'Engineering');
+      addGroupMembers('group-eng', ['alice-ada']);
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('creates the team with the group mappings\' roles and the members', () => runWithDatabase(db, async () => {
+    const teamsClient = fakeTeamsClient();
+    await createTeamSync(createTestConfig(MAPPINGS), teamsClient as unknown as LaunchDarklyTeamsClient)
+      .syncGroup(getGroupByAliceId('group-eng')!);
+
+    expect(teamsClient.createTeam).toHaveBeenCalledWith(expect.objectContaining({
+      key: 'engineering',
+      name: 'Engineering',
+      customRoleKeys: ['developer', 'deployer'],
+      memberIDs: ['ld-ada'],
+    }));
+    expect(getTeamMappingByGroupAliceId('group-eng')?.applied).toEqual({
+      name: 'Engineering',
+      customRoles: ['developer', 'deployer'],
+      memberIds: ['ld-ada'],
+    });
+  }));
+
+  it('patches the difference from the state last applied', () => runWithDatabase(db, async () => {
+    const teamsClient = fakeTeamsClient();
+    const teamSync = createTeamSync(createTestConfig(MAPPINGS), teamsClient as unknown as LaunchDarklyTeamsClient);
+    await teamSync.syncGroup(getGroupByAliceId('group-eng')!);
+
+    addGroupMembers('group-eng', ['alice-bob']);
+    removeGroupMembers('group-eng', ['alice-ada']);
+    await teamSync.syncGroup(updateGroup('group-eng', { displayName: 'Platform Engineering' })!);
+
+    expect(teamsClient.patchTeam).toHaveBeenLastCalledWith('engineering', [
+      { kind: 'updateName', value: 'Platform Engineering' },
+      { kind: 'removeCustomRoles', values: ['developer', 'deployer'] },
+      { kind: 'addMembers', values: ['ld-bob'] },
+      { kind: 'removeMembers', values: ['ld-ada'] },
+    ], 'Updated by SCIM Gateway');
+
+    // Nothing left to apply
+    teamsClient.patchTeam.mockClear();
+    await teamSync.syncGroup(getGroupByAliceId('group-eng')!);
+    expect(teamsClient.patchTeam).not.toHaveBeenCalled();
+  }));
+
+  it('removes roles dropped from the group mappings since the last sync', () => runWithDatabase(db, async () => {
+    const config = createTestConfig(MAPPINGS);
+    const teamsClient = fakeTeamsClient();
+    const teamSync = createTeamSync(config, teamsClient as unknown as LaunchDarklyTeamsClient);
+    await teamSync.syncGroup(getGroupByAliceId('group-eng')!);
+
+    // As a reload of mappings.yaml would
+    config.mappings = createTestConfig(MAPPINGS.replace(', "deployer"', ', "reviewer"')).mappings;
+    await teamSync.syncGroup(getGroupByAliceId('group-eng')!);
+
+    expect(teamsClient.patchTeam).toHaveBeenLastCalledWith('engineering', [
+      { kind: 'addCustomRoles', values: ['reviewer'] },
+      { kind: 'removeCustomRoles', values: ['deployer'] },
+    ], 'Updated by SCIM Gateway');
+  }));
+
+  it('adds users whose create was queued once their member exists', () => runWithDatabase(db, async () => {
+    createUserMapping('alice-carol', null, PENDING_LD_ID, 'carol@example.com');
+    addGroupMembers('group-eng', ['alice-carol']);
+    const teamsClient = fakeTeamsClient();
+    const teamSync = createTeamSync(createTestConfig(MAPPINGS), teamsClient as unknown as LaunchDarklyTeamsClient);
+
+    await teamSync.syncGroup(getGroupByAliceId('group-eng')!);
+    expect(teamsClient.createTeam).toHaveBeenCalledWith(expect.objectContaining({ memberIDs: ['ld-ada'] }));
+
+    updateUserMapping('alice-carol', { ldId: 'ld-carol', ldUserName: 'carol@example.com' });
+    await teamSync.syncGroup(getGroupByAliceId('group-eng')!);
+    expect(teamsClient.patchTeam).toHaveBeenLastCalledWith(
+      'engineering', [{ kind: 'addMembers', values: ['ld-carol'] }], 'Updated by SCIM Gateway'
+    );
+  }));
+
+  it('links an existing team, diffing against its live roles', () => runWithDatabase(db, async () => {
+    const teamsClient = fakeTeamsClient();
+    teamsClient.createTeam.mockRejectedValueOnce(new LdApiError(409, 'Team already exists'));
+    teamsClient.getTeam.mockResolvedValueOnce({
+      key: 'engineering',
+      name: 'engineering',
+      roles: { items: [{ key: 'developer' }, { key: 'admin-everything' }] },
+    });
+
+    await createTeamSync(createTestConfig(MAPPINGS), teamsClient as unknown as LaunchDarklyTeamsClient)
+      .syncGroup(getGroupByAliceId('group-eng')!);
+
+    expect(teamsClient.patchTeam).toHaveBeenCalledWith('engineering', [
+      { kind: 'updateName', value: 'Engineering' },
+      { kind: 'addCustomRoles', values: ['deployer'] },
+      { kind: 'removeCustomRoles', values: ['admin-everything'] },
+      { kind: 'addMembers', values: ['ld-ada'] },
+    ], 'Linked by SCIM Gateway');
+    expect(getTeamMappingByGroupAliceId('group-eng')?.ldTeamKey).toBe('engineering');
+  }));
+});
@@ -0,0 +1,194 @@
+/**
+ * Team Sync
+ *
+ * Mirrors Alice groups onto LaunchDarkly Teams. Each group maps to one team;
+ * the team's custom roles come from the group mappings and its members are the
+ * LaunchDarkly members correlated with the group's users. The name, roles and
+ * members last applied to each team are recorded, and each sync patches the
+ * difference from them.
+ */
+
+import { AppConfig } from '../config/index.js';
+import { GroupRecord, getGroupMembers } from '../db/groups.js';
+import { getUserMappingByAliceId, isPendingLdUser } from '../db/user-mapping.js';
+import {
+  AppliedTeamState,
+  createTeamMapping,
+  deleteTeamMapping,
+  getTeamMappingByGroupAliceId,
+  updateTeamAppliedState,
+} from '../db/team-mapping.js';
+import {
+  LaunchDarklyTeamsClient,
+  LdApiError,
+  LdTeamInstruction,
+} from '../scim/client/launchdarkly-teams.js';
+import { deriveGroupCustomRoles } from './transformer.js';
+import { getLogger } from '../middleware/logging.js';
+
+export type TeamSync = ReturnType<typeof createTeamSync>;
+
+/**
+ * Create the team sync service
+ */
+export function createTeamSync(config: AppConfig, teamsClient: LaunchDarklyTeamsClient) {
+  /**
+   * Resolve Alice user IDs to LaunchDarkly member IDs. Users whose create is
+   * still queued have no member yet; they are added once it is applied.
+   */
+  function toLdMemberIds(userAliceIds: string[]): string[] {
+    return userAliceIds.flatMap((id) => {
+      const mapping = getUserMappingByAliceId(id);
+      return mapping && !isPendingLdUser(mapping) ? [mapping.ldId] : [];
+    });
+  }
+
+  /**
+   * The team a group should have: its name, the roles the current group
+   * mappings give it and its members' LaunchDarkly IDs
+   */
+  function desiredState(group: GroupRecord): AppliedTeamState {
+    return {
+      name: group.displayName,
+      customRoles: deriveGroupCustomRoles([group.displayName], config.mappings),
+      memberIds: toLdMemberIds(getGroupMembers(group.aliceId).map((m) => m.userAliceId)),
+    };
+  }
+
+  /**
+   * Instructions that turn a team from one state into another. Members and
+   * roles the gateway did not apply are left alone.
+   */
+  function diffTeam(from: AppliedTeamState, to: AppliedTeamState): LdTeamInstruction[] {
+    const instructions: LdTeamInstruction[] = [];
+    if (from.name !== to.name) {
+      instructions.push({ kind: 'updateName', value: to.name });
+    }
+
+    const rolesToAdd = to.customRoles.filter((r) => !from.customRoles.includes(r));
+    const rolesToRemove = from.customRoles.filter((r) => !to.customRoles.includes(r));
+    if (rolesToAdd.length > 0) {
+      instructions.push({ kind: 'addCustomRoles', values: rolesToAdd });
+    }
+    if (rolesToRemove.length > 0) {
+      instructions.push({ kind: 'removeCustomRoles', values: rolesToRemove });
+    }
+
+    const membersToAdd = to.memberIds.filter((id) => !from.memberIds.includes(id));
+    const membersToRemove = from.memberIds.filter((id) => !to.memberIds.includes(id));
+    if (membersToAdd.length > 0) {
+      instructions.push({ kind: 'addMembers', values: membersToAdd });
+    }
+    if (membersToRemove.length > 0) {
+      instructions.push({ kind: 'removeMembers', values: membersToRemove });
+    }
+    return instructions;
+  }
+
+  /**
+   * The state of a team as far as it is known: the live name and roles from
+   * LaunchDarkly, and no members, so none are removed. Used for teams the
+   * gateway has no applied state for.
+   */
+  async function liveState(teamKey: string): Promise<AppliedTeamState> {
+    const team = await teamsClient.getTeam(teamKey);
+    return {
+      name: team.name,
+      customRoles: team.roles?.items?.map((role) => role.key) ?? [],
+      memberIds: [],
+    };
+  }
+
+  /**
+   * Create or update the LaunchDarkly team for a group, diffing against the
+   * state last applied to it
+   */
+  async function syncGroup(group: GroupRecord): Promise<void> {
+    const desired = desiredState(group);
+    const mapping = getTeamMappingByGroupAliceId(group.aliceId);
+
+    if (!mapping) {
+      const teamKey = toTeamKey(group);
+
+      try {
+        await teamsClient.createTeam({
+          key: teamKey,
+          name: desired.name,
+          description: `Synced from Alice group "${group.displayName}" by SCIM Gateway`,
+          customRoleKeys: desired.customRoles,
+          memberIDs: desired.memberIds,
+        });
+      } catch (error) {
+        if (!(error instanceof LdApiError && error.status === 409)) {
+          throw error;
+        }
+
+        // A team with this key already exists in LD - link it and bring it in line
+        getLogger().warn({ teamKey, groupId: group.aliceId }, 'Linking existing LD team to group');
+        const instructions = diffTeam(await liveState(teamKey), desired);
+        if (instructions.length > 0) {
+          await teamsClient.patchTeam(teamKey, instructions, 'Linked by SCIM Gateway');
+        }
+      }
+
+      createTeamMapping(group.aliceId, teamKey, desired);
+      getLogger().info({ teamKey, groupId: group.aliceId, customRoles: desired.customRoles }, 'Team synced for group');
+      return;
+    }
+
+    const applied = mapping.applied ?? await liveState(mapping.ldTeamKey);
+    const instructions = diffTeam(applied, desired);
+    if (instructions.length > 0) {
+      await teamsClient.patchTeam(mapping.ldTeamKey, instructions, 'Updated by SCIM Gateway');
+      getLogger().info(
+        {
+          teamKey: mapping.ldTeamKey,
+          groupId: group.aliceId,
+          instructions: instructions.map((i) => i.kind),
+          customRoles: desired.customRoles,
+        },
+        'Team synced for group'
+      );
+    }
+    if (instructions.length > 0 || !mapping.applied) {
+      updateTeamAppliedState(group.aliceId, desired);
+    }
+  }
+
+  return {
+    syncGroup,
+
+    /**
+     * Delete the LaunchDarkly team linked to a group
+     */
+    async deleteTeam(groupAliceId: string): Promise<void> {
+      const mapping = getTeamMappingByGroupAliceId(groupAliceId);
+      if (!mapping) {
+        return;
+      }
+
+      try {
+        await teamsClient.deleteTeam(mapping.ldTeamKey);
+      } catch (error) {
+        // If already deleted in LD, continue to clean up mapping
+        if (!(error instanceof LdApiError && error.status === 404)) {
+          throw error;
+        }
+      }
+
+      deleteTeamMapping(groupAliceId);
+      getLogger().info({ teamKey: mapping.ldTeamKey, groupId: groupAliceId }, 'Team deleted for group');
+    },
+  };
+}
+
+/**
+ * Derive a LaunchDarkly team key from a group's displayName
+ */
+function toTeamKey(group: GroupRecord): string {
+  const key = group.displayName
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return key || group.aliceId;
+}
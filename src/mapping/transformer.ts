@@ -2,58 +2,86 @@
  * Role Mapping Transformer
  * 
  * Transforms Alice SCIM User resources to LaunchDarkly SCIM User resources.
- * Maps Alice's roles[] attribute to LaunchDarkly's customRole attribute.
+ * Maps Alice's roles[] attribute, group memberships and role rules to
+ * LaunchDarkly's customRole and role attributes.
  */
 
 import { MappingConfig } from '../config/index.js';
-import { ScimCoreUser, ScimRole, SCIM_CORE_USER_SCHEMA } from '../scim/schemas/core.js';
+import { ScimCoreUser, ScimPatchOperation, ScimRole, SCIM_CORE_USER_SCHEMA } from '../scim/schemas/core.js';
 import {
   LdScimUserCreatePayload,
+  LdScimUserResponse,
   LD_SCIM_EXTENSION_SCHEMA,
   LdScimExtension,
+  LdBuiltInRole,
 } from '../scim/schemas/launchdarkly.js';
-import { logger } from '../middleware/logging.js';
+import { getLogger } from '../middleware/logging.js';
+import { recordRoleMappingEvaluation } from '../middleware/metrics.js';
+import { withSpan } from '../middleware/tracing.js';
+import { evaluateRoleRules } from './rules.js';
+import { applyAttributeMappings } from './attributes.js';
+
+/**
+ * LaunchDarkly roles derived for an Alice user
+ */
+export interface DerivedRoles {
+  customRoles: string[];
+  /** Base role set by a matched mapping entry or role rule, if any */
+  baseRole?: LdBuiltInRole;
+}
 
 /**
  * Transform an Alice SCIM User to a LaunchDarkly SCIM User payload
+ *
+ * @param groupNames displayNames of the gateway groups the user belongs to
+ * @param approvedEntries mapping entries marked requiresApproval that were approved for the user
  */
 export function transformAliceUserToLdUser(
   aliceUser: ScimCoreUser,
-  config: MappingConfig
+  config: MappingConfig,
+  groupNames: string[] = [],
+  approvedEntries: string[] = []
 ): LdScimUserCreatePayload {
-  // Extract custom roles from Alice's roles
-  const customRoles = deriveCustomRoles(aliceUser.roles || [], config);
+  // Resolve roles from Alice's roles, group memberships and role rules
+  const { customRoles, baseRole } = resolveRoles(aliceUser, config, groupNames, approvedEntries);
 
   // Build the LD extension
   const ldExtension: LdScimExtension = {};
 
+  if (baseRole) {
+    ldExtension.role = baseRole;
+  }
+
   if (customRoles.length > 0) {
     ldExtension.customRole = customRoles;
-    logger.debug(
-      { userName: aliceUser.userName, customRoles },
+    getLogger().debug(
+      { userName: aliceUser.userName, customRoles, baseRole },
       'Mapped Alice roles to LD custom roles'
     );
-  } else {
+  } else if (!baseRole) {
     // No custom roles matched, use default base role
     ldExtension.role = config.defaultRole;
-    logger.debug(
+    getLogger().debug(
       { userName: aliceUser.userName, defaultRole: config.defaultRole },
       'No role mappings matched, using default role'
     );
   }
 
+  // Profile attributes are sent as the attribute mappings transform them
+  const mapped = applyAttributeMappings(aliceUser, config);
+
   // Extract email from Alice user - emails is REQUIRED by LaunchDarkly SCIM API
   // Use emails array if provided, otherwise derive from userName
   let emails: Array<{ value: string; primary?: boolean; type?: string }>;
-  if (aliceUser.emails && aliceUser.emails.length > 0) {
-    emails = aliceUser.emails.map((email) => ({
+  if (mapped.emails && mapped.emails.length > 0) {
+    emails = mapped.emails.map((email) => ({
       value: email.value,
       primary: email.primary,
       type: email.type || 'work',
     }));
-  } else if (aliceUser.userName) {
+  } else if (mapped.userName) {
     // Fallback: use userName as email if emails not provided
-    emails = [{ value: aliceUser.userName, primary: true, type: 'work' }];
+    emails = [{ value: mapped.userName, primary: true, type: 'work' }];
   } else {
     throw new Error('User must have either emails array or userName (which will be used as email)');
   }
@@ -65,16 +93,17 @@ export function transformAliceUserToLdUser(
       LD_SCIM_EXTENSION_SCHEMA,
     ],
     emails, // REQUIRED by LaunchDarkly SCIM API
-    userName: aliceUser.userName, // Optional, defaults to email if not provided
-    active: aliceUser.active ?? true,
+    userName: mapped.userName, // Optional, defaults to email if not provided
+    // A downgraded member stays active, with no access (see resolveRoles)
+    active: isDowngraded(aliceUser, config) || (aliceUser.active ?? true),
     [LD_SCIM_EXTENSION_SCHEMA]: ldExtension,
   };
 
   // Add optional name if provided
-  if (aliceUser.name) {
+  if (mapped.name) {
     ldUser.name = {
-      givenName: aliceUser.name.givenName,
-      familyName: aliceUser.name.familyName,
+      givenName: mapped.name.givenName,
+      familyName: mapped.name.familyName,
     };
   }
 
@@ -87,49 +116,240 @@ export function transformAliceUserToLdUser(
 }
 
 /**
- * Derive LaunchDarkly custom roles from Alice roles
+ * A mapping entry (role mapping, group mapping or role rule) that matched a user
  */
-function deriveCustomRoles(
-  aliceRoles: ScimRole[],
-  config: MappingConfig
-): string[] {
-  const customRoles: Set<string> = new Set();
+export interface MatchedEntry {
+  /** The entry: role:<aliceRole>, group:<aliceGroup> or rule:<name> */
+  source: string;
+  customRoles: string[];
+  baseRole?: LdBuiltInRole;
+  requiresApproval?: boolean;
+}
 
-  for (const aliceRole of aliceRoles) {
-    const roleValue = aliceRole.value;
+/**
+ * Base roles ordered by privilege, used by the highest_privilege precedence
+ */
+const BASE_ROLE_PRIVILEGE: Record<LdBuiltInRole, number> = {
+  no_access: 0,
+  reader: 1,
+  writer: 2,
+  admin: 3,
+};
 
-    // Find matching mapping
-    const mapping = config.roleMappings.find(
-      (m) => m.aliceRole === roleValue
-    );
+/**
+ * Find the role mappings matching Alice roles, in mapping order
+ */
+function matchRoleMappings(
+  aliceRoles: ScimRole[],
+  config: MappingConfig
+): MatchedEntry[] {
+  const roleValues = new Set(aliceRoles.map((r) => r.value));
 
-    if (mapping) {
-      for (const ldRole of mapping.ldCustomRoles) {
-        customRoles.add(ldRole);
-      }
-      logger.debug(
-        { aliceRole: roleValue, ldCustomRoles: mapping.ldCustomRoles },
-        'Role mapping matched'
-      );
-    } else {
-      logger.debug(
+  for (const roleValue of roleValues) {
+    if (!config.roleMappings.some((m) => m.aliceRole === roleValue)) {
+      getLogger().debug(
         { aliceRole: roleValue },
         'No mapping found for Alice role'
       );
     }
   }
 
+  return config.roleMappings
+    .filter((m) => roleValues.has(m.aliceRole))
+    .map((mapping) => {
+      getLogger().debug(
+        { aliceRole: mapping.aliceRole, ldCustomRoles: mapping.ldCustomRoles, ldRole: mapping.ldRole },
+        'Role mapping matched'
+      );
+      return {
+        source: `role:${mapping.aliceRole}`,
+        customRoles: mapping.ldCustomRoles,
+        baseRole: mapping.ldRole,
+        requiresApproval: mapping.requiresApproval,
+      };
+    });
+}
+
+/**
+ * Find the group mappings matching the displayNames of Alice groups, in mapping order
+ */
+function matchGroupMappings(
+  groupNames: string[],
+  config: MappingConfig
+): MatchedEntry[] {
+  return config.groupMappings
+    .filter((m) => groupNames.includes(m.aliceGroup))
+    .map((mapping) => {
+      getLogger().debug(
+        { aliceGroup: mapping.aliceGroup, ldCustomRoles: mapping.ldCustomRoles, ldRole: mapping.ldRole },
+        'Group mapping matched'
+      );
+      return {
+        source: `group:${mapping.aliceGroup}`,
+        customRoles: mapping.ldCustomRoles,
+        baseRole: mapping.ldRole,
+        requiresApproval: mapping.requiresApproval,
+      };
+    });
+}
+
+/**
+ * Derive LaunchDarkly custom roles from the displayNames of Alice groups.
+ * Entries marked requiresApproval are left out, since they are approved per user.
+ */
+export function deriveGroupCustomRoles(
+  groupNames: string[],
+  config: MappingConfig
+): string[] {
+  const customRoles = new Set(
+    matchGroupMappings(groupNames, config).filter((m) => !m.requiresApproval).flatMap((m) => m.customRoles)
+  );
   return Array.from(customRoles);
 }
 
 /**
- * Extract custom roles from an Alice user for comparison
+ * Extract custom roles from an Alice user (roles, group memberships and role rules)
  */
 export function extractCustomRolesFromAliceUser(
   aliceUser: ScimCoreUser,
-  config: MappingConfig
+  config: MappingConfig,
+  groupNames: string[] = []
 ): string[] {
-  return deriveCustomRoles(aliceUser.roles || [], config);
+  return resolveRoles(aliceUser, config, groupNames).customRoles;
+}
+
+/**
+ * Whether an inactive user's member is downgraded rather than deactivated,
+ * under the deprovisioning policy's on_deactivate setting
+ */
+export function isDowngraded(aliceUser: ScimCoreUser, config: MappingConfig): boolean {
+  return aliceUser.active === false && config.deprovisioning.onDeactivate === 'downgrade';
+}
+
+/**
+ * Resolve the custom roles and base role for an Alice user from role mappings,
+ * group mappings and role rules, applying the configured precedence. Users
+ * downgraded for being inactive get no_access and no custom roles. Entries
+ * marked requiresApproval only count once approved for the user.
+ *
+ * This is the single place roles are resolved, so user creation, PUT, PATCH
+ * and group changes always agree.
+ *
+ * @param approvedEntries sources of the approved entries, see MatchedEntry
+ */
+export function resolveRoles(
+  aliceUser: ScimCoreUser,
+  config: MappingConfig,
+  groupNames: string[] = [],
+  approvedEntries: string[] = []
+): DerivedRoles {
+  if (isDowngraded(aliceUser, config)) {
+    return { customRoles: [], baseRole: 'no_access' };
+  }
+
+  return withSpan('mapping.resolve_roles', { attributes: { 'mapping.precedence': config.rolePrecedence } }, (span) => {
+    const matches = matchEntries(aliceUser, config, groupNames);
+    span.setAttribute('mapping.matched_entries', matches.map((m) => m.source));
+
+    const held = matches.filter((m) => m.requiresApproval && !approvedEntries.includes(m.source));
+    if (held.length > 0) {
+      span.setAttribute('mapping.held_entries', held.map((m) => m.source));
+      getLogger().debug({ userName: aliceUser.userName, held: held.map((m) => m.source) }, 'Mapping entries held for approval');
+    }
+
+    return applyPrecedence(aliceUser, config, matches.filter((m) => !held.includes(m)));
+  });
+}
+
+/**
+ * Mapping entries marked requiresApproval that match a user, approved or
+ * not. Users downgraded for being inactive match none.
+ */
+export function matchApprovalEntries(
+  aliceUser: ScimCoreUser,
+  config: MappingConfig,
+  groupNames: string[] = []
+): MatchedEntry[] {
+  if (isDowngraded(aliceUser, config)) {
+    return [];
+  }
+  return matchEntries(aliceUser, config, groupNames).filter((m) => m.requiresApproval);
+}
+
+/**
+ * Every mapping entry matching a user, in the order role_mappings,
+ * group_mappings, then role_rules by priority
+ */
+function matchEntries(aliceUser: ScimCoreUser, config: MappingConfig, groupNames: string[]): MatchedEntry[] {
+  return [
+    ...matchRoleMappings(aliceUser.roles || [], config),
+    ...matchGroupMappings(groupNames, config),
+    ...evaluateRoleRules(aliceUser, config.roleRules).map((rule) => ({
+      source: `rule:${rule.name}`,
+      customRoles: rule.customRoles,
+      baseRole: rule.baseRole,
+      requiresApproval: rule.requiresApproval,
+    })),
+  ];
+}
+
+/**
+ * Combine matched mapping entries into roles according to the configured precedence
+ */
+function applyPrecedence(aliceUser: ScimCoreUser, config: MappingConfig, matches: MatchedEntry[]): DerivedRoles {
+  if (config.rolePrecedence === 'first_match') {
+    const first = matches[0];
+    if (!first) {
+      return { customRoles: [] };
+    }
+    getLogger().debug({ userName: aliceUser.userName, source: first.source }, 'First matching mapping entry applied');
+    return { customRoles: Array.from(new Set(first.customRoles)), baseRole: first.baseRole };
+  }
+
+  // highest_privilege: combine custom roles, keep the most privileged base role
+  const customRoles = new Set(matches.flatMap((m) => m.customRoles));
+  let baseRole: LdBuiltInRole | undefined;
+  for (const match of matches) {
+    if (match.baseRole && (!baseRole || BASE_ROLE_PRIVILEGE[match.baseRole] > BASE_ROLE_PRIVILEGE[baseRole])) {
+      baseRole = match.baseRole;
+    }
+  }
+
+  return { customRoles: Array.from(customRoles), baseRole };
+}
+
+/**
+ * Count a hit or miss for every mapping entry, and for the default role,
+ * which applies when no entry matched. Entries held for approval count as
+ * misses. Call it once a user's roles are provisioned to the primary
+ * account; resolveRoles does not count, since previews, diffs and dry runs
+ * resolve roles too.
+ *
+ * @param groupNames and approvedEntries as given to transformAliceUserToLdUser
+ */
+export function recordRoleMappingResults(
+  aliceUser: ScimCoreUser,
+  config: MappingConfig,
+  groupNames: string[] = [],
+  approvedEntries: string[] = []
+): void {
+  if (isDowngraded(aliceUser, config)) {
+    return;
+  }
+
+  const matches = matchEntries(aliceUser, config, groupNames)
+    .filter((m) => !m.requiresApproval || approvedEntries.includes(m.source));
+  const matched = new Set(matches.map((m) => m.source));
+  for (const mapping of config.roleMappings) {
+    recordRoleMappingEvaluation('role', mapping.aliceRole, matched.has(`role:${mapping.aliceRole}`));
+  }
+  for (const mapping of config.groupMappings) {
+    recordRoleMappingEvaluation('group', mapping.aliceGroup, matched.has(`group:${mapping.aliceGroup}`));
+  }
+  for (const rule of config.roleRules) {
+    recordRoleMappingEvaluation('rule', rule.name, matched.has(`rule:${rule.name}`));
+  }
+  recordRoleMappingEvaluation('default', config.defaultRole, matches.length === 0);
 }
 
 /**
@@ -155,3 +375,77 @@ export function shouldUpdateRoles(
   return false;
 }
 
+
+/**
+ * Read the custom role keys currently assigned to a LaunchDarkly member
+ */
+export function getLdCustomRoles(ldUser: LdScimUserResponse): string[] {
+  return ldUser[LD_SCIM_EXTENSION_SCHEMA]?.customRole
+    ?? ldUser.customRolesArray
+    ?? (ldUser.customRole ? ldUser.customRole.split(',').map((r) => r.trim()) : []);
+}
+
+/**
+ * Reconstruct the Alice view of a LaunchDarkly member.
+ *
+ * LD custom roles are mapped back to the Alice role values whose mapped
+ * custom roles are all assigned, so PATCH operations on roles[] can be
+ * applied to the user's current state.
+ */
+export function transformLdUserToAliceUser(
+  ldUser: LdScimUserResponse,
+  config: MappingConfig
+): ScimCoreUser {
+  const ldRoles = new Set(getLdCustomRoles(ldUser));
+  const roles = config.roleMappings
+    .filter((m) => m.ldCustomRoles.length > 0 && m.ldCustomRoles.every((r) => ldRoles.has(r)))
+    .map((m) => ({ value: m.aliceRole }));
+
+  return {
+    schemas: [SCIM_CORE_USER_SCHEMA],
+    userName: ldUser.userName,
+    externalId: ldUser.externalId,
+    name: ldUser.name,
+    active: ldUser.active,
+    emails: ldUser.emails,
+    roles,
+  };
+}
+
+/**
+ * Translate the difference between two LD user payloads into SCIM PATCH
+ * operations for the LaunchDarkly SCIM API
+ */
+export function buildLdPatchOperations(
+  current: LdScimUserCreatePayload,
+  updated: LdScimUserCreatePayload
+): ScimPatchOperation[] {
+  const operations: ScimPatchOperation[] = [];
+
+  for (const attribute of ['userName', 'externalId', 'active', 'name', 'emails'] as const) {
+    if (JSON.stringify(current[attribute]) === JSON.stringify(updated[attribute])) {
+      continue;
+    }
+    operations.push(
+      updated[attribute] === undefined
+        ? { op: 'remove', path: attribute }
+        : { op: 'replace', path: attribute, value: updated[attribute] }
+    );
+  }
+
+  const currentExtension = current[LD_SCIM_EXTENSION_SCHEMA] ?? {};
+  const updatedExtension = updated[LD_SCIM_EXTENSION_SCHEMA] ?? {};
+  if (
+    currentExtension.role !== updatedExtension.role ||
+    shouldUpdateRoles(currentExtension.customRole, updatedExtension.customRole ?? [])
+  ) {
+    // Always send customRole so that removing the last mapped role clears it in LD
+    const extension: LdScimExtension = { customRole: updatedExtension.customRole ?? [] };
+    if (updatedExtension.role) {
+      extension.role = updatedExtension.role;
+    }
+    operations.push({ op: 'replace', path: LD_SCIM_EXTENSION_SCHEMA, value: extension });
+  }
+
+  return operations;
+}
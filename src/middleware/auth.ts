@@ -1,36 +1,119 @@
 import type { Request, Response, NextFunction } from 'express';
 import { createScimError } from '../scim/schemas/core.js';
-import { logger } from './logging.js';
+import { checkInboundToken, tokensEqual } from '../auth/inbound-tokens.js';
+import { JwtPrincipal, JwtValidationError, JwtVerifier } from '../auth/jwt.js';
+import { logger, withLogBindings } from './logging.js';
+
+/**
+ * Who authenticated a SCIM request. Set in res.locals.principal and added to
+ * every log line written for the request.
+ */
+export type Principal =
+  | { scheme: 'gateway_token' }
+  | { scheme: 'issued_token'; tokenId: string; label: string }
+  | ({ scheme: 'jwt' } & JwtPrincipal);
 
 /**
  * Bearer token authentication middleware
- * Validates that incoming requests from Alice have a valid Bearer token
+ * Validates that incoming requests have the expected Bearer token
  */
 export function bearerTokenAuth(expectedToken: string) {
   return (req: Request, res: Response, next: NextFunction): void => {
-    const authHeader = req.headers.authorization;
+    const token = readBearerToken(req, res);
+    if (token === null) {
+      return;
+    }
 
-    if (!authHeader) {
-      logger.warn({ url: req.url }, 'Missing Authorization header');
-      res.status(401).json(createScimError(401, 'Missing Authorization header', 'unauthorized'));
+    if (!tokensEqual(token, expectedToken)) {
+      logger.warn({ url: req.url }, 'Invalid bearer token');
+      res.status(401).json(createScimError(401, 'Invalid bearer token', 'unauthorized'));
       return;
     }
 
-    const [scheme, token] = authHeader.split(' ');
+    next();
+  };
+}
 
-    if (scheme?.toLowerCase() !== 'bearer') {
-      logger.warn({ url: req.url, scheme }, 'Invalid authorization scheme');
-      res.status(401).json(createScimError(401, 'Invalid authorization scheme. Expected Bearer', 'unauthorized'));
+/**
+ * Authentication middleware for the SCIM endpoints
+ * Accepts the tokens issued into the tenant's database (see src/cli/tokens.ts),
+ * the GATEWAY_BEARER_TOKEN variable when set and, with a JWT verifier, JWTs
+ * signed by the IdP
+ */
+export function inboundTokenAuth(staticToken?: string, jwtVerifier?: JwtVerifier) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = readBearerToken(req, res);
+    if (token === null) {
       return;
     }
 
-    if (!token || token !== expectedToken) {
-      logger.warn({ url: req.url }, 'Invalid bearer token');
+    const authenticated = (principal: Principal): void => {
+      res.locals.principal = principal;
+      withLogBindings({ principal }, next);
+    };
+
+    if (staticToken && tokensEqual(token, staticToken)) {
+      authenticated({ scheme: 'gateway_token' });
+      return;
+    }
+
+    if (jwtVerifier?.isJwt(token)) {
+      let principal: JwtPrincipal;
+      try {
+        principal = await jwtVerifier.verify(token);
+      } catch (error) {
+        if (!(error instanceof JwtValidationError)) {
+          logger.error({ url: req.url, error: error instanceof Error ? error.message : String(error) }, 'Unable to verify bearer JWT');
+          res.status(503).json(createScimError(503, 'Unable to verify the bearer token, try again later'));
+          return;
+        }
+        logger.warn({ url: req.url, reason: error.message }, 'Invalid bearer JWT');
+        const code = error.status === 403 ? 'insufficient_scope' : 'invalid_token';
+        res.setHeader('WWW-Authenticate', `Bearer error="${code}", error_description="${error.message.replace(/"/g, "'")}"`);
+        res.status(error.status).json(createScimError(error.status, error.message, error.status === 401 ? 'unauthorized' : undefined));
+        return;
+      }
+      authenticated({ scheme: 'jwt', ...principal });
+      return;
+    }
+
+    const check = checkInboundToken(token);
+    if (check.status !== 'valid') {
+      const rejected = check.status === 'unknown' ? undefined : check.token;
+      logger.warn({ url: req.url, tokenId: rejected?.id, tokenLabel: rejected?.label }, `Invalid bearer token (${check.status})`);
       res.status(401).json(createScimError(401, 'Invalid bearer token', 'unauthorized'));
       return;
     }
 
-    next();
+    authenticated({ scheme: 'issued_token', tokenId: check.token.id, label: check.token.label });
   };
 }
 
+/**
+ * Bearer token of a request. Responds with 401 and returns null when there is none.
+ */
+function readBearerToken(req: Request, res: Response): string | null {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader) {
+    logger.warn({ url: req.url }, 'Missing Authorization header');
+    res.status(401).json(createScimError(401, 'Missing Authorization header', 'unauthorized'));
+    return null;
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+
+  if (scheme?.toLowerCase() !== 'bearer') {
+    logger.warn({ url: req.url, scheme }, 'Invalid authorization scheme');
+    res.status(401).json(createScimError(401, 'Invalid authorization scheme. Expected Bearer', 'unauthorized'));
+    return null;
+  }
+
+  if (!token) {
+    logger.warn({ url: req.url }, 'Invalid bearer token');
+    res.status(401).json(createScimError(401, 'Invalid bearer token', 'unauthorized'));
+    return null;
+  }
+
+  return token;
+}
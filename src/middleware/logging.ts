@@ -1,11 +1,20 @@
-import pino from 'pino';
+import pino, { Logger } from 'pino';
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
 import type { Request, Response, NextFunction } from 'express';
+import { currentTraceId, injectTraceHeaders } from './tracing.js';
+
+/**
+ * Fields added to every log line written in the current async context
+ */
+const logBindings = new AsyncLocalStorage<Record<string, unknown>>();
 
 /**
  * Application logger instance
  */
 export const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
+  mixin: () => logBindings.getStore() ?? {},
   transport:
     process.env.NODE_ENV !== 'production'
       ? {
@@ -20,13 +29,67 @@ export const logger = pino({
 });
 
 /**
- * Express middleware for request logging
+ * Run fn, and everything it starts, with fields added to every log line
+ */
+export function withLogBindings<T>(bindings: Record<string, unknown>, fn: () => T): T {
+  return logBindings.run({ ...logBindings.getStore(), ...bindings }, fn);
+}
+
+/**
+ * Correlation ID and logger of the inbound request being handled
+ */
+interface RequestContext {
+  requestId: string;
+  logger: Logger;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** Inbound request IDs are kept if they look like an ID, otherwise replaced */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Logger for the current request, carrying its requestId (and traceId when
+ * tracing is enabled). Outside a request, the application logger.
+ */
+export function getLogger(): Logger {
+  return requestContext.getStore()?.logger ?? logger;
+}
+
+/**
+ * X-Request-Id of the current request, if any
+ */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Headers tying an outbound request to the inbound request and trace it is
+ * made for: X-Request-Id and, when tracing is enabled, traceparent
+ */
+export function correlationHeaders(): Record<string, string> {
+  const requestId = currentRequestId();
+  return injectTraceHeaders(requestId ? { 'X-Request-Id': requestId } : {});
+}
+
+/**
+ * Express middleware for request logging.
+ * Takes the request ID from X-Request-Id, or generates one, and echoes it in
+ * the response. Everything run for the request logs through a child logger
+ * carrying that ID.
  */
 export function requestLogger(req: Request, res: Response, next: NextFunction): void {
   const startTime = Date.now();
 
+  const header = req.get('x-request-id');
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : uuidv4();
+  res.setHeader('X-Request-Id', requestId);
+
+  const traceId = currentTraceId();
+  const requestLog = logger.child(traceId ? { requestId, traceId } : { requestId });
+
   // Log the incoming request
-  logger.info({
+  requestLog.info({
     type: 'request',
     method: req.method,
     url: req.url,
@@ -38,16 +101,17 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
     const duration = Date.now() - startTime;
     const level = res.statusCode >= 400 ? 'warn' : 'info';
 
-    logger[level]({
+    requestLog[level]({
       type: 'response',
       method: req.method,
       url: req.url,
       status: res.statusCode,
       duration: `${duration}ms`,
+      principal: res.locals.principal,
     });
   });
 
-  next();
+  requestContext.run({ requestId, logger: requestLog }, next);
 }
 
 /**
@@ -0,0 +1,180 @@
+/**
+ * Prometheus Metrics
+ *
+ * Metrics exposed on GET /metrics: inbound requests, outbound LaunchDarkly
+ * requests, OAuth token refreshes, the number of user mappings, role
+ * mapping hits and misses and writes refused by guardrails, each labelled
+ * with the tenant. Work outside any
+ * tenant, such as /health, has an empty tenant label. Default Node.js
+ * process metrics are included.
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { Request, Response, NextFunction } from 'express';
+import { currentTenant } from '../tenants/context.js';
+
+const PREFIX = 'scim_gateway_';
+
+/**
+ * Registry holding every gateway metric
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+const httpRequests = new Counter({
+  name: `${PREFIX}http_requests_total`,
+  help: 'Inbound HTTP requests by method, route and status',
+  labelNames: ['tenant', 'method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: `${PREFIX}http_request_duration_seconds`,
+  help: 'Inbound HTTP request latency by method, route and status',
+  labelNames: ['tenant', 'method', 'route', 'status'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+const ldRequests = new Counter({
+  name: `${PREFIX}ld_requests_total`,
+  help: 'Outbound LaunchDarkly request attempts by client, LD account, method and status (timeout, network_error or circuit_open when no response was received)',
+  labelNames: ['tenant', 'client', 'target', 'method', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+const ldRequestDuration = new Histogram({
+  name: `${PREFIX}ld_request_duration_seconds`,
+  help: 'Outbound LaunchDarkly request attempt latency by client, LD account, method and status',
+  labelNames: ['tenant', 'client', 'target', 'method', 'status'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+const tokenRefreshes = new Counter({
+  name: `${PREFIX}token_refreshes_total`,
+  help: 'LaunchDarkly OAuth token refreshes by LD account and result',
+  labelNames: ['tenant', 'target', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+const tokenExpiry = new Gauge({
+  name: `${PREFIX}token_expiry_timestamp_seconds`,
+  help: 'Unix time at which the current LaunchDarkly OAuth token of each LD account expires',
+  labelNames: ['tenant', 'target'] as const,
+  registers: [metricsRegistry],
+});
+
+/** Row counters of each tenant's user_mappings table, read on every scrape */
+const userMappingCounters = new Map<string, () => number>();
+
+new Gauge({
+  name: `${PREFIX}user_mappings`,
+  help: 'Rows in the user_mappings table',
+  labelNames: ['tenant'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    for (const [tenant, count] of userMappingCounters) {
+      this.set({ tenant }, count());
+    }
+  },
+});
+
+const roleMappingEvaluations = new Counter({
+  name: `${PREFIX}role_mapping_evaluations_total`,
+  help: 'Role mapping entries checked when resolving a user\'s roles, by kind (role, group, rule or default), name and result (hit or miss)',
+  labelNames: ['tenant', 'kind', 'name', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+const guardrailViolations = new Counter({
+  name: `${PREFIX}guardrail_violations_total`,
+  help: 'LaunchDarkly writes refused by guardrails, by LD account and guardrail (email_domain, protected_member, custom_role or base_role)',
+  labelNames: ['tenant', 'target', 'rule'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Outcome of an outbound request attempt: the HTTP status, or why there was none
+ */
+export type LdRequestOutcome = number | 'timeout' | 'network_error' | 'circuit_open';
+
+/**
+ * Record an outbound LaunchDarkly request attempt
+ *
+ * @param target the LD account: PRIMARY_TARGET or a name from LD_TARGETS
+ * @param startedAt Date.now() when the attempt was sent, omitted if it never was
+ */
+export function recordLdRequest(
+  client: 'scim' | 'teams',
+  target: string,
+  method: string,
+  outcome: LdRequestOutcome,
+  startedAt?: number
+): void {
+  const labels = { tenant: currentTenant() ?? '', client, target, method, status: String(outcome) };
+  ldRequests.inc(labels);
+  if (startedAt !== undefined) {
+    ldRequestDuration.observe(labels, (Date.now() - startedAt) / 1000);
+  }
+}
+
+/**
+ * Record an OAuth token refresh, with the new token's expiry on success
+ */
+export function recordTokenRefresh(target: string, expiresAt: Date | null): void {
+  const tenant = currentTenant() ?? '';
+  if (expiresAt) {
+    tokenRefreshes.inc({ tenant, target, result: 'success' });
+    tokenExpiry.set({ tenant, target }, expiresAt.getTime() / 1000);
+  } else {
+    tokenRefreshes.inc({ tenant, target, result: 'failure' });
+  }
+}
+
+/**
+ * Record whether a role mapping entry applied to a user
+ */
+export function recordRoleMappingEvaluation(
+  kind: 'role' | 'group' | 'rule' | 'default',
+  name: string,
+  hit: boolean
+): void {
+  roleMappingEvaluations.inc({ tenant: currentTenant() ?? '', kind, name, result: hit ? 'hit' : 'miss' });
+}
+
+/**
+ * Record a LaunchDarkly write refused by a guardrail
+ *
+ * @param target the LD account: PRIMARY_TARGET or a name from LD_TARGETS
+ */
+export function recordGuardrailViolation(target: string, rule: string): void {
+  guardrailViolations.inc({ tenant: currentTenant() ?? '', target, rule });
+}
+
+/**
+ * Report a tenant's user_mappings row count on each scrape
+ */
+export function trackUserMappings(tenant: string, count: () => number): void {
+  userMappingCounters.set(tenant, count);
+}
+
+/**
+ * Express middleware recording inbound request counts and latency.
+ * Requests are labelled by route pattern (e.g. /scim/v2/Users/:id) so user
+ * IDs do not end up in label values; unmatched requests share one label.
+ */
+export function requestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const startTime = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+    const tenant = (res.locals.tenant as string | undefined) ?? '';
+    const labels = { tenant, method: req.method, route, status: String(res.statusCode) };
+    httpRequests.inc(labels);
+    httpRequestDuration.observe(labels, Number(process.hrtime.bigint() - startTime) / 1e9);
+  });
+
+  next();
+}
@@ -0,0 +1,176 @@
+/**
+ * OpenTelemetry Tracing
+ *
+ * Spans for inbound request handling, role mapping, database access and
+ * outbound LaunchDarkly requests. Spans are exported over OTLP or appended
+ * to a local JSON-lines file; with no exporter configured, tracing is off
+ * and the helpers below cost next to nothing.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  Attributes,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { BatchSpanProcessor, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import type { Request, Response, NextFunction } from 'express';
+import type { TracingConfig } from '../config/index.js';
+
+const tracer = trace.getTracer('scim-gateway');
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Start exporting spans. Returns a function that flushes pending spans and
+ * stops the exporter.
+ */
+export function initTracing(config: TracingConfig): () => Promise<void> {
+  if (config.exporter === 'none') {
+    return async () => {};
+  }
+
+  const exporter = config.exporter === 'otlp'
+    ? new OTLPTraceExporter() // Endpoint and headers come from the standard OTEL_EXPORTER_OTLP_* variables
+    : new FileSpanExporter(config.filePath);
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: config.serviceName }),
+    spanProcessors: [new BatchSpanProcessor(exporter)],
+  });
+  // Registers the W3C trace context propagator and the async context manager
+  provider.register();
+
+  return () => provider!.shutdown();
+}
+
+/**
+ * Whether spans are being exported
+ */
+export function isTracingEnabled(): boolean {
+  return provider !== null;
+}
+
+/**
+ * Run a function inside a span, which is ended when the function returns
+ * or its promise settles. Errors are recorded on the span and rethrown.
+ */
+export function withSpan<T>(
+  name: string,
+  options: { kind?: SpanKind; attributes?: Attributes },
+  fn: (span: Span) => T
+): T {
+  return tracer.startActiveSpan(name, { kind: options.kind, attributes: options.attributes }, (span) => {
+    const fail = (error: unknown) => {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+    };
+
+    try {
+      const result = fn(span);
+      if (result instanceof Promise) {
+        return result
+          .catch((error: unknown) => {
+            fail(error);
+            throw error;
+          })
+          .finally(() => span.end()) as T;
+      }
+      span.end();
+      return result;
+    } catch (error) {
+      fail(error);
+      span.end();
+      throw error;
+    }
+  });
+}
+
+/**
+ * Add the current trace context (traceparent) to outbound request headers
+ */
+export function injectTraceHeaders(headers: Record<string, string>): Record<string, string> {
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+/**
+ * The current trace ID, for correlating logs with traces
+ */
+export function currentTraceId(): string | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && trace.isSpanContextValid(spanContext) ? spanContext.traceId : undefined;
+}
+
+/**
+ * Express middleware starting a server span for each inbound request,
+ * continuing the caller's trace when a traceparent header is sent. The span
+ * is named after the route pattern once the request has been routed.
+ */
+export function requestTracing(req: Request, res: Response, next: NextFunction): void {
+  if (!provider) {
+    next();
+    return;
+  }
+
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: { 'http.request.method': req.method, 'url.path': req.path },
+  }, parent);
+
+  res.on('finish', () => {
+    if (req.route) {
+      const route = `${req.baseUrl}${String(req.route.path)}`;
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute('http.route', route);
+    }
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), next);
+}
+
+/**
+ * Writes finished spans to a file, one JSON object per line
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map((span) => JSON.stringify({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      kind: SpanKind[span.kind],
+      startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+      durationMs: hrTimeToMilliseconds(span.duration),
+      status: span.status,
+      attributes: span.attributes,
+      events: span.events.map((event) => ({ name: event.name, attributes: event.attributes })),
+    }) + '\n');
+
+    fs.appendFile(this.filePath, lines.join(''), (error) => {
+      resultCallback(error ? { code: ExportResultCode.FAILED, error } : { code: ExportResultCode.SUCCESS });
+    });
+  }
+
+  async shutdown(): Promise<void> {}
+}
@@ -0,0 +1,110 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending requests to LaunchDarkly once it has failed repeatedly, so
+ * callers get an immediate 503 instead of waiting out timeouts and retries.
+ * After a cool-down, one trial request is let through: if it succeeds the
+ * circuit closes, otherwise it opens again.
+ */
+
+/**
+ * - closed: requests flow normally
+ * - open: requests fail fast until the cool-down ends
+ * - half_open: one trial request is in flight
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Circuit state as reported by the health endpoints
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastFailure: string | null;
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+/**
+ * Create a circuit breaker
+ */
+export function createCircuitBreaker(config: CircuitBreakerConfig) {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let trialStartedAt: number | null = null;
+  let lastFailure: string | null = null;
+
+  return {
+    /**
+     * Whether a request may be sent now. While open, the first call after the
+     * cool-down becomes the trial request.
+     */
+    allowRequest(): boolean {
+      if (state === 'closed') {
+        return true;
+      }
+      // A trial that never reported back (e.g. the token request failed) is replaced after a cool-down
+      const since = state === 'open' ? openedAt! : trialStartedAt!;
+      if (Date.now() - since >= config.resetTimeoutMs) {
+        state = 'half_open';
+        trialStartedAt = Date.now();
+        return true;
+      }
+      return false;
+    },
+
+    /**
+     * Seconds until a trial request will be allowed
+     */
+    retryAfterSeconds(): number {
+      if (state === 'closed') {
+        return 1;
+      }
+      const since = state === 'open' ? openedAt! : trialStartedAt!;
+      return Math.max(1, Math.ceil((since + config.resetTimeoutMs - Date.now()) / 1000));
+    },
+
+    /**
+     * Record a successful request. Returns true if this success closed the circuit.
+     */
+    recordSuccess(): boolean {
+      const wasOpen = state !== 'closed';
+      state = 'closed';
+      consecutiveFailures = 0;
+      openedAt = null;
+      return wasOpen;
+    },
+
+    /**
+     * Record a failed request. Returns true if this failure opened the circuit.
+     */
+    recordFailure(reason: string): boolean {
+      consecutiveFailures++;
+      lastFailure = reason;
+      if (state === 'half_open' || (state === 'closed' && consecutiveFailures >= config.failureThreshold)) {
+        state = 'open';
+        openedAt = Date.now();
+        return true;
+      }
+      return false;
+    },
+
+    status(): CircuitStatus {
+      return {
+        state,
+        consecutiveFailures,
+        openedAt: openedAt ? new Date(openedAt).toISOString() : null,
+        lastFailure,
+      };
+    },
+  };
+}
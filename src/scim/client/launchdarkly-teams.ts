@@ -0,0 +1,207 @@
+/**
+ * LaunchDarkly Teams API Client
+ *
+ * Handles outbound requests to LaunchDarkly's REST API for Teams.
+ * Shares the TokenProvider used by the SCIM client.
+ * Documentation: https://launchdarkly.com/docs/api/teams
+ */
+
+import { SpanKind } from '@opentelemetry/api';
+import { getLogger, correlationHeaders } from '../../middleware/logging.js';
+import { recordLdRequest } from '../../middleware/metrics.js';
+import { PRIMARY_TARGET } from '../../config/index.js';
+import { withSpan } from '../../middleware/tracing.js';
+import { TokenManager } from '../../auth/token-manager.js';
+import { TokenProvider } from './launchdarkly.js';
+import { ConcurrencyLimiter } from './limiter.js';
+
+export interface LdTeamsClientConfig {
+  baseUrl: string;
+  tokenProvider: TokenProvider;
+  /** Limits requests in flight, shared with other LaunchDarkly clients */
+  limiter?: ConcurrencyLimiter;
+}
+
+/**
+ * Payload for creating a team
+ */
+export interface LdTeamCreatePayload {
+  key: string;
+  name: string;
+  description?: string;
+  customRoleKeys?: string[];
+  memberIDs?: string[];
+}
+
+/**
+ * Team as returned by the LaunchDarkly REST API
+ */
+export interface LdTeam {
+  key: string;
+  name: string;
+  description?: string;
+  roles?: {
+    totalCount?: number;
+    items?: Array<{ key: string; name?: string }>;
+  };
+  members?: {
+    totalCount?: number;
+  };
+  _creationDate?: number;
+  _lastModified?: number;
+}
+
+/**
+ * Semantic patch instruction for a team
+ */
+export type LdTeamInstruction =
+  | { kind: 'updateName'; value: string }
+  | { kind: 'updateDescription'; value: string }
+  | { kind: 'addMembers' | 'removeMembers'; values: string[] }
+  | { kind: 'addCustomRoles' | 'removeCustomRoles'; values: string[] };
+
+/**
+ * LaunchDarkly Teams API Client
+ */
+export class LaunchDarklyTeamsClient {
+  private baseUrl: string;
+  private tokenProvider: TokenProvider;
+  private limiter?: ConcurrencyLimiter;
+
+  constructor(config: LdTeamsClientConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.tokenProvider = config.tokenProvider;
+    this.limiter = config.limiter;
+  }
+
+  /**
+   * Make an authenticated request to the LD REST API
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    contentType = 'application/json',
+    retryOnAuthError = true
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const accessToken = await this.tokenProvider.getAccessToken();
+
+    getLogger().debug({ method, url }, 'Making request to LaunchDarkly REST API');
+
+    let startedAt = Date.now();
+    const send = () => withSpan(`LD Teams ${method}`, {
+      kind: SpanKind.CLIENT,
+      attributes: { 'http.request.method': method, 'url.full': url },
+    }, async (span): Promise<[Response, string]> => {
+      startedAt = Date.now();
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': contentType,
+          Accept: 'application/json',
+          ...correlationHeaders(),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      span.setAttribute('http.response.status_code', response.status);
+      return [response, await response.text()];
+    });
+    let response: Response;
+    let responseBody: string;
+    try {
+      [response, responseBody] = this.limiter ? await this.limiter.run(send) : await send();
+    } catch (error) {
+      recordLdRequest('teams', PRIMARY_TARGET, method, 'network_error', startedAt);
+      throw error;
+    }
+    recordLdRequest('teams', PRIMARY_TARGET, method, response.status, startedAt);
+
+    // Handle no-content responses (e.g., DELETE)
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    // Handle 401 - try to refresh token and retry once
+    if (response.status === 401 && retryOnAuthError) {
+      getLogger().warn('Received 401, attempting token refresh');
+      if (this.tokenProvider instanceof TokenManager) {
+        await this.tokenProvider.forceRefresh();
+        return this.request<T>(method, path, body, contentType, false);
+      }
+    }
+
+    let data: unknown;
+
+    try {
+      data = responseBody ? JSON.parse(responseBody) : undefined;
+    } catch {
+      getLogger().error({ status: response.status, body: responseBody }, 'Failed to parse LD REST API response');
+      throw new Error(`Failed to parse LaunchDarkly response: ${responseBody}`);
+    }
+
+    if (!response.ok) {
+      getLogger().error({ status: response.status, data }, 'LaunchDarkly REST API error');
+      throw new LdApiError(
+        response.status,
+        (data as { message?: string })?.message || `HTTP ${response.status}`,
+        data
+      );
+    }
+
+    getLogger().debug({ status: response.status }, 'LaunchDarkly REST API response received');
+    return data as T;
+  }
+
+  /**
+   * Create a new team
+   */
+  async createTeam(team: LdTeamCreatePayload): Promise<LdTeam> {
+    getLogger().info({ teamKey: team.key, members: team.memberIDs?.length }, 'Creating team in LaunchDarkly');
+    return this.request<LdTeam>('POST', '/teams', team);
+  }
+
+  /**
+   * Get a team by key
+   */
+  async getTeam(teamKey: string): Promise<LdTeam> {
+    getLogger().debug({ teamKey }, 'Getting team from LaunchDarkly');
+    return this.request<LdTeam>('GET', `/teams/${encodeURIComponent(teamKey)}?expand=roles`);
+  }
+
+  /**
+   * Update a team using semantic patch instructions
+   */
+  async patchTeam(teamKey: string, instructions: LdTeamInstruction[], comment?: string): Promise<LdTeam> {
+    getLogger().info({ teamKey, instructions: instructions.map((i) => i.kind) }, 'Patching team in LaunchDarkly');
+    return this.request<LdTeam>(
+      'PATCH',
+      `/teams/${encodeURIComponent(teamKey)}`,
+      { comment, instructions },
+      'application/json; domain-model=launchdarkly.semanticpatch'
+    );
+  }
+
+  /**
+   * Delete a team
+   */
+  async deleteTeam(teamKey: string): Promise<void> {
+    getLogger().info({ teamKey }, 'Deleting team from LaunchDarkly');
+    await this.request<void>('DELETE', `/teams/${encodeURIComponent(teamKey)}`);
+  }
+}
+
+/**
+ * LaunchDarkly REST API Error
+ */
+export class LdApiError extends Error {
+  constructor(
+    public status: number,
+    public detail: string,
+    public response?: unknown
+  ) {
+    super(`LaunchDarkly API Error (${status}): ${detail}`);
+    this.name = 'LdApiError';
+  }
+}
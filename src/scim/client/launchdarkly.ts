@@ -5,15 +5,33 @@
  * Supports OAuth2 Bearer token authentication with automatic token refresh.
  */
 
-import { logger } from '../../middleware/logging.js';
+import { SpanKind } from '@opentelemetry/api';
+import { getLogger, correlationHeaders } from '../../middleware/logging.js';
+import { recordLdRequest } from '../../middleware/metrics.js';
+import { PRIMARY_TARGET } from '../../config/index.js';
+import { withSpan } from '../../middleware/tracing.js';
 import { TokenManager } from '../../auth/token-manager.js';
 import {
   LdScimUserCreatePayload,
   LdScimUserResponse,
   LD_SCIM_EXTENSION_SCHEMA,
   LdScimExtension,
+  LdBuiltInRole,
 } from '../schemas/launchdarkly.js';
 import { ScimPatchOperation } from '../schemas/core.js';
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  isIdempotentMethod,
+  isRetryableStatus,
+  serverRetryDelay,
+  backoffDelay,
+  sleep,
+} from './retry.js';
+import { ConcurrencyLimiter } from './limiter.js';
+import { LdUserCache } from './user-cache.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import type { WriteGuard } from '../../mapping/guardrails.js';
 
 /**
  * Token provider interface - either a TokenManager or a static token
@@ -23,6 +41,18 @@ export type TokenProvider = TokenManager | { getAccessToken: () => Promise<strin
 export interface LdScimClientConfig {
   baseUrl: string;
   tokenProvider: TokenProvider;
+  /** Timeouts and retries, defaults to DEFAULT_RETRY_POLICY */
+  retry?: RetryPolicy;
+  /** Limits requests in flight, shared with other LaunchDarkly clients */
+  limiter?: ConcurrencyLimiter;
+  /** Cache of LD users for reads, updated by this client's writes */
+  userCache?: LdUserCache;
+  /** Fails requests fast while LaunchDarkly keeps failing */
+  circuitBreaker?: CircuitBreaker;
+  /** LD account the client writes to, in metrics (defaults to PRIMARY_TARGET) */
+  target?: string;
+  /** Refuses writes that break the guardrails in mappings.yaml */
+  guard?: WriteGuard;
 }
 
 /**
@@ -48,87 +78,235 @@ export interface LdScimListResponse {
 export class LaunchDarklyScimClient {
   private baseUrl: string;
   private tokenProvider: TokenProvider;
+  private retry: RetryPolicy;
+  private limiter?: ConcurrencyLimiter;
+  private userCache?: LdUserCache;
+  private circuitBreaker?: CircuitBreaker;
+  private target: string;
+  private guard?: WriteGuard;
 
   constructor(config: LdScimClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.tokenProvider = config.tokenProvider;
+    this.retry = config.retry ?? DEFAULT_RETRY_POLICY;
+    this.limiter = config.limiter;
+    this.userCache = config.userCache;
+    this.circuitBreaker = config.circuitBreaker;
+    this.target = config.target ?? PRIMARY_TARGET;
+    this.guard = config.guard;
   }
 
   /**
-   * Make an authenticated request to the LD SCIM API
+   * Make an authenticated request to the LD SCIM API.
+   *
+   * Each attempt is bounded by the policy's timeout. Rate limiting (429) is
+   * retried for any request; 502/503/504, timeouts and network errors only
+   * for idempotent ones, since LaunchDarkly may already have applied them.
+   * A 401 refreshes the OAuth token and retries once. While the circuit
+   * breaker is open, requests fail immediately with a 503.
    */
   private async request<T>(
     method: string,
     path: string,
     body?: unknown,
-    retryOnAuthError = true
+    options: { idempotent?: boolean } = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
-    const accessToken = await this.tokenProvider.getAccessToken();
+    const idempotent = options.idempotent ?? isIdempotentMethod(method);
+    let refreshedToken = false;
 
-    logger.debug({ method, url }, 'Making request to LaunchDarkly SCIM API');
+    for (let attempt = 0; ; attempt++) {
+      if (this.circuitBreaker && !this.circuitBreaker.allowRequest()) {
+        const error = new LdScimError(503, 'LaunchDarkly is unavailable; requests are paused after repeated failures');
+        error.retryAfterSeconds = this.circuitBreaker.retryAfterSeconds();
+        recordLdRequest('scim', this.target, method, 'circuit_open');
+        throw error;
+      }
 
-    const response = await fetch(url, {
-      method,
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/scim+json',
-        Accept: 'application/scim+json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+      const accessToken = await this.tokenProvider.getAccessToken();
 
-    // Handle no-content responses (e.g., DELETE)
-    if (response.status === 204) {
-      return undefined as T;
-    }
+      getLogger().debug({ method, url, attempt }, 'Making request to LaunchDarkly SCIM API');
+
+      // Only the request itself holds a limiter slot, not the backoff between attempts
+      let startedAt = Date.now();
+      const send = () => withSpan(`LD SCIM ${method}`, {
+        kind: SpanKind.CLIENT,
+        attributes: { 'http.request.method': method, 'url.full': url, 'http.request.resend_count': attempt },
+      }, async (span): Promise<[Response, string]> => {
+        startedAt = Date.now();
+        const response = await fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/scim+json',
+            Accept: 'application/scim+json',
+            ...correlationHeaders(),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(this.retry.timeoutMs),
+        });
+        span.setAttribute('http.response.status_code', response.status);
+        return [response, await response.text()];
+      });
+
+      let response: Response;
+      let responseBody: string;
+      try {
+        [response, responseBody] = this.limiter ? await this.limiter.run(send) : await send();
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        recordLdRequest('scim', this.target, method, timedOut ? 'timeout' : 'network_error', startedAt);
+        const detail = timedOut
+          ? `No response from LaunchDarkly within ${this.retry.timeoutMs}ms`
+          : `Request to LaunchDarkly failed: ${error instanceof Error ? error.message : String(error)}`;
+        this.recordOutcome(detail);
+
+        if (idempotent && attempt < this.retry.maxRetries) {
+          const delay = backoffDelay(attempt + 1, this.retry);
+          getLogger().warn({ method, url, attempt, delay, detail }, 'LaunchDarkly request failed, retrying');
+          await sleep(delay);
+          continue;
+        }
+
+        getLogger().error({ method, url, attempt, detail }, 'LaunchDarkly request failed');
+        throw new LdScimError(timedOut ? 504 : 502, detail);
+      }
+
+      recordLdRequest('scim', this.target, method, response.status, startedAt);
+      this.recordOutcome(response.status >= 500 ? `HTTP ${response.status}` : undefined);
 
-    // Handle 401 - try to refresh token and retry once
-    if (response.status === 401 && retryOnAuthError) {
-      logger.warn('Received 401, attempting token refresh');
-      if (this.tokenProvider instanceof TokenManager) {
+      // Handle no-content responses (e.g., DELETE)
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
+      // A retried DELETE whose first attempt was applied finds the user gone
+      if (response.status === 404 && method === 'DELETE' && attempt > 0) {
+        getLogger().info({ url }, 'User already deleted by an earlier attempt');
+        return undefined as T;
+      }
+
+      // Handle 401 - try to refresh token and retry once
+      if (response.status === 401 && !refreshedToken && this.tokenProvider instanceof TokenManager) {
+        getLogger().warn('Received 401, attempting token refresh');
+        refreshedToken = true;
         await this.tokenProvider.forceRefresh();
-        return this.request<T>(method, path, body, false);
+        attempt--; // The refresh retry does not count against maxRetries
+        continue;
+      }
+
+      if (isRetryableStatus(response.status, idempotent)) {
+        const serverDelay = serverRetryDelay(response.headers);
+        const delay = serverDelay ?? backoffDelay(attempt + 1, this.retry);
+
+        if (attempt < this.retry.maxRetries && delay <= this.retry.maxDelayMs) {
+          getLogger().warn({ method, url, status: response.status, attempt, delay }, 'LaunchDarkly request throttled or unavailable, retrying');
+          await sleep(delay);
+          continue;
+        }
+
+        // Pass the server's hint on, so the IdP can back off too
+        if (serverDelay !== undefined) {
+          const error = this.toError(response.status, responseBody);
+          error.retryAfterSeconds = Math.ceil(serverDelay / 1000);
+          throw error;
+        }
+      }
+
+      if (!response.ok) {
+        throw this.toError(response.status, responseBody);
       }
+
+      let data: unknown;
+      try {
+        data = responseBody ? JSON.parse(responseBody) : undefined;
+      } catch {
+        getLogger().error({ status: response.status, body: responseBody }, 'Failed to parse LD SCIM response');
+        throw new Error(`Failed to parse LaunchDarkly response: ${responseBody}`);
+      }
+
+      getLogger().debug({ status: response.status }, 'LaunchDarkly SCIM API response received');
+      return data as T;
     }
+  }
 
-    const responseBody = await response.text();
-    let data: unknown;
+  /**
+   * Tell the circuit breaker how an attempt went: failure is the reason for a
+   * server error, timeout or network error, undefined for any other response
+   */
+  private recordOutcome(failure: string | undefined): void {
+    if (!this.circuitBreaker) {
+      return;
+    }
+    if (failure === undefined) {
+      if (this.circuitBreaker.recordSuccess()) {
+        getLogger().info('LaunchDarkly circuit breaker closed');
+      }
+    } else if (this.circuitBreaker.recordFailure(failure)) {
+      getLogger().error({ reason: failure, ...this.circuitBreaker.status() }, 'LaunchDarkly circuit breaker opened');
+    }
+  }
 
+  /**
+   * Build the error for a failed response
+   */
+  private toError(status: number, responseBody: string): LdScimError {
+    let data: unknown;
     try {
       data = responseBody ? JSON.parse(responseBody) : undefined;
     } catch {
-      logger.error({ status: response.status, body: responseBody }, 'Failed to parse LD SCIM response');
-      throw new Error(`Failed to parse LaunchDarkly response: ${responseBody}`);
+      data = responseBody;
     }
 
-    if (!response.ok) {
-      logger.error({ status: response.status, data }, 'LaunchDarkly SCIM API error');
-      throw new LdScimError(
-        response.status,
-        (data as { detail?: string })?.detail || `HTTP ${response.status}`,
-        data
-      );
-    }
+    getLogger().error({ status, data }, 'LaunchDarkly SCIM API error');
+    return new LdScimError(
+      status,
+      (data as { detail?: string })?.detail || `HTTP ${status}`,
+      data
+    );
+  }
 
-    logger.debug({ status: response.status }, 'LaunchDarkly SCIM API response received');
-    return data as T;
+  /**
+   * Store a user returned by LaunchDarkly in the cache
+   */
+  private cacheUser(user: LdScimUserResponse): LdScimUserResponse {
+    if (user?.id) {
+      this.userCache?.set(user);
+    }
+    return user;
   }
 
   /**
    * Create a new user in LaunchDarkly
    */
   async createUser(user: LdScimUserCreatePayload): Promise<LdScimUserResponse> {
-    logger.info({ userName: user.userName }, 'Creating user in LaunchDarkly');
-    return this.request<LdScimUserResponse>('POST', '/Users', user);
+    this.guard?.checkCreate(user);
+    getLogger().info({ userName: user.userName }, 'Creating user in LaunchDarkly');
+    return this.cacheUser(await this.request<LdScimUserResponse>('POST', '/Users', user));
+  }
+
+  /**
+   * Check a user against the guardrails without creating it: before its
+   * creation is queued, or when it is linked to an existing member
+   */
+  checkCreate(user: LdScimUserCreatePayload): void {
+    this.guard?.checkCreate(user);
   }
 
   /**
    * Get a user by ID from LaunchDarkly
+   *
+   * @param options.cached serve the user from the cache when possible. Pass
+   *   false before a read-modify-write of the user's roles.
    */
-  async getUser(userId: string): Promise<LdScimUserResponse> {
-    logger.debug({ userId }, 'Getting user from LaunchDarkly');
-    return this.request<LdScimUserResponse>('GET', `/Users/${encodeURIComponent(userId)}`);
+  async getUser(userId: string, options: { cached?: boolean } = {}): Promise<LdScimUserResponse> {
+    const cached = options.cached !== false ? this.userCache?.get(userId) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    getLogger().debug({ userId }, 'Getting user from LaunchDarkly');
+    return this.cacheUser(await this.request<LdScimUserResponse>('GET', `/Users/${encodeURIComponent(userId)}`));
   }
 
   /**
@@ -144,6 +322,44 @@ export class LaunchDarklyScimClient {
     return this.request<LdScimListResponse>('GET', `/Users${query ? '?' + query : ''}`);
   }
 
+  /**
+   * Page through every user, keyed by LD ID
+   *
+   * @param options.cached serve the listing from the cache when a complete
+   *   listing is cached; by default LaunchDarkly is always paged through
+   */
+  async listAllUsers(
+    options: { cached?: boolean; pageSize?: number } = {}
+  ): Promise<Map<string, LdScimUserResponse>> {
+    const cached = options.cached ? this.userCache?.getAll() : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const pageSize = options.pageSize ?? 100;
+    const users = new Map<string, LdScimUserResponse>();
+    let startIndex = 1;
+
+    for (;;) {
+      const page = await this.listUsers(undefined, startIndex, pageSize);
+      for (const user of page.Resources) {
+        users.set(user.id, user);
+      }
+      startIndex += page.Resources.length;
+      if (page.Resources.length === 0 || startIndex > page.totalResults) {
+        this.userCache?.setAll(users);
+        return users;
+      }
+    }
+  }
+
+  /**
+   * Check that LaunchDarkly answers an authenticated request
+   */
+  async probe(): Promise<void> {
+    await this.listUsers(undefined, 1, 1);
+  }
+
   /**
    * Find a user by userName (email)
    */
@@ -161,31 +377,71 @@ export class LaunchDarklyScimClient {
   }
 
   /**
-   * Update a user in LaunchDarkly using PATCH
+   * Update a user in LaunchDarkly using PATCH.
+   * Only retried when every operation is a replace or remove; an add to a
+   * multi-valued attribute would be applied twice.
    */
   async patchUser(userId: string, operations: ScimPatchOperation[]): Promise<LdScimUserResponse> {
-    logger.info({ userId, operationsCount: operations.length }, 'Patching user in LaunchDarkly');
+    await this.checkMember(userId);
+    this.guard?.checkPatch(userId, operations);
+    getLogger().info({ userId, operationsCount: operations.length }, 'Patching user in LaunchDarkly');
 
-    return this.request<LdScimUserResponse>('PATCH', `/Users/${encodeURIComponent(userId)}`, {
-      schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
-      Operations: operations,
-    });
+    const idempotent = operations.every((op) => op.op.toLowerCase() !== 'add');
+    try {
+      return this.cacheUser(await this.request<LdScimUserResponse>(
+        'PATCH',
+        `/Users/${encodeURIComponent(userId)}`,
+        {
+          schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+          Operations: operations,
+        },
+        { idempotent }
+      ));
+    } catch (error) {
+      // The user's state is unknown after a failed write
+      this.userCache?.invalidate(userId);
+      throw error;
+    }
   }
 
   /**
    * Replace a user in LaunchDarkly using PUT
    */
   async replaceUser(userId: string, user: LdScimUserCreatePayload): Promise<LdScimUserResponse> {
-    logger.info({ userId, userName: user.userName }, 'Replacing user in LaunchDarkly');
-    return this.request<LdScimUserResponse>('PUT', `/Users/${encodeURIComponent(userId)}`, user);
+    await this.checkMember(userId);
+    this.guard?.checkReplace(userId, user);
+    getLogger().info({ userId, userName: user.userName }, 'Replacing user in LaunchDarkly');
+    try {
+      return this.cacheUser(await this.request<LdScimUserResponse>('PUT', `/Users/${encodeURIComponent(userId)}`, user));
+    } catch (error) {
+      this.userCache?.invalidate(userId);
+      throw error;
+    }
   }
 
   /**
    * Delete a user from LaunchDarkly
    */
   async deleteUser(userId: string): Promise<void> {
-    logger.info({ userId }, 'Deleting user from LaunchDarkly');
-    await this.request<void>('DELETE', `/Users/${encodeURIComponent(userId)}`);
+    await this.checkMember(userId);
+    getLogger().info({ userId }, 'Deleting user from LaunchDarkly');
+    try {
+      await this.request<void>('DELETE', `/Users/${encodeURIComponent(userId)}`);
+    } finally {
+      this.userCache?.invalidate(userId);
+    }
+  }
+
+  /**
+   * Refuse to modify or delete a protected member. Protected userNames need
+   * the member's userName, so it is read first, from the cache when possible.
+   */
+  private async checkMember(userId: string): Promise<void> {
+    if (!this.guard?.protectsMembers()) {
+      return;
+    }
+    const member = await this.getUser(userId);
+    this.guard.checkMember(userId, member.userName);
   }
 
   /**
@@ -198,11 +454,18 @@ export class LaunchDarklyScimClient {
   }
 
   /**
-   * Update user's custom roles
+   * Update user's custom roles, and optionally their base role
    */
-  async updateUserCustomRoles(userId: string, customRoles: string[]): Promise<LdScimUserResponse> {
+  async updateUserCustomRoles(
+    userId: string,
+    customRoles: string[],
+    role?: LdBuiltInRole
+  ): Promise<LdScimUserResponse> {
     const extension: LdScimExtension = { customRole: customRoles };
-    
+    if (role) {
+      extension.role = role;
+    }
+
     return this.patchUser(userId, [
       {
         op: 'replace',
@@ -217,6 +480,9 @@ export class LaunchDarklyScimClient {
  * LaunchDarkly SCIM API Error
  */
 export class LdScimError extends Error {
+  /** Seconds LaunchDarkly asked callers to wait before trying again */
+  retryAfterSeconds?: number;
+
   constructor(
     public status: number,
     public detail: string,
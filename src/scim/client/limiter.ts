@@ -0,0 +1,60 @@
+/**
+ * Outbound Concurrency Limiter
+ *
+ * Caps the number of requests in flight to LaunchDarkly. One limiter is
+ * shared by the SCIM and Teams clients, so a large IdP import, a mapping
+ * re-application and a reconciliation together stay within the same budget.
+ * Requests beyond the cap wait in FIFO order.
+ */
+
+export type ConcurrencyLimiter = ReturnType<typeof createConcurrencyLimiter>;
+
+/**
+ * Create a limiter allowing at most maxConcurrent tasks at once
+ */
+export function createConcurrencyLimiter(maxConcurrent: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  /**
+   * Wait for a free slot
+   */
+  function acquire(): Promise<void> {
+    if (active < maxConcurrent) {
+      active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by release(), so active is not incremented here
+    return new Promise((resolve) => queue.push(resolve));
+  }
+
+  /**
+   * Free a slot, handing it to the next waiting task if any
+   */
+  function release(): void {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  }
+
+  return {
+    /**
+     * Run a task once a slot is free
+     */
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+
+    stats(): { maxConcurrent: number; active: number; queued: number } {
+      return { maxConcurrent, active, queued: queue.length };
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Outbound Retry Policy
+ *
+ * Decides whether a failed LaunchDarkly request is retried and how long to
+ * wait first. Server hints (Retry-After, X-Ratelimit-Reset) take precedence
+ * over exponential backoff with full jitter.
+ */
+
+/**
+ * Timeout and retry settings for requests to LaunchDarkly
+ */
+export interface RetryPolicy {
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+  /** Retries after the first attempt; 0 disables retries */
+  maxRetries: number;
+  /** Backoff before the first retry, doubled for each retry after it */
+  baseDelayMs: number;
+  /** Longest wait before a retry. A server asking for longer is not retried. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 10_000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** Methods that can safely be sent twice */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Statuses worth retrying once LaunchDarkly recovers */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Whether a method is idempotent
+ */
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Whether a response status can be retried.
+ * A 429 means LaunchDarkly rejected the request without processing it, so
+ * it is retried for any method; other statuses only for idempotent requests.
+ */
+export function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  if (status === 429) {
+    return true;
+  }
+  return idempotent && RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Milliseconds the server asked us to wait, from Retry-After (seconds or an
+ * HTTP date) or X-Ratelimit-Reset (epoch milliseconds, as sent by LaunchDarkly)
+ */
+export function serverRetryDelay(headers: Headers, now = Date.now()): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (reset > 0) {
+    return Math.max(0, reset - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter for a retry (attempt 1 is the first retry)
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,87 @@
+/**
+ * LaunchDarkly User Cache
+ *
+ * Short-lived cache of LD member documents, so GET /Users and GET /Users/:id
+ * do not cost a LaunchDarkly request each. Entries expire after the TTL;
+ * writes made through the gateway replace or remove the entry straight away,
+ * so only changes made directly in LaunchDarkly can be up to a TTL stale.
+ */
+
+import { LdScimUserResponse } from '../schemas/launchdarkly.js';
+
+interface CacheEntry {
+  user: LdScimUserResponse;
+  expiresAt: number;
+}
+
+export type LdUserCache = ReturnType<typeof createLdUserCache>;
+
+/**
+ * Create a user cache whose entries live for ttlMs
+ */
+export function createLdUserCache(ttlMs: number) {
+  const entries = new Map<string, CacheEntry>();
+  /** When the last complete listing of LD members expires */
+  let completeUntil = 0;
+  let hits = 0;
+  let misses = 0;
+
+  function set(user: LdScimUserResponse): void {
+    entries.set(user.id, { user, expiresAt: Date.now() + ttlMs });
+  }
+
+  return {
+    /**
+     * Get a cached user, counting the hit or miss
+     */
+    get(ldId: string): LdScimUserResponse | undefined {
+      const entry = entries.get(ldId);
+      if (entry && entry.expiresAt > Date.now()) {
+        hits++;
+        return entry.user;
+      }
+      if (entry) {
+        entries.delete(ldId);
+      }
+      misses++;
+      return undefined;
+    },
+
+    set,
+
+    /**
+     * Replace the cache with a complete listing of LD members
+     */
+    setAll(users: Map<string, LdScimUserResponse>): void {
+      entries.clear();
+      for (const user of users.values()) {
+        set(user);
+      }
+      completeUntil = Date.now() + ttlMs;
+    },
+
+    /**
+     * Every LD member, if a complete listing is cached and has not expired.
+     * Writes since the listing are included, as they update the cache.
+     */
+    getAll(): Map<string, LdScimUserResponse> | undefined {
+      if (completeUntil <= Date.now()) {
+        misses++;
+        return undefined;
+      }
+      hits++;
+      return new Map(Array.from(entries.values(), (e) => [e.user.id, e.user] as const));
+    },
+
+    /**
+     * Drop a user, e.g. after deleting it
+     */
+    invalidate(ldId: string): void {
+      entries.delete(ldId);
+    },
+
+    stats(): { ttlSeconds: number; size: number; hits: number; misses: number } {
+      return { ttlSeconds: ttlMs / 1000, size: entries.size, hits, misses };
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFilter, getFilterAttributes, parseFilter, ScimFilterError } from './filter.js';
+
+const user = {
+  id: 'Alice-1',
+  externalId: 'EXT-1',
+  userName: 'Ada@Example.com',
+  name: { givenName: 'Ada', familyName: 'Lovelace' },
+  emails: [
+    { value: 'ada@example.com', type: 'work', primary: true },
+    { value: 'ada@home.example', type: 'home' },
+  ],
+  active: true,
+  'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User': { department: 'R&D', costCenter: 42 },
+};
+
+function matches(filter: string, resource: object = user): boolean {
+  return evaluateFilter(parseFilter(filter), resource);
+}
+
+describe('parseFilter', () => {
+  it('binds and tighter than or', () => {
+    expect(parseFilter('a eq "1" or b eq "2" and c eq "3"')).toEqual({
+      type: 'or',
+      left: { type: 'compare', attribute: 'a', operator: 'eq', value: '1' },
+      right: {
+        type: 'and',
+        left: { type: 'compare', attribute: 'b', operator: 'eq', value: '2' },
+        right: { type: 'compare', attribute: 'c', operator: 'eq', value: '3' },
+      },
+    });
+  });
+
+  it('groups with parentheses and negates with not', () => {
+    expect(parseFilter('not (a pr) and (b eq 1 or c eq true)')).toEqual({
+      type: 'and',
+      left: { type: 'not', expression: { type: 'present', attribute: 'a' } },
+      right: {
+        type: 'or',
+        left: { type: 'compare', attribute: 'b', operator: 'eq', value: 1 },
+        right: { type: 'compare', attribute: 'c', operator: 'eq', value: true },
+      },
+    });
+  });
+
+  it('accepts operators and keywords in any case', () => {
+    expect(parseFilter('userName EQ "x" AND active Pr')).toEqual({
+      type: 'and',
+      left: { type: 'compare', attribute: 'userName', operator: 'eq', value: 'x' },
+      right: { type: 'present', attribute: 'active' },
+    });
+  });
+
+  it('parses value filters and strips core schema prefixes', () => {
+    expect(parseFilter('emails[type eq "work"]')).toEqual({
+      type: 'valuePath',
+      attribute: 'emails',
+      filter: { type: 'compare', attribute: 'type', operator: 'eq', value: 'work' },
+    });
+    expect(parseFilter('urn:ietf:params:scim:schemas:core:2.0:User:userName eq "x"')).toMatchObject({
+      attribute: 'userName',
+    });
+  });
+
+  it('parses escaped string literals and null', () => {
+    expect(parseFilter('displayName eq "say \\"hi\\""')).toMatchObject({ value: 'say "hi"' });
+    expect(parseFilter('title eq null')).toMatchObject({ value: null });
+  });
+
+  it.each([
+    ['', 'Filter is empty'],
+    ['userName eq "x', 'Unterminated string'],
+    ['userName eq', 'Expected comparison value'],
+    ['userName', "Expected operator after 'userName'"],
+    ['userName xx "x"', "Unknown operator 'xx'"],
+    ['userName eq bare', 'Invalid comparison value'],
+    ['(userName eq "x"', 'Expected rparen'],
+    ['userName eq "x")', 'Unexpected token'],
+    ['userName eq "x" & active pr', "Unexpected character '&'"],
+    ['1abc eq "x"', "Invalid attribute path '1abc'"],
+  ])('rejects %j', (filter, message) => {
+    expect(() => parseFilter(filter)).toThrow(ScimFilterError);
+    expect(() => parseFilter(filter)).toThrow(message);
+  });
+});
+
+describe('evaluateFilter', () => {
+  it.each([
+    ['userName eq "ada@example.com"', true],
+    ['userName ne "ada@example.com"', false],
+    ['userName co "EXAMPLE"', true],
+    ['userName sw "ada@"', true],
+    ['userName ew ".org"', false],
+    ['userName gt "ADA"', true],
+    ['userName lt "ab"', false],
+    ['name.familyName ge "lovelace"', true],
+    ['name.familyName le "k"', false],
+  ])('compares strings case-insensitively: %s', (filter, expected) => {
+    expect(matches(filter)).toBe(expected);
+  });
+
+  it('compares id and externalId case-exactly', () => {
+    expect(matches('id eq "Alice-1"')).toBe(true);
+    expect(matches('id eq "alice-1"')).toBe(false);
+    expect(matches('externalId eq "ext-1"')).toBe(false);
+  });
+
+  it('compares numbers and booleans by type', () => {
+    const enterprise = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+    expect(matches(`${enterprise}:costCenter gt 40`)).toBe(true);
+    expect(matches(`${enterprise}:costCenter le 41`)).toBe(false);
+    expect(matches(`${enterprise}:costCenter eq "42"`)).toBe(false);
+    expect(matches('active eq true')).toBe(true);
+    expect(matches('active eq "true"')).toBe(false);
+  });
+
+  it('matches multi-valued attributes against any of their values', () => {
+    expect(matches('emails co "home.example"')).toBe(true);
+    expect(matches('emails.value eq "ADA@EXAMPLE.COM"')).toBe(true);
+    expect(matches('emails ne "ada@home.example"')).toBe(false);
+  });
+
+  it('requires the value filter to match a single element', () => {
+    expect(matches('emails[type eq "work" and value ew "example.com"]')).toBe(true);
+    expect(matches('emails[type eq "home" and primary eq true]')).toBe(false);
+  });
+
+  it('treats empty and missing values as not present', () => {
+    expect(matches('name pr')).toBe(true);
+    expect(matches('title pr')).toBe(false);
+    expect(matches('title pr', { title: '' })).toBe(false);
+    expect(matches('title eq null')).toBe(true);
+    expect(matches('userName eq null')).toBe(false);
+  });
+
+  it('resolves schema-qualified extension attributes', () => {
+    expect(matches('urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department eq "r&d"')).toBe(true);
+  });
+
+  it('combines expressions with and, or and not', () => {
+    expect(matches('userName sw "ada" and not (active eq false)')).toBe(true);
+    expect(matches('userName sw "bob" or name.givenName eq "ada"')).toBe(true);
+    expect(matches('not (userName sw "ada" or title pr)')).toBe(false);
+  });
+});
+
+describe('getFilterAttributes', () => {
+  it('lists the lowercased top-level attributes once each', () => {
+    const expression = parseFilter(
+      'userName eq "x" or (Emails[type eq "work"] and not (name.familyName pr)) or userName co "y"'
+    );
+    expect(getFilterAttributes(expression)).toEqual(['username', 'emails', 'name']);
+  });
+
+  it('keeps the schema URN of extension attributes', () => {
+    const expression = parseFilter('urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department pr');
+    expect(getFilterAttributes(expression)).toEqual(['urn:ietf:params:scim:schemas:extension:enterprise:2.0:user']);
+  });
+});
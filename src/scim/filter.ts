@@ -0,0 +1,431 @@
+/**
+ * SCIM Filter Parser and Evaluator
+ *
+ * Implements the filter grammar from RFC 7644 §3.4.2.2:
+ * https://www.rfc-editor.org/rfc/rfc7644#section-3.4.2.2
+ *
+ * Supports the comparison operators eq, ne, co, sw, ew, gt, ge, lt, le and pr,
+ * the logical operators and, or and not, grouping with parentheses, dotted
+ * attribute paths (emails.value, name.familyName), schema-qualified attribute
+ * names and value filters such as emails[type eq "work"].
+ */
+
+import { SCIM_CORE_USER_SCHEMA, SCIM_CORE_GROUP_SCHEMA } from './schemas/core.js';
+
+export type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Parsed filter expression
+ */
+export type FilterExpression =
+  | { type: 'compare'; attribute: string; operator: CompareOperator; value: FilterValue }
+  | { type: 'present'; attribute: string }
+  | { type: 'and' | 'or'; left: FilterExpression; right: FilterExpression }
+  | { type: 'not'; expression: FilterExpression }
+  | { type: 'valuePath'; attribute: string; filter: FilterExpression };
+
+const COMPARE_OPERATORS = new Set<string>(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+
+/**
+ * Attributes compared case-sensitively (caseExact in RFC 7643); all others
+ * are compared case-insensitively
+ */
+const CASE_EXACT_ATTRIBUTES = new Set(['id', 'externalid']);
+
+/**
+ * Core schema URNs that may prefix attribute names, e.g.
+ * urn:ietf:params:scim:schemas:core:2.0:User:userName
+ */
+const CORE_SCHEMAS = [SCIM_CORE_USER_SCHEMA, SCIM_CORE_GROUP_SCHEMA];
+
+/**
+ * Error thrown when a filter cannot be parsed
+ */
+export class ScimFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScimFilterError';
+  }
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'lbracket' | 'rbracket'; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'word'; value: string; position: number };
+
+/**
+ * Split a filter string into tokens
+ */
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < filter.length) {
+    const char = filter[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === '[' || char === ']') {
+      const kind = ({ '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket' } as const)[char];
+      tokens.push({ kind, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      // JSON string literal, including escapes
+      let end = i + 1;
+      while (end < filter.length && filter[end] !== '"') {
+        end += filter[end] === '\\' ? 2 : 1;
+      }
+      if (end >= filter.length) {
+        throw new ScimFilterError(`Unterminated string starting at position ${i}`);
+      }
+      try {
+        tokens.push({ kind: 'string', value: JSON.parse(filter.slice(i, end + 1)), position: i });
+      } catch {
+        throw new ScimFilterError(`Invalid string literal at position ${i}`);
+      }
+      i = end + 1;
+      continue;
+    }
+
+    const match = /^[A-Za-z0-9_:.$+-]+/.exec(filter.slice(i));
+    if (!match) {
+      throw new ScimFilterError(`Unexpected character '${char}' at position ${i}`);
+    }
+    tokens.push({ kind: 'word', value: match[0], position: i });
+    i += match[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser. Precedence, from lowest: or, and, not.
+ */
+class FilterParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterExpression {
+    if (this.tokens.length === 0) {
+      throw new ScimFilterError('Filter is empty');
+    }
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new ScimFilterError(`Unexpected token at position ${next.position}`);
+    }
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(kind: Token['kind']): Token {
+    const token = this.next();
+    if (!token || token.kind !== kind) {
+      throw new ScimFilterError(
+        token ? `Expected ${kind} at position ${token.position}` : `Expected ${kind} at end of filter`
+      );
+    }
+    return token;
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.peekKeyword('or')) {
+      this.next();
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseUnary();
+    while (this.peekKeyword('and')) {
+      this.next();
+      left = { type: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterExpression {
+    if (this.peekKeyword('not')) {
+      this.next();
+      this.expect('lparen');
+      const expression = this.parseOr();
+      this.expect('rparen');
+      return { type: 'not', expression };
+    }
+
+    if (this.peek()?.kind === 'lparen') {
+      this.next();
+      const expression = this.parseOr();
+      this.expect('rparen');
+      return expression;
+    }
+
+    return this.parseAttributeExpression();
+  }
+
+  private parseAttributeExpression(): FilterExpression {
+    const token = this.expect('word') as Extract<Token, { kind: 'word' }>;
+    const attribute = normalizeAttributePath(token.value);
+
+    if (this.peek()?.kind === 'lbracket') {
+      this.next();
+      const filter = this.parseOr();
+      this.expect('rbracket');
+      return { type: 'valuePath', attribute, filter };
+    }
+
+    const operatorToken = this.next();
+    if (!operatorToken || operatorToken.kind !== 'word') {
+      throw new ScimFilterError(`Expected operator after '${token.value}'`);
+    }
+
+    const operator = operatorToken.value.toLowerCase();
+    if (operator === 'pr') {
+      return { type: 'present', attribute };
+    }
+    if (!COMPARE_OPERATORS.has(operator)) {
+      throw new ScimFilterError(`Unknown operator '${operatorToken.value}' at position ${operatorToken.position}`);
+    }
+
+    return {
+      type: 'compare',
+      attribute,
+      operator: operator as CompareOperator,
+      value: this.parseValue(),
+    };
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.next();
+    if (!token) {
+      throw new ScimFilterError('Expected comparison value at end of filter');
+    }
+    if (token.kind === 'string') {
+      return token.value;
+    }
+    if (token.kind === 'word') {
+      const lower = token.value.toLowerCase();
+      if (lower === 'true') return true;
+      if (lower === 'false') return false;
+      if (lower === 'null') return null;
+      if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(token.value)) {
+        return Number(token.value);
+      }
+    }
+    throw new ScimFilterError(`Invalid comparison value at position ${token.position}`);
+  }
+}
+
+/**
+ * Strip a core schema URN prefix and validate the attribute path
+ */
+function normalizeAttributePath(path: string): string {
+  for (const schema of CORE_SCHEMAS) {
+    if (path.toLowerCase().startsWith(`${schema.toLowerCase()}:`)) {
+      return path.slice(schema.length + 1);
+    }
+  }
+  if (!/^(urn:[A-Za-z0-9_:.-]+:)?[A-Za-z$][A-Za-z0-9_$-]*(\.[A-Za-z$][A-Za-z0-9_$-]*)?$/.test(path)) {
+    throw new ScimFilterError(`Invalid attribute path '${path}'`);
+  }
+  return path;
+}
+
+/**
+ * Parse a SCIM filter string into an expression tree
+ *
+ * @throws ScimFilterError if the filter is not valid
+ */
+export function parseFilter(filter: string): FilterExpression {
+  return new FilterParser(tokenize(filter)).parse();
+}
+
+/**
+ * List the top-level attribute names referenced by a filter (lowercased)
+ */
+export function getFilterAttributes(expression: FilterExpression): string[] {
+  const attributes = new Set<string>();
+
+  const visit = (expr: FilterExpression): void => {
+    switch (expr.type) {
+      case 'compare':
+      case 'present':
+        attributes.add(splitAttributePath(expr.attribute)[0].toLowerCase());
+        break;
+      case 'valuePath':
+        attributes.add(splitAttributePath(expr.attribute)[0].toLowerCase());
+        break;
+      case 'and':
+      case 'or':
+        visit(expr.left);
+        visit(expr.right);
+        break;
+      case 'not':
+        visit(expr.expression);
+        break;
+    }
+  };
+
+  visit(expression);
+  return Array.from(attributes);
+}
+
+/**
+ * Evaluate a parsed filter against a SCIM resource
+ */
+export function evaluateFilter(expression: FilterExpression, resource: object): boolean {
+  switch (expression.type) {
+    case 'and':
+      return evaluateFilter(expression.left, resource) && evaluateFilter(expression.right, resource);
+    case 'or':
+      return evaluateFilter(expression.left, resource) || evaluateFilter(expression.right, resource);
+    case 'not':
+      return !evaluateFilter(expression.expression, resource);
+    case 'present':
+      return resolveAttribute(resource, expression.attribute).some(isPresent);
+    case 'valuePath':
+      return resolveValues(resource, expression.attribute).some(
+        (element) => typeof element === 'object' && element !== null && evaluateFilter(expression.filter, element)
+      );
+    case 'compare': {
+      const values = resolveAttribute(resource, expression.attribute);
+      const caseExact = CASE_EXACT_ATTRIBUTES.has(expression.attribute.toLowerCase());
+
+      if (expression.operator === 'ne') {
+        return !values.some((v) => compare(v, 'eq', expression.value, caseExact));
+      }
+      if (expression.operator === 'eq' && expression.value === null) {
+        return !values.some(isPresent);
+      }
+      return values.some((v) => compare(v, expression.operator, expression.value, caseExact));
+    }
+  }
+}
+
+/**
+ * Split an attribute path into its components, keeping a schema URN prefix
+ * as the first component (urn:...:enterprise:2.0:User:department)
+ */
+function splitAttributePath(path: string): string[] {
+  if (path.toLowerCase().startsWith('urn:')) {
+    const separator = path.lastIndexOf(':');
+    return [path.slice(0, separator), ...path.slice(separator + 1).split('.')];
+  }
+  return path.split('.');
+}
+
+/**
+ * Resolve an attribute path to the list of values it selects. Multi-valued
+ * attributes are flattened so emails.value yields every email value.
+ */
+function resolveValues(resource: object, path: string): unknown[] {
+  let current: unknown[] = [resource];
+
+  for (const part of splitAttributePath(path)) {
+    const nextValues: unknown[] = [];
+    for (const value of current) {
+      if (typeof value !== 'object' || value === null) {
+        continue;
+      }
+      const key = Object.keys(value).find((k) => k.toLowerCase() === part.toLowerCase());
+      if (key === undefined) {
+        continue;
+      }
+      const child = (value as Record<string, unknown>)[key];
+      if (Array.isArray(child)) {
+        nextValues.push(...child);
+      } else if (child !== undefined) {
+        nextValues.push(child);
+      }
+    }
+    current = nextValues;
+  }
+
+  return current;
+}
+
+/**
+ * Resolve an attribute path for comparison. A filter on a multi-valued
+ * complex attribute without a sub-attribute targets its "value" sub-attribute.
+ */
+function resolveAttribute(resource: object, path: string): unknown[] {
+  // e.g. emails co "@example.com" compares against emails.value
+  return resolveValues(resource, path).map((value) =>
+    typeof value === 'object' && value !== null && 'value' in value
+      ? (value as { value: unknown }).value
+      : value
+  );
+}
+
+/**
+ * Whether a resolved value counts as present for the "pr" operator
+ */
+function isPresent(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+}
+
+/**
+ * Compare a single attribute value with a filter value
+ */
+function compare(actual: unknown, operator: CompareOperator, expected: FilterValue, caseExact: boolean): boolean {
+  if (typeof expected === 'boolean') {
+    return operator === 'eq' && actual === expected;
+  }
+
+  if (typeof expected === 'number') {
+    if (typeof actual !== 'number') return false;
+    switch (operator) {
+      case 'eq': return actual === expected;
+      case 'gt': return actual > expected;
+      case 'ge': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'le': return actual <= expected;
+      default: return false;
+    }
+  }
+
+  if (typeof expected !== 'string' || typeof actual !== 'string') {
+    return false;
+  }
+
+  const a = caseExact ? actual : actual.toLowerCase();
+  const b = caseExact ? expected : expected.toLowerCase();
+
+  switch (operator) {
+    case 'eq': return a === b;
+    case 'co': return a.includes(b);
+    case 'sw': return a.startsWith(b);
+    case 'ew': return a.endsWith(b);
+    case 'gt': return a > b;
+    case 'ge': return a >= b;
+    case 'lt': return a < b;
+    case 'le': return a <= b;
+    default: return false;
+  }
+}
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyPatchOperations, ScimPatchError } from './patch.js';
+import { ScimCoreUser, ScimPatchOperation } from './schemas/core.js';
+
+const user: ScimCoreUser = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+  userName: 'ada@example.com',
+  name: { givenName: 'Ada', familyName: 'Lovelace' },
+  emails: [
+    { value: 'ada@example.com', type: 'work', primary: true },
+    { value: 'ada@home.example', type: 'home' },
+  ],
+  roles: [{ value: 'ld-developer' }],
+  active: true,
+};
+
+/** Operations as an IdP sends them, parsed from JSON */
+function parseOperations(json: string): ScimPatchOperation[] {
+  return JSON.parse(json) as ScimPatchOperation[];
+}
+
+/** Matches the ScimPatchError thrown for a scimType */
+function patchError(scimType: string) {
+  return expect.objectContaining({ name: 'ScimPatchError', scimType });
+}
+
+describe('applyPatchOperations', () => {
+  afterEach(() => {
+    delete (Object.prototype as Record<string, unknown>).polluted;
+  });
+
+  it('replaces simple and dotted attributes without modifying the input', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'replace', path: 'active', value: false },
+      { op: 'replace', path: 'name.givenName', value: 'Augusta' },
+    ]);
+
+    expect(result.active).toBe(false);
+    expect(result.name).toEqual({ givenName: 'Augusta', familyName: 'Lovelace' });
+    expect(user.active).toBe(true);
+    expect(user.name?.givenName).toBe('Ada');
+  });
+
+  it('matches attribute names case-insensitively', () => {
+    const result = applyPatchOperations(user, [{ op: 'replace', path: 'Name.GivenName', value: 'Augusta' }]);
+    expect(result.name?.givenName).toBe('Augusta');
+  });
+
+  it('merges added roles into the existing ones', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'add', path: 'roles', value: [{ value: 'ld-developer' }, { value: 'ld-admin' }] },
+    ]);
+    expect(result.roles).toEqual([{ value: 'ld-developer' }, { value: 'ld-admin' }]);
+  });
+
+  it('updates the sub-attribute of elements selected by a value filter', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'ada@corp.example.com' },
+    ]);
+    expect(result.emails?.[0].value).toBe('ada@corp.example.com');
+    expect(result.emails?.[1].value).toBe('ada@home.example');
+  });
+
+  it('creates an element from the filter when none matches', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'add', path: 'emails[type eq "other"].value', value: 'ada@other.example' },
+    ]);
+    expect(result.emails).toContainEqual({ type: 'other', value: 'ada@other.example' });
+  });
+
+  it('removes elements selected by a value filter', () => {
+    const result = applyPatchOperations(user, [{ op: 'remove', path: 'roles[value eq "ld-developer"]' }]);
+    expect(result.roles).toEqual([]);
+  });
+
+  it('keeps a single primary element', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'add', path: 'emails', value: [{ value: 'ada@new.example', primary: true }] },
+    ]);
+    expect(result.emails?.filter((e) => e.primary)).toEqual([{ value: 'ada@new.example', primary: true }]);
+  });
+
+  it('applies a path-less value attribute by attribute, ignoring schemas', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'replace', value: { schemas: ['x'], active: false, name: { familyName: 'King' } } },
+    ]);
+    expect(result.schemas).toEqual(user.schemas);
+    expect(result.active).toBe(false);
+    expect(result.name).toEqual({ givenName: 'Ada', familyName: 'King' });
+  });
+
+  it('resolves schema-qualified paths', () => {
+    const result = applyPatchOperations(user, [
+      { op: 'replace', path: 'urn:ietf:params:scim:schemas:core:2.0:User:userName', value: 'augusta@example.com' },
+      { op: 'add', path: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:department', value: 'R&D' },
+    ]);
+    expect(result.userName).toBe('augusta@example.com');
+    expect((result as unknown as Record<string, unknown>)['urn:ietf:params:scim:schemas:extension:enterprise:2.0:User'])
+      .toEqual({ department: 'R&D' });
+  });
+
+  it('rejects unsupported operations and invalid paths', () => {
+    expect(() => applyPatchOperations(user, [{ op: 'move' as 'add', path: 'active' }])).toThrow(ScimPatchError);
+    expect(() => applyPatchOperations(user, [{ op: 'move' as 'add', path: 'active' }])).toThrow(patchError('invalidSyntax'));
+    expect(() => applyPatchOperations(user, [{ op: 'remove' }])).toThrow(patchError('noTarget'));
+    expect(() => applyPatchOperations(user, [{ op: 'add', path: 'emails[type eq' }])).toThrow(patchError('invalidPath'));
+    expect(() => applyPatchOperations(user, [{ op: 'add', path: 'userName.first', value: 'x' }]))
+      .toThrow(patchError('invalidPath'));
+  });
+
+  describe('prototype pollution', () => {
+    it.each(['__proto__.polluted', 'constructor.prototype.polluted', 'name.__proto__.polluted', 'emails[type eq "work"].__proto__'])(
+      'rejects the path %s',
+      (path) => {
+        expect(() => applyPatchOperations(user, [{ op: 'replace', path, value: 'yes' }])).toThrow(patchError('invalidPath'));
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      }
+    );
+
+    it('rejects a path-less value with a __proto__ key', () => {
+      const operations = parseOperations('[{"op":"replace","value":{"__proto__":{"polluted":"yes"}}}]');
+      expect(() => applyPatchOperations(user, operations)).toThrow(patchError('invalidValue'));
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('rejects a nested __proto__ key in a value', () => {
+      const operations = parseOperations('[{"op":"replace","path":"name","value":{"__proto__":{"polluted":"yes"}}}]');
+      expect(() => applyPatchOperations(user, operations)).toThrow(patchError('invalidValue'));
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+});
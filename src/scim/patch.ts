@@ -0,0 +1,365 @@
+/**
+ * SCIM PATCH Engine
+ *
+ * Applies SCIM PATCH operations to a resource, following RFC 7644 §3.5.2:
+ * https://www.rfc-editor.org/rfc/rfc7644#section-3.5.2
+ *
+ * Supports simple and dotted paths (active, name.givenName), schema-qualified
+ * paths, value filters with an optional sub-attribute
+ * (emails[type eq "work"].value, roles[value eq "ld-admin"]) and path-less
+ * operations whose value is a partial resource.
+ */
+
+import { ScimPatchOperation, SCIM_CORE_USER_SCHEMA, SCIM_CORE_GROUP_SCHEMA } from './schemas/core.js';
+import { FilterExpression, ScimFilterError, parseFilter, evaluateFilter } from './filter.js';
+
+/**
+ * Error thrown when a PATCH operation cannot be applied.
+ * scimType is one of the RFC 7644 error types (invalidPath, noTarget, ...).
+ */
+export class ScimPatchError extends Error {
+  constructor(
+    message: string,
+    public scimType: 'invalidPath' | 'invalidSyntax' | 'invalidValue' | 'noTarget'
+  ) {
+    super(message);
+    this.name = 'ScimPatchError';
+  }
+}
+
+/**
+ * Parsed PATCH path
+ */
+interface PatchPath {
+  /** Attribute path segments, e.g. ['name', 'givenName'] */
+  attribute: string[];
+  /** Value filter selecting elements of a multi-valued attribute */
+  filter?: FilterExpression;
+  /** Sub-attribute of the filtered elements to target */
+  subAttribute?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const CORE_SCHEMAS = [SCIM_CORE_USER_SCHEMA, SCIM_CORE_GROUP_SCHEMA];
+
+/**
+ * Names that would reach an object's prototype rather than an attribute.
+ * They are rejected in paths and in values, so that a PATCH can never
+ * modify Object.prototype.
+ */
+const FORBIDDEN_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Apply PATCH operations to a resource, returning the updated copy.
+ * The input resource is not modified.
+ *
+ * @throws ScimPatchError if an operation is invalid
+ */
+export function applyPatchOperations<T extends object>(resource: T, operations: ScimPatchOperation[]): T {
+  const result = structuredClone(resource) as JsonObject;
+  for (const operation of operations) {
+    applyOperation(result, operation);
+  }
+  return result as T;
+}
+
+/**
+ * Apply a single PATCH operation in place
+ */
+function applyOperation(resource: JsonObject, operation: ScimPatchOperation): void {
+  const op = typeof operation.op === 'string' ? operation.op.toLowerCase() : '';
+  if (op !== 'add' && op !== 'remove' && op !== 'replace') {
+    throw new ScimPatchError(`Unsupported PATCH operation '${operation.op}'`, 'invalidSyntax');
+  }
+  checkValueKeys(operation.value);
+
+  // Path-less add/replace: the value is a partial resource, applied attribute by attribute
+  if (!operation.path) {
+    if (op === 'remove') {
+      throw new ScimPatchError('A remove operation requires a path', 'noTarget');
+    }
+    if (!isObject(operation.value)) {
+      throw new ScimPatchError('PATCH operation without path requires an object value', 'invalidValue');
+    }
+    for (const [key, value] of Object.entries(operation.value)) {
+      // The schemas attribute describes the request value, not a change
+      if (key === 'schemas') continue;
+      applyOperation(resource, { op, path: key, value });
+    }
+    return;
+  }
+
+  const path = parsePatchPath(operation.path);
+  const target = locate(resource, path.attribute, op !== 'remove');
+  if (!target) {
+    // Removing something that isn't there leaves the resource unchanged
+    return;
+  }
+
+  const { parent, key } = target;
+  const current = parent[key];
+
+  if (path.filter) {
+    applyFilteredOperation(parent, key, path, op, operation.value);
+    return;
+  }
+
+  switch (op) {
+    case 'remove':
+      if (Array.isArray(current) && operation.value !== undefined) {
+        // Remove only the listed values from a multi-valued attribute
+        const toRemove = toArray(operation.value);
+        parent[key] = current.filter((element) => !toRemove.some((v) => sameValue(element, v)));
+      } else {
+        delete parent[key];
+      }
+      return;
+
+    case 'add':
+      if (Array.isArray(current) || Array.isArray(operation.value)) {
+        parent[key] = mergeMultiValued(Array.isArray(current) ? current : [], toArray(operation.value));
+      } else if (isObject(current) && isObject(operation.value)) {
+        Object.assign(current, operation.value);
+      } else {
+        parent[key] = operation.value;
+      }
+      return;
+
+    case 'replace':
+      if (isObject(current) && isObject(operation.value)) {
+        // Sub-attributes not in the value are left unchanged
+        Object.assign(current, operation.value);
+      } else {
+        parent[key] = Array.isArray(operation.value)
+          ? mergeMultiValued([], operation.value)
+          : operation.value;
+      }
+      return;
+  }
+}
+
+/**
+ * Apply an operation whose path selects elements of a multi-valued attribute
+ */
+function applyFilteredOperation(
+  parent: JsonObject,
+  key: string,
+  path: PatchPath,
+  op: 'add' | 'remove' | 'replace',
+  value: unknown
+): void {
+  const filter = path.filter!;
+  const elements = Array.isArray(parent[key]) ? (parent[key] as unknown[]) : [];
+  const matches = elements.filter((e): e is JsonObject => isObject(e) && evaluateFilter(filter, e));
+
+  if (op === 'remove') {
+    if (path.subAttribute) {
+      for (const element of matches) {
+        const subKey = findKey(element, path.subAttribute);
+        if (subKey !== undefined) delete element[subKey];
+      }
+    } else {
+      parent[key] = elements.filter((e) => !matches.includes(e as JsonObject));
+    }
+    return;
+  }
+
+  // add/replace with no matching element creates one from the filter's
+  // equality terms, e.g. emails[type eq "work"].value creates a work email
+  if (matches.length === 0) {
+    const created = equalityTerms(filter);
+    elements.push(created);
+    parent[key] = elements;
+    matches.push(created);
+  }
+
+  for (const element of matches) {
+    if (path.subAttribute) {
+      element[findKey(element, path.subAttribute) ?? path.subAttribute] = value;
+    } else if (isObject(value)) {
+      if (op === 'replace') {
+        for (const k of Object.keys(element)) delete element[k];
+      }
+      Object.assign(element, value);
+    } else {
+      throw new ScimPatchError(`Value for '${key}' must be an object`, 'invalidValue');
+    }
+  }
+
+  enforceSinglePrimary(parent[key] as unknown[]);
+}
+
+/**
+ * Parse a PATCH path into attribute segments, value filter and sub-attribute
+ */
+function parsePatchPath(path: string): PatchPath {
+  const match = /^([^[\]]+?)(?:\[(.+)\](?:\.([A-Za-z$][\w$-]*))?)?$/.exec(path.trim());
+  if (!match) {
+    throw new ScimPatchError(`Invalid path '${path}'`, 'invalidPath');
+  }
+
+  const [, attributePath, filterText, subAttribute] = match;
+  const attribute = splitAttributePath(attributePath);
+  if (attribute.some((segment) => !segment)) {
+    throw new ScimPatchError(`Invalid path '${path}'`, 'invalidPath');
+  }
+  if ([...attribute, subAttribute].some((segment) => segment !== undefined && isForbidden(segment))) {
+    throw new ScimPatchError(`Invalid attribute name in path '${path}'`, 'invalidPath');
+  }
+
+  let filter: FilterExpression | undefined;
+  if (filterText !== undefined) {
+    try {
+      filter = parseFilter(filterText);
+    } catch (error) {
+      if (error instanceof ScimFilterError) {
+        throw new ScimPatchError(`Invalid filter in path '${path}': ${error.message}`, 'invalidPath');
+      }
+      throw error;
+    }
+  }
+
+  return { attribute, filter, subAttribute };
+}
+
+/**
+ * Split an attribute path into segments. A schema URN is kept as a single
+ * segment so that extension attributes resolve inside the extension object:
+ * urn:...:enterprise:2.0:User:department -> ['urn:...:enterprise:2.0:User', 'department']
+ */
+function splitAttributePath(path: string): string[] {
+  if (!path.toLowerCase().startsWith('urn:')) {
+    return path.split('.');
+  }
+
+  // A bare schema URN targets the whole extension object
+  if (/^urn:.+:\d+\.\d+:[A-Za-z]+$/.test(path)) {
+    return [path];
+  }
+
+  const separator = path.lastIndexOf(':');
+  const schema = path.slice(0, separator);
+  const rest = path.slice(separator + 1).split('.');
+
+  if (CORE_SCHEMAS.some((s) => s.toLowerCase() === schema.toLowerCase())) {
+    return rest;
+  }
+  return [schema, ...rest];
+}
+
+/**
+ * Walk to the object that holds the final path segment. Missing intermediate
+ * objects are created when `create` is set; otherwise null is returned.
+ */
+function locate(
+  resource: JsonObject,
+  segments: string[],
+  create: boolean
+): { parent: JsonObject; key: string } | null {
+  let parent = resource;
+
+  for (const segment of segments.slice(0, -1)) {
+    const key = findKey(parent, segment) ?? segment;
+    const child = parent[key];
+
+    if (child === undefined || child === null) {
+      if (!create) return null;
+      parent[key] = {};
+    } else if (!isObject(child)) {
+      throw new ScimPatchError(`Path segment '${segment}' is not a complex attribute`, 'invalidPath');
+    }
+    parent = parent[key] as JsonObject;
+  }
+
+  const last = segments[segments.length - 1];
+  return { parent, key: findKey(parent, last) ?? last };
+}
+
+/**
+ * Reject values with a key that would reach an object's prototype, at any depth
+ */
+function checkValueKeys(value: unknown): void {
+  if (Array.isArray(value)) {
+    value.forEach(checkValueKeys);
+  } else if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (isForbidden(key)) {
+        throw new ScimPatchError(`Invalid attribute name '${key}' in value`, 'invalidValue');
+      }
+      checkValueKeys(child);
+    }
+  }
+}
+
+function isForbidden(name: string): boolean {
+  return FORBIDDEN_NAMES.has(name.toLowerCase());
+}
+
+/**
+ * Find an existing key case-insensitively (attribute names are case-insensitive)
+ */
+function findKey(object: JsonObject, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.keys(object).find((k) => k.toLowerCase() === lower);
+}
+
+/**
+ * Add values to a multi-valued attribute, updating elements with the same value
+ */
+function mergeMultiValued(current: unknown[], additions: unknown[]): unknown[] {
+  const result = [...current];
+  for (const addition of additions) {
+    const index = result.findIndex((existing) => sameValue(existing, addition));
+    if (index === -1) {
+      result.push(addition);
+    } else if (isObject(result[index]) && isObject(addition)) {
+      result[index] = { ...(result[index] as JsonObject), ...addition };
+    }
+  }
+  enforceSinglePrimary(result);
+  return result;
+}
+
+/**
+ * Only one element of a multi-valued attribute may be primary; the last one wins
+ */
+function enforceSinglePrimary(elements: unknown[]): void {
+  const primaries = elements.filter((e): e is JsonObject => isObject(e) && e.primary === true);
+  for (const element of primaries.slice(0, -1)) {
+    element.primary = false;
+  }
+}
+
+/**
+ * Whether two multi-valued elements refer to the same value
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  const left = isObject(a) && 'value' in a ? a.value : a;
+  const right = isObject(b) && 'value' in b ? b.value : b;
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left === right;
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Build an element from the "attr eq value" terms of a filter
+ */
+function equalityTerms(filter: FilterExpression): JsonObject {
+  if (filter.type === 'compare' && filter.operator === 'eq' && !filter.attribute.includes('.') && !isForbidden(filter.attribute)) {
+    return { [filter.attribute]: filter.value };
+  }
+  if (filter.type === 'and') {
+    return { ...equalityTerms(filter.left), ...equalityTerms(filter.right) };
+  }
+  return {};
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
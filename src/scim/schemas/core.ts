@@ -5,6 +5,7 @@
 
 export const SCIM_CORE_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
 export const SCIM_CORE_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_ENTERPRISE_USER_SCHEMA = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
 
 /**
  * SCIM Meta attribute - contains resource metadata
@@ -97,6 +98,32 @@ export interface ScimCoreUser {
   entitlements?: ScimMultiValuedAttribute[];
   roles?: ScimRole[];
   x509Certificates?: ScimMultiValuedAttribute[];
+
+  // Enterprise User extension
+  [SCIM_ENTERPRISE_USER_SCHEMA]?: ScimEnterpriseUser;
+}
+
+/**
+ * SCIM Enterprise User extension
+ * Schema: urn:ietf:params:scim:schemas:extension:enterprise:2.0:User
+ */
+export interface ScimEnterpriseUser {
+  employeeNumber?: string;
+  costCenter?: string;
+  organization?: string;
+  division?: string;
+  department?: string;
+  manager?: ScimManager;
+}
+
+/**
+ * SCIM Enterprise User manager attribute
+ */
+export interface ScimManager {
+  /** id of the manager's User resource */
+  value?: string;
+  $ref?: string;
+  displayName?: string;
 }
 
 /**
@@ -0,0 +1,36 @@
+/**
+ * SCIM Server Error Handling
+ *
+ * Shared error-to-response translation for the SCIM controllers.
+ */
+
+import type { Response } from 'express';
+import { LdScimError } from '../client/launchdarkly.js';
+import { LdApiError } from '../client/launchdarkly-teams.js';
+import { createScimError } from '../schemas/core.js';
+import { GuardrailViolationError } from '../../mapping/guardrails.js';
+import { getLogger } from '../../middleware/logging.js';
+
+/**
+ * Handle errors and return appropriate SCIM error responses
+ */
+export function handleError(error: unknown, res: Response): void {
+  getLogger().error({ error }, 'Request error');
+
+  if (error instanceof LdScimError && error.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  if (error instanceof GuardrailViolationError) {
+    res.status(403).json(createScimError(403, error.message));
+    return;
+  }
+
+  if (error instanceof LdScimError || error instanceof LdApiError) {
+    res.status(error.status).json(createScimError(error.status, error.detail));
+    return;
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  res.status(500).json(createScimError(500, message));
+}
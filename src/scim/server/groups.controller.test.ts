@@ -0,0 +1,148 @@
+import Database from 'better-sqlite3';
+import type { Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGroupsController } from './groups.controller.js';
+import { openDatabase, runWithDatabase } from '../../db/index.js';
+import { createUserMapping } from '../../db/user-mapping.js';
+import { saveIdpUserState } from '../../db/idp-state.js';
+import { addGroupMembers, createGroup, getGroupByAliceId, getGroupMembers } from '../../db/groups.js';
+import { listJobs } from '../../db/jobs.js';
+import { LaunchDarklyScimClient } from '../client/launchdarkly.js';
+import { LD_SCIM_EXTENSION_SCHEMA } from '../schemas/launchdarkly.js';
+import { TeamSync } from '../../mapping/team-sync.js';
+import { createTestConfig } from '../../testing/config.js';
+
+const config = createTestConfig(`
+group_mappings:
+  - aliceGroup: "Engineering"
+    ldCustomRoles: ["developer"]
+`);
+
+function fakeLdClient() {
+  return {
+    getUser: vi.fn(async (id: string) => ({
+      id,
+      userName: 'ada@example.com',
+      [LD_SCIM_EXTENSION_SCHEMA]: { customRole: [], role: 'reader' },
+    })),
+    updateUserCustomRoles: vi.fn(async () => ({})),
+  };
+}
+
+/** Call a controller method with a fake request, returning the status and body sent */
+async function call(
+  method: (req: Request, res: Response) => Promise<void>,
+  params: Record<string, string>,
+  body: unknown
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const req = { params, body, query: {}, baseUrl: '/scim/v2' } as unknown as Request;
+  const sent = { status: 200, body: {} as Record<string, unknown> };
+  const res = {
+    status: vi.fn((status: number) => {
+      sent.status = status;
+      return res;
+    }),
+    json: vi.fn((json: Record<string, unknown>) => {
+      sent.body = json;
+      return res;
+    }),
+  };
+  await method(req, res as unknown as Response);
+  return sent;
+}
+
+let db: Database.Database;
+
+describe('createGroupsController', () => {
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    runWithDatabase(db, () => {
+      for (const name of ['ada', 'bob']) {
+        createUserMapping(`alice-${name}`, null, `ld-${name}`, `${name}@example.com`);
+        saveIdpUserState(`alice-${name}`, {
+          schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+          userName: `${name}@example.com`,
+          active: true,
+        });
+      }
+      createGroup('group-eng', null, 'Engineering');
+      addGroupMembers('group-eng', ['alice-ada']);
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('patchGroup', () => {
+    it('rejects a path-less operation that empties displayName', () => runWithDatabase(db, async () => {
+      const controller = createGroupsController(config, fakeLdClient() as unknown as LaunchDarklyScimClient);
+
+      const { status, body } = await call(controller.patchGroup, { id: 'group-eng' }, {
+        Operations: [{ op: 'replace', value: { displayName: '', members: [{ value: 'alice-bob' }] } }],
+      });
+
+      expect(status).toBe(400);
+      expect(body).toMatchObject({ scimType: 'invalidValue', detail: 'displayName must be a non-empty string' });
+      expect(getGroupByAliceId('group-eng')?.displayName).toBe('Engineering');
+      expect(getGroupMembers('group-eng').map((m) => m.userAliceId)).toEqual(['alice-ada']);
+    }));
+
+    it('restores the group when its team cannot be updated', () => runWithDatabase(db, async () => {
+      const teamSync = { syncGroup: vi.fn(async () => { throw new Error('LaunchDarkly is unavailable'); }) };
+      const controller = createGroupsController(
+        config, fakeLdClient() as unknown as LaunchDarklyScimClient, teamSync as unknown as TeamSync
+      );
+
+      const { status } = await call(controller.patchGroup, { id: 'group-eng' }, {
+        Operations: [
+          { op: 'replace', path: 'displayName', value: 'Platform' },
+          { op: 'add', path: 'members', value: [{ value: 'alice-bob' }] },
+        ],
+      });
+
+      expect(status).toBe(500);
+      expect(teamSync.syncGroup).toHaveBeenCalledWith(expect.objectContaining({ displayName: 'Platform' }));
+      expect(getGroupByAliceId('group-eng')?.displayName).toBe('Engineering');
+      expect(getGroupMembers('group-eng').map((m) => m.userAliceId)).toEqual(['alice-ada']);
+    }));
+  });
+
+  describe('replaceGroup', () => {
+    it('restores the group when its team cannot be updated', () => runWithDatabase(db, async () => {
+      const teamSync = { syncGroup: vi.fn(async () => { throw new Error('LaunchDarkly is unavailable'); }) };
+      const controller = createGroupsController(
+        config, fakeLdClient() as unknown as LaunchDarklyScimClient, teamSync as unknown as TeamSync
+      );
+
+      const { status } = await call(controller.replaceGroup, { id: 'group-eng' }, {
+        displayName: 'Platform',
+        externalId: 'okta-platform',
+        members: [{ value: 'alice-bob' }],
+      });
+
+      expect(status).toBe(500);
+      expect(getGroupByAliceId('group-eng')).toMatchObject({ displayName: 'Engineering', aliceExternalId: null });
+      expect(getGroupMembers('group-eng').map((m) => m.userAliceId)).toEqual(['alice-ada']);
+    }));
+
+    it('queues the member role updates that fail', () => runWithDatabase(db, async () => {
+      const ldClient = fakeLdClient();
+      ldClient.updateUserCustomRoles.mockRejectedValueOnce(new Error('LaunchDarkly is unavailable'));
+      const controller = createGroupsController(config, ldClient as unknown as LaunchDarklyScimClient);
+
+      const { status } = await call(controller.replaceGroup, { id: 'group-eng' }, {
+        displayName: 'Engineering',
+        members: [{ value: 'alice-ada' }, { value: 'alice-bob' }],
+      });
+
+      expect(status).toBe(200);
+      expect(ldClient.updateUserCustomRoles).toHaveBeenCalledWith('ld-bob', ['developer'], undefined);
+      expect(listJobs()).toEqual([expect.objectContaining({
+        aliceId: 'alice-bob',
+        operation: 'group_roles',
+        payload: { previous: [], next: ['Engineering'] },
+      })]);
+    }));
+  });
+});
@@ -0,0 +1,651 @@
+/**
+ * SCIM Groups Controller
+ *
+ * Handles incoming SCIM Group requests from Alice. Groups and memberships are
+ * stored by the gateway. Whenever membership changes, either each member's
+ * LaunchDarkly roles are recomputed from the configured group mappings,
+ * or - with Teams sync enabled - the matching LaunchDarkly team is updated.
+ * In async write mode both are queued as jobs.
+ */
+
+import type { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AppConfig } from '../../config/index.js';
+import { LaunchDarklyScimClient } from '../client/launchdarkly.js';
+import {
+  ScimCoreGroup,
+  ScimGroupMember,
+  ScimPatchOperation,
+  ScimPatchRequest,
+  createScimError,
+  SCIM_CORE_GROUP_SCHEMA,
+} from '../schemas/core.js';
+import { shouldUpdateRoles } from '../../mapping/transformer.js';
+import { applyGroupRoleChange } from '../../mapping/group-roles.js';
+import { TeamSync } from '../../mapping/team-sync.js';
+import { TargetSync } from '../../mapping/target-sync.js';
+import { requestApprovals } from '../../mapping/approvals.js';
+import {
+  GroupRecord,
+  createGroup,
+  getGroupByAliceId,
+  getGroupByExternalId,
+  getGroupByDisplayName,
+  updateGroup,
+  deleteGroup,
+  getAllGroups,
+  getGroupMembers,
+  addGroupMembers,
+  removeGroupMembers,
+  replaceGroupMembers,
+  getGroupsForUser,
+} from '../../db/groups.js';
+import { getUserMappingByAliceId, isPendingLdUser } from '../../db/user-mapping.js';
+import { getIdpUserState } from '../../db/idp-state.js';
+import { enqueueJob, enqueueTeamSync } from '../../db/jobs.js';
+import { transaction } from '../../db/index.js';
+import { getLogger } from '../../middleware/logging.js';
+import { handleError } from './errors.js';
+import { FilterExpression, ScimFilterError, parseFilter, evaluateFilter } from '../filter.js';
+
+/**
+ * Matches a PATCH path selecting a single member, e.g. members[value eq "abc"]
+ */
+const MEMBER_FILTER_PATH = /^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i;
+
+/**
+ * Error thrown to reject a group PATCH, rolling back the operations already applied
+ */
+class GroupPatchError extends Error {
+  constructor(public status: 400 | 409, message: string, public scimType: string) {
+    super(message);
+    this.name = 'GroupPatchError';
+  }
+}
+
+/**
+ * A group's displayName, externalId and members before a change
+ */
+interface GroupSnapshot {
+  displayName: string;
+  aliceExternalId: string | null;
+  memberIds: string[];
+}
+
+/**
+ * Create the groups controller with dependencies
+ */
+export function createGroupsController(
+  config: AppConfig,
+  ldClient: LaunchDarklyScimClient,
+  teamSync?: TeamSync,
+  targetSync?: TargetSync
+) {
+  /**
+   * Capture the group displayNames of each user before a membership change
+   */
+  function snapshotGroupNames(userAliceIds: Iterable<string>): Map<string, string[]> {
+    const snapshot = new Map<string, string[]>();
+    for (const userAliceId of userAliceIds) {
+      snapshot.set(userAliceId, getGroupsForUser(userAliceId).map((g) => g.displayName));
+    }
+    return snapshot;
+  }
+
+  /**
+   * Recompute LD roles for every user whose group-derived roles may have changed.
+   * In async write mode the update is queued behind the user's other writes.
+   */
+  async function syncMemberRoles(previousGroupNames: Map<string, string[]>): Promise<void> {
+    for (const [userAliceId, previous] of previousGroupNames) {
+      const mapping = getUserMappingByAliceId(userAliceId);
+      if (!mapping) {
+        continue;
+      }
+
+      const next = getGroupsForUser(userAliceId).map((g) => g.displayName);
+      if (!shouldUpdateRoles(mappedGroupNames(previous), mappedGroupNames(next))) {
+        continue;
+      }
+
+      if (config.writeMode === 'async') {
+        enqueueJob(userAliceId, 'group_roles', { previous, next });
+        continue;
+      }
+      if (isPendingLdUser(mapping)) {
+        // Roles are resolved from the user's groups when the queued create is applied
+        continue;
+      }
+
+      try {
+        await applyGroupRoleChange(config, ldClient, mapping, previous, next);
+      } catch (error) {
+        // Membership is already stored, and Alice's retry would find nothing to change
+        const job = enqueueJob(userAliceId, 'group_roles', { previous, next });
+        getLogger().warn(
+          { aliceId: userAliceId, ldId: mapping.ldId, jobId: job.id, error: error instanceof Error ? error.message : String(error) },
+          'Failed to sync group roles to LD, queued for retry'
+        );
+      }
+    }
+  }
+
+  /**
+   * The group names that have a group mapping
+   */
+  function mappedGroupNames(groupNames: string[]): string[] {
+    return groupNames.filter((name) => config.mappings.groupMappings.some((m) => m.aliceGroup === name));
+  }
+
+  /**
+   * Request or drop approvals after the members' groups changed, since groups
+   * decide group mappings and target conditions that may require approval
+   */
+  function refreshApprovals(userAliceIds: Iterable<string>): void {
+    for (const userAliceId of userAliceIds) {
+      const document = getIdpUserState(userAliceId)?.document;
+      if (document) {
+        requestApprovals(config, userAliceId, document);
+      }
+    }
+  }
+
+  /**
+   * Propagate a group change to LaunchDarkly, either to the linked team or to
+   * the custom roles of each affected member, then to the affected members in
+   * the additional accounts in LD_TARGETS
+   */
+  async function propagateGroupChange(group: GroupRecord, previousGroupNames: Map<string, string[]>): Promise<void> {
+    // The team goes first, so a failure leaves the approvals as they were and the change can be undone
+    if (teamSync && config.writeMode === 'async') {
+      enqueueTeamSync(group.aliceId);
+    } else if (teamSync) {
+      await teamSync.syncGroup(group);
+    }
+    refreshApprovals(previousGroupNames.keys());
+    if (!teamSync) {
+      await syncMemberRoles(previousGroupNames);
+    }
+    await targetSync?.propagate(previousGroupNames.keys());
+  }
+
+  /**
+   * Put a group back as it was before a change that could not be propagated,
+   * so Alice's retry of the request finds the change still to make
+   */
+  function restoreGroup(aliceId: string, previous: GroupSnapshot): void {
+    transaction(() => {
+      updateGroup(aliceId, { displayName: previous.displayName, aliceExternalId: previous.aliceExternalId });
+      replaceGroupMembers(aliceId, previous.memberIds);
+    });
+    getLogger().warn({ aliceId }, 'Group change could not be propagated to LD, restored the group');
+  }
+
+  /**
+   * Capture a group's displayName and members before a change
+   */
+  function snapshotGroup(group: GroupRecord): GroupSnapshot {
+    return {
+      displayName: group.displayName,
+      aliceExternalId: group.aliceExternalId,
+      memberIds: getGroupMembers(group.aliceId).map((m) => m.userAliceId),
+    };
+  }
+
+  /**
+   * Resolve SCIM member references to known user IDs, skipping unknown users
+   */
+  function resolveMemberIds(members: unknown): string[] {
+    if (!Array.isArray(members)) {
+      return [];
+    }
+
+    const ids: string[] = [];
+    for (const member of members as ScimGroupMember[]) {
+      if (!member?.value) {
+        continue;
+      }
+      if (!getUserMappingByAliceId(member.value)) {
+        getLogger().warn({ memberId: member.value }, 'Ignoring group member that is not a provisioned user');
+        continue;
+      }
+      ids.push(member.value);
+    }
+    return ids;
+  }
+
+  /**
+   * Check displayName/externalId uniqueness against other groups
+   */
+  function findConflict(displayName: string | undefined, externalId: string | undefined, selfId?: string): boolean {
+    const byName = displayName ? getGroupByDisplayName(displayName, selfId) : null;
+    const byExternalId = externalId ? getGroupByExternalId(externalId, selfId) : null;
+    return Boolean(byName || byExternalId);
+  }
+
+  return {
+    /**
+     * POST /scim/v2/Groups - Create a new group
+     */
+    async createGroup(req: Request, res: Response): Promise<void> {
+      try {
+        const aliceGroup = req.body as ScimCoreGroup;
+
+        if (!aliceGroup.displayName) {
+          res.status(400).json(createScimError(400, 'Missing displayName', 'invalidValue'));
+          return;
+        }
+
+        getLogger().info({ displayName: aliceGroup.displayName, externalId: aliceGroup.externalId }, 'Creating group');
+
+        if (findConflict(aliceGroup.displayName, aliceGroup.externalId)) {
+          getLogger().warn({ displayName: aliceGroup.displayName }, 'Group already exists');
+          res.status(409).json(createScimError(409, 'Group already exists', 'uniqueness'));
+          return;
+        }
+
+        const memberIds = resolveMemberIds(aliceGroup.members);
+        const previousGroupNames = snapshotGroupNames(memberIds);
+
+        const aliceId = uuidv4();
+        const group = createGroup(aliceId, aliceGroup.externalId || null, aliceGroup.displayName);
+        addGroupMembers(aliceId, memberIds);
+
+        try {
+          await propagateGroupChange(group, previousGroupNames);
+        } catch (error) {
+          // Don't keep a group whose team could not be created, so Alice can retry the POST
+          deleteGroup(aliceId);
+          throw error;
+        }
+
+        getLogger().info({ aliceId, displayName: group.displayName, members: memberIds.length }, 'Group created successfully');
+
+        res.status(201)
+          .header('Location', `${req.baseUrl}/Groups/${aliceId}`)
+          .json(transformGroupToAliceResponse(group, req.baseUrl));
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * GET /scim/v2/Groups/:id - Get a group by ID
+     */
+    async getGroup(req: Request, res: Response): Promise<void> {
+      try {
+        const group = getGroupByAliceId(req.params.id);
+        if (!group) {
+          res.status(404).json(createScimError(404, 'Group not found', 'noTarget'));
+          return;
+        }
+
+        res.json(transformGroupToAliceResponse(group, req.baseUrl, excludesMembers(req)));
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * GET /scim/v2/Groups - List groups with optional filter
+     */
+    async listGroups(req: Request, res: Response): Promise<void> {
+      try {
+        const filter = req.query.filter as string | undefined;
+        const startIndex = parseInt(req.query.startIndex as string) || 1;
+        const count = parseInt(req.query.count as string) || 100;
+
+        getLogger().debug({ filter, startIndex, count }, 'Listing groups');
+
+        let groups = getAllGroups();
+        if (filter) {
+          let expression: FilterExpression;
+          try {
+            expression = parseFilter(filter);
+          } catch (error) {
+            if (error instanceof ScimFilterError) {
+              getLogger().warn({ filter, reason: error.message }, 'Invalid filter');
+              res.status(400).json(createScimError(400, `Invalid filter: ${error.message}`, 'invalidFilter'));
+              return;
+            }
+            throw error;
+          }
+          groups = groups.filter((g) => evaluateFilter(expression, transformGroupToAliceResponse(g, req.baseUrl)));
+        }
+
+        const paginatedGroups = groups.slice(startIndex - 1, startIndex - 1 + count);
+        const omitMembers = excludesMembers(req);
+
+        res.json({
+          schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
+          totalResults: groups.length,
+          startIndex,
+          itemsPerPage: paginatedGroups.length,
+          Resources: paginatedGroups.map((g) => transformGroupToAliceResponse(g, req.baseUrl, omitMembers)),
+        });
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * PUT /scim/v2/Groups/:id - Replace a group
+     */
+    async replaceGroup(req: Request, res: Response): Promise<void> {
+      try {
+        const aliceId = req.params.id;
+        const aliceGroup = req.body as ScimCoreGroup;
+
+        getLogger().info({ aliceId, displayName: aliceGroup.displayName }, 'Replacing group');
+
+        const group = getGroupByAliceId(aliceId);
+        if (!group) {
+          res.status(404).json(createScimError(404, 'Group not found', 'noTarget'));
+          return;
+        }
+
+        if (!aliceGroup.displayName) {
+          res.status(400).json(createScimError(400, 'Missing displayName', 'invalidValue'));
+          return;
+        }
+
+        if (findConflict(aliceGroup.displayName, aliceGroup.externalId, aliceId)) {
+          res.status(409).json(createScimError(409, 'Group already exists', 'uniqueness'));
+          return;
+        }
+
+        const memberIds = resolveMemberIds(aliceGroup.members);
+        const previous = snapshotGroup(group);
+        const previousGroupNames = snapshotGroupNames(new Set([...previous.memberIds, ...memberIds]));
+
+        const updated = updateGroup(aliceId, {
+          displayName: aliceGroup.displayName,
+          aliceExternalId: aliceGroup.externalId || null,
+        })!;
+        replaceGroupMembers(aliceId, memberIds);
+
+        try {
+          await propagateGroupChange(updated, previousGroupNames);
+        } catch (error) {
+          restoreGroup(aliceId, previous);
+          throw error;
+        }
+
+        res.json(transformGroupToAliceResponse(updated, req.baseUrl));
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * PATCH /scim/v2/Groups/:id - Partially update a group (rename, add/remove members)
+     */
+    async patchGroup(req: Request, res: Response): Promise<void> {
+      try {
+        const aliceId = req.params.id;
+        const patchRequest = req.body as ScimPatchRequest;
+
+        getLogger().info({ aliceId, operations: patchRequest.Operations?.length }, 'Patching group');
+
+        const group = getGroupByAliceId(aliceId);
+        if (!group) {
+          res.status(404).json(createScimError(404, 'Group not found', 'noTarget'));
+          return;
+        }
+
+        if (!Array.isArray(patchRequest.Operations)) {
+          res.status(400).json(createScimError(400, 'Missing Operations', 'invalidSyntax'));
+          return;
+        }
+
+        // Everyone who is or may become a member is potentially affected
+        const previous = snapshotGroup(group);
+        const affected = new Set(previous.memberIds);
+        for (const op of patchRequest.Operations) {
+          for (const id of collectReferencedMembers(op)) {
+            affected.add(id);
+          }
+        }
+        const previousGroupNames = snapshotGroupNames(affected);
+
+        // All operations apply, or none do
+        let updated: GroupRecord;
+        try {
+          updated = transaction(() => {
+            for (const op of patchRequest.Operations) {
+              const error = applyGroupPatchOperation(aliceId, op, resolveMemberIds);
+              if (error) {
+                throw new GroupPatchError(400, error, 'invalidPath');
+              }
+            }
+
+            // Path-less operations can set displayName too, so check the result, as on POST and PUT
+            const patched = getGroupByAliceId(aliceId)!;
+            if (!patched.displayName) {
+              throw new GroupPatchError(400, 'displayName must be a non-empty string', 'invalidValue');
+            }
+
+            // A rename must keep displayName and externalId unique, as on POST and PUT
+            const renamed = patched.displayName !== group.displayName ? patched.displayName : undefined;
+            const reidentified = patched.aliceExternalId !== group.aliceExternalId ? patched.aliceExternalId ?? undefined : undefined;
+            if (findConflict(renamed, reidentified, aliceId)) {
+              throw new GroupPatchError(409, 'Group already exists', 'uniqueness');
+            }
+            return patched;
+          });
+        } catch (error) {
+          if (error instanceof GroupPatchError) {
+            res.status(error.status).json(createScimError(error.status, error.message, error.scimType));
+            return;
+          }
+          throw error;
+        }
+
+        try {
+          await propagateGroupChange(updated, previousGroupNames);
+        } catch (error) {
+          restoreGroup(aliceId, previous);
+          throw error;
+        }
+
+        res.json(transformGroupToAliceResponse(updated, req.baseUrl, excludesMembers(req)));
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+
+    /**
+     * DELETE /scim/v2/Groups/:id - Delete a group
+     */
+    async deleteGroup(req: Request, res: Response): Promise<void> {
+      try {
+        const aliceId = req.params.id;
+
+        getLogger().info({ aliceId }, 'Deleting group');
+
+        const group = getGroupByAliceId(aliceId);
+        if (!group) {
+          // Group doesn't exist - return 204 (idempotent)
+          res.status(204).send();
+          return;
+        }
+
+        const previousGroupNames = snapshotGroupNames(getGroupMembers(aliceId).map((m) => m.userAliceId));
+        if (teamSync && config.writeMode === 'async') {
+          // The job deletes the team, finding the group gone
+          deleteGroup(aliceId);
+          enqueueTeamSync(aliceId);
+        } else if (teamSync) {
+          await teamSync.deleteTeam(aliceId);
+          deleteGroup(aliceId);
+        } else {
+          deleteGroup(aliceId);
+          await syncMemberRoles(previousGroupNames);
+        }
+        refreshApprovals(previousGroupNames.keys());
+        await targetSync?.propagate(previousGroupNames.keys());
+
+        getLogger().info({ aliceId, displayName: group.displayName }, 'Group deleted successfully');
+        res.status(204).send();
+      } catch (error) {
+        handleError(error, res);
+      }
+    },
+  };
+}
+
+/**
+ * Apply a single SCIM PATCH operation to a stored group.
+ * Returns an error message if the operation cannot be applied.
+ */
+function applyGroupPatchOperation(
+  aliceId: string,
+  op: ScimPatchOperation,
+  resolveMemberIds: (members: unknown) => string[]
+): string | null {
+  const opName = op.op?.toLowerCase();
+  const path = op.path?.trim();
+
+  // Path-less operation: value is a partial group resource
+  if (!path) {
+    if (opName === 'remove' || typeof op.value !== 'object' || op.value === null) {
+      return 'PATCH operation without path requires an object value';
+    }
+    const value = op.value as Partial<ScimCoreGroup>;
+    if (value.displayName !== undefined && typeof value.displayName !== 'string') {
+      return 'displayName must be a non-empty string';
+    }
+    if (value.displayName !== undefined || value.externalId !== undefined) {
+      updateGroup(aliceId, {
+        displayName: value.displayName,
+        aliceExternalId: value.externalId,
+      });
+    }
+    if (value.members !== undefined) {
+      const memberIds = resolveMemberIds(value.members);
+      if (opName === 'replace') {
+        replaceGroupMembers(aliceId, memberIds);
+      } else {
+        addGroupMembers(aliceId, memberIds);
+      }
+    }
+    return null;
+  }
+
+  const memberFilter = path.match(MEMBER_FILTER_PATH);
+  if (memberFilter) {
+    if (opName !== 'remove') {
+      return `Unsupported operation '${op.op}' for path '${path}'`;
+    }
+    removeGroupMembers(aliceId, [memberFilter[1]]);
+    return null;
+  }
+
+  switch (path.toLowerCase()) {
+    case 'members': {
+      if (opName === 'remove') {
+        // Without a value every member is removed (RFC 7644 §3.5.2.2)
+        if (op.value === undefined) {
+          replaceGroupMembers(aliceId, []);
+        } else {
+          removeGroupMembers(aliceId, memberValues(op.value));
+        }
+      } else if (opName === 'replace') {
+        replaceGroupMembers(aliceId, resolveMemberIds(op.value));
+      } else {
+        addGroupMembers(aliceId, resolveMemberIds(op.value));
+      }
+      return null;
+    }
+    case 'displayname': {
+      if (opName === 'remove' || typeof op.value !== 'string' || !op.value) {
+        return 'displayName must be a non-empty string';
+      }
+      updateGroup(aliceId, { displayName: op.value });
+      return null;
+    }
+    case 'externalid': {
+      updateGroup(aliceId, { aliceExternalId: opName === 'remove' ? null : String(op.value) });
+      return null;
+    }
+    default:
+      return `Unsupported path '${path}'`;
+  }
+}
+
+/**
+ * Collect the user IDs referenced by a PATCH operation
+ */
+function collectReferencedMembers(op: ScimPatchOperation): string[] {
+  const memberFilter = op.path?.trim().match(MEMBER_FILTER_PATH);
+  if (memberFilter) {
+    return [memberFilter[1]];
+  }
+  if (op.path?.trim().toLowerCase() === 'members') {
+    return memberValues(op.value);
+  }
+  if (!op.path && op.value && typeof op.value === 'object') {
+    return memberValues((op.value as Partial<ScimCoreGroup>).members);
+  }
+  return [];
+}
+
+/**
+ * Extract member values from a SCIM members array
+ */
+function memberValues(members: unknown): string[] {
+  if (!Array.isArray(members)) {
+    return [];
+  }
+  return (members as ScimGroupMember[])
+    .map((m) => m?.value)
+    .filter((v): v is string => typeof v === 'string' && v.length > 0);
+}
+
+/**
+ * Whether the request asked for members to be left out of the response
+ */
+function excludesMembers(req: Request): boolean {
+  const excluded = req.query.excludedAttributes as string | undefined;
+  return Boolean(excluded?.split(',').some((attr) => attr.trim().toLowerCase() === 'members'));
+}
+
+/**
+ * Transform a stored group to an Alice-compatible SCIM response
+ */
+function transformGroupToAliceResponse(
+  group: GroupRecord,
+  baseUrl: string,
+  omitMembers = false
+): ScimCoreGroup {
+  const response: ScimCoreGroup = {
+    schemas: [SCIM_CORE_GROUP_SCHEMA],
+    id: group.aliceId,
+    externalId: group.aliceExternalId ?? undefined,
+    displayName: group.displayName,
+    meta: {
+      resourceType: 'Group',
+      location: `${baseUrl}/Groups/${group.aliceId}`,
+      created: toScimDateTime(group.createdAt),
+      lastModified: toScimDateTime(group.updatedAt),
+    },
+  };
+
+  if (!omitMembers) {
+    response.members = getGroupMembers(group.aliceId).map((member) => ({
+      value: member.userAliceId,
+      display: member.ldUserName ?? undefined,
+      $ref: `${baseUrl}/Users/${member.userAliceId}`,
+      type: 'User',
+    }));
+  }
+
+  return response;
+}
+
+/**
+ * Convert a SQLite datetime('now') value (UTC, no zone) to an ISO 8601 timestamp
+ */
+function toScimDateTime(value: string): string {
+  return new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+}
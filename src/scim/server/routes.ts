@@ -7,18 +7,28 @@
 import { Router, Request, Response } from 'express';
 import { AppConfig } from '../../config/index.js';
 import { LaunchDarklyScimClient } from '../client/launchdarkly.js';
+import { TeamSync } from '../../mapping/team-sync.js';
+import { TargetSync } from '../../mapping/target-sync.js';
 import { createUsersController } from './users.controller.js';
-import { SCIM_CORE_USER_SCHEMA } from '../schemas/core.js';
+import { createGroupsController } from './groups.controller.js';
+import { SCIM_CORE_USER_SCHEMA, SCIM_CORE_GROUP_SCHEMA, SCIM_ENTERPRISE_USER_SCHEMA } from '../schemas/core.js';
+import { countActiveInboundTokens } from '../../db/inbound-tokens.js';
 
 /**
  * Create SCIM router with all endpoints
  */
-export function createScimRouter(config: AppConfig, ldClient: LaunchDarklyScimClient): Router {
+export function createScimRouter(
+  config: AppConfig,
+  ldClient: LaunchDarklyScimClient,
+  teamSync?: TeamSync,
+  targetSync?: TargetSync
+): Router {
   const router = Router();
-  const usersController = createUsersController(config, ldClient);
+  const usersController = createUsersController(config, ldClient, targetSync);
+  const groupsController = createGroupsController(config, ldClient, teamSync, targetSync);
 
   // SCIM Discovery Endpoints
-  router.get('/ServiceProviderConfig', getServiceProviderConfig);
+  router.get('/ServiceProviderConfig', (_req, res) => getServiceProviderConfig(config, res));
   router.get('/Schemas', getSchemas);
   router.get('/ResourceTypes', getResourceTypes);
 
@@ -30,6 +40,14 @@ export function createScimRouter(config: AppConfig, ldClient: LaunchDarklyScimCl
   router.patch('/Users/:id', (req, res) => usersController.patchUser(req, res));
   router.delete('/Users/:id', (req, res) => usersController.deleteUser(req, res));
 
+  // Groups endpoints
+  router.post('/Groups', (req, res) => groupsController.createGroup(req, res));
+  router.get('/Groups', (req, res) => groupsController.listGroups(req, res));
+  router.get('/Groups/:id', (req, res) => groupsController.getGroup(req, res));
+  router.put('/Groups/:id', (req, res) => groupsController.replaceGroup(req, res));
+  router.patch('/Groups/:id', (req, res) => groupsController.patchGroup(req, res));
+  router.delete('/Groups/:id', (req, res) => groupsController.deleteGroup(req, res));
+
   return router;
 }
 
@@ -37,7 +55,7 @@ export function createScimRouter(config: AppConfig, ldClient: LaunchDarklyScimCl
  * GET /scim/v2/ServiceProviderConfig
  * Returns the SCIM Service Provider Configuration
  */
-function getServiceProviderConfig(_req: Request, res: Response): void {
+function getServiceProviderConfig(config: AppConfig, res: Response): void {
   res.json({
     schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
     documentationUri: 'https://github.com/launchdarkly/scim-gateway',
@@ -62,18 +80,41 @@ function getServiceProviderConfig(_req: Request, res: Response): void {
     etag: {
       supported: false,
     },
-    authenticationSchemes: [
-      {
-        type: 'oauthbearertoken',
-        name: 'OAuth Bearer Token',
-        description: 'Authentication scheme using the OAuth Bearer Token Standard',
-        specUri: 'https://www.rfc-editor.org/info/rfc6750',
-        primary: true,
-      },
-    ],
+    authenticationSchemes: authenticationSchemes(config),
   });
 }
 
+/**
+ * The inbound authentication schemes configured. Bearer tokens are listed
+ * unless JWTs are the only scheme in use, since tokens can be issued at any time.
+ */
+function authenticationSchemes(config: AppConfig): Record<string, unknown>[] {
+  const schemes: Record<string, unknown>[] = [];
+
+  if (config.inboundJwt) {
+    schemes.push({
+      type: 'oauthbearertoken',
+      name: 'OAuth 2.0 JWT Bearer Token',
+      description: `JWT signed with RS256 or ES256 by ${config.inboundJwt.issuer}, for audience ${config.inboundJwt.audiences.join(' or ')}`
+        + (config.inboundJwt.requiredScopes.length > 0 ? `, with scopes ${config.inboundJwt.requiredScopes.join(', ')}` : ''),
+      specUri: 'https://www.rfc-editor.org/info/rfc7519',
+      primary: true,
+    });
+  }
+
+  if (!config.inboundJwt || config.gatewayBearerToken || countActiveInboundTokens() > 0) {
+    schemes.push({
+      type: 'oauthbearertoken',
+      name: 'OAuth Bearer Token',
+      description: 'Authentication scheme using the OAuth Bearer Token Standard, with a token issued by the gateway',
+      specUri: 'https://www.rfc-editor.org/info/rfc6750',
+      primary: schemes.length === 0,
+    });
+  }
+
+  return schemes;
+}
+
 /**
  * GET /scim/v2/Schemas
  * Returns the supported schemas
@@ -81,7 +122,7 @@ function getServiceProviderConfig(_req: Request, res: Response): void {
 function getSchemas(_req: Request, res: Response): void {
   res.json({
     schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
-    totalResults: 1,
+    totalResults: 3,
     Resources: [
       {
         id: SCIM_CORE_USER_SCHEMA,
@@ -124,6 +165,48 @@ function getSchemas(_req: Request, res: Response): void {
               },
             ],
           },
+          {
+            name: 'displayName',
+            type: 'string',
+            multiValued: false,
+            required: false,
+            mutability: 'readWrite',
+            returned: 'default',
+          },
+          {
+            name: 'emails',
+            type: 'complex',
+            multiValued: true,
+            required: false,
+            mutability: 'readWrite',
+            returned: 'default',
+            subAttributes: [
+              {
+                name: 'value',
+                type: 'string',
+                multiValued: false,
+                required: true,
+                mutability: 'readWrite',
+                returned: 'default',
+              },
+              {
+                name: 'type',
+                type: 'string',
+                multiValued: false,
+                required: false,
+                mutability: 'readWrite',
+                returned: 'default',
+              },
+              {
+                name: 'primary',
+                type: 'boolean',
+                multiValued: false,
+                required: false,
+                mutability: 'readWrite',
+                returned: 'default',
+              },
+            ],
+          },
           {
             name: 'active',
             type: 'boolean',
@@ -164,6 +247,118 @@ function getSchemas(_req: Request, res: Response): void {
           location: '/scim/v2/Schemas/' + SCIM_CORE_USER_SCHEMA,
         },
       },
+      {
+        id: SCIM_ENTERPRISE_USER_SCHEMA,
+        name: 'EnterpriseUser',
+        description: 'Enterprise User',
+        attributes: [
+          ...['employeeNumber', 'costCenter', 'organization', 'division', 'department'].map((name) => ({
+            name,
+            type: 'string',
+            multiValued: false,
+            required: false,
+            caseExact: false,
+            mutability: 'readWrite',
+            returned: 'default',
+            uniqueness: 'none',
+          })),
+          {
+            name: 'manager',
+            type: 'complex',
+            multiValued: false,
+            required: false,
+            mutability: 'readWrite',
+            returned: 'default',
+            subAttributes: [
+              {
+                name: 'value',
+                type: 'string',
+                multiValued: false,
+                required: false,
+                mutability: 'readWrite',
+                returned: 'default',
+              },
+              {
+                name: '$ref',
+                type: 'reference',
+                referenceTypes: ['User'],
+                multiValued: false,
+                required: false,
+                mutability: 'readWrite',
+                returned: 'default',
+              },
+              {
+                name: 'displayName',
+                type: 'string',
+                multiValued: false,
+                required: false,
+                mutability: 'readOnly',
+                returned: 'default',
+              },
+            ],
+          },
+        ],
+        meta: {
+          resourceType: 'Schema',
+          location: '/scim/v2/Schemas/' + SCIM_ENTERPRISE_USER_SCHEMA,
+        },
+      },
+      {
+        id: SCIM_CORE_GROUP_SCHEMA,
+        name: 'Group',
+        description: 'Group',
+        attributes: [
+          {
+            name: 'displayName',
+            type: 'string',
+            multiValued: false,
+            required: true,
+            caseExact: false,
+            mutability: 'readWrite',
+            returned: 'default',
+            uniqueness: 'server',
+          },
+          {
+            name: 'members',
+            type: 'complex',
+            multiValued: true,
+            required: false,
+            mutability: 'readWrite',
+            returned: 'default',
+            subAttributes: [
+              {
+                name: 'value',
+                type: 'string',
+                multiValued: false,
+                required: true,
+                mutability: 'immutable',
+                returned: 'default',
+              },
+              {
+                name: 'display',
+                type: 'string',
+                multiValued: false,
+                required: false,
+                mutability: 'readOnly',
+                returned: 'default',
+              },
+              {
+                name: '$ref',
+                type: 'reference',
+                referenceTypes: ['User'],
+                multiValued: false,
+                required: false,
+                mutability: 'immutable',
+                returned: 'default',
+              },
+            ],
+          },
+        ],
+        meta: {
+          resourceType: 'Schema',
+          location: '/scim/v2/Schemas/' + SCIM_CORE_GROUP_SCHEMA,
+        },
+      },
     ],
   });
 }
@@ -175,7 +370,7 @@ function getSchemas(_req: Request, res: Response): void {
 function getResourceTypes(_req: Request, res: Response): void {
   res.json({
     schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
-    totalResults: 1,
+    totalResults: 2,
     Resources: [
       {
         schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
@@ -184,11 +379,24 @@ function getResourceTypes(_req: Request, res: Response): void {
         endpoint: '/Users',
         description: 'User Account',
         schema: SCIM_CORE_USER_SCHEMA,
+        schemaExtensions: [{ schema: SCIM_ENTERPRISE_USER_SCHEMA, required: false }],
         meta: {
           resourceType: 'ResourceType',
           location: '/scim/v2/ResourceTypes/User',
         },
       },
+      {
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+        id: 'Group',
+        name: 'Group',
+        endpoint: '/Groups',
+        description: 'Group',
+        schema: SCIM_CORE_GROUP_SCHEMA,
+        meta: {
+          resourceType: 'ResourceType',
+          location: '/scim/v2/ResourceTypes/Group',
+        },
+      },
     ],
   });
 }
@@ -0,0 +1,180 @@
+import Database from 'better-sqlite3';
+import type { Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createUsersController } from './users.controller.js';
+import { openDatabase, runWithDatabase } from '../../db/index.js';
+import { createUserMapping, getUserMappingByAliceId } from '../../db/user-mapping.js';
+import { saveIdpUserState } from '../../db/idp-state.js';
+import { getAllUserTombstones } from '../../db/user-tombstones.js';
+import { removeDeletedUser } from '../../mapping/deprovision.js';
+import { LaunchDarklyScimClient } from '../client/launchdarkly.js';
+import { ScimCoreUser } from '../schemas/core.js';
+import { createTestConfig } from '../../testing/config.js';
+
+const config = createTestConfig(`
+attribute_mappings:
+  userName:
+    lowercase: true
+    domain_rewrites:
+      - from: "corp.example.com"
+        to: "example.com"
+deprovisioning:
+  on_delete: deactivate
+`);
+
+/** Members as LaunchDarkly has them, by ID */
+const ldUserNames: Record<string, string> = {
+  'ld-ada': 'ada@example.com',
+  'ld-bob': 'bob@example.com',
+  'ld-carol': 'caroline@example.com',
+};
+
+const ldClient = {
+  getUser: vi.fn(async (id: string) => ({ id, userName: ldUserNames[id], active: true })),
+} as unknown as LaunchDarklyScimClient;
+
+const controller = createUsersController(config, ldClient);
+
+let db: Database.Database;
+
+/** Store a user as a create from Alice would, sent to LD under its mapped userName */
+function provision(aliceId: string, userName: string, ldId: string): void {
+  const document: ScimCoreUser = {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+    userName,
+    emails: [{ value: userName, primary: true }],
+    active: true,
+  };
+  createUserMapping(aliceId, null, ldId, ldUserNames[ldId]);
+  saveIdpUserState(aliceId, document);
+}
+
+/** The userNames GET /Users returns for a filter */
+async function listUserNames(filter: string): Promise<string[]> {
+  const req = { query: { filter }, baseUrl: '/scim/v2' } as unknown as Request;
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  await controller.listUsers(req, res as unknown as Response);
+  expect(res.status).not.toHaveBeenCalled();
+  const body = res.json.mock.calls[0][0] as { totalResults: number; Resources: ScimCoreUser[] };
+  expect(body.totalResults).toBe(body.Resources.length);
+  return body.Resources.map((user) => user.userName);
+}
+
+/** Delete a user as a DELETE from Alice would, keeping their member */
+function deleteKeepingMember(aliceId: string): void {
+  removeDeletedUser(getUserMappingByAliceId(aliceId)!, config.mappings.deprovisioning, true);
+}
+
+/** A client that restores kept members and finds no existing ones */
+function fakeProvisioningClient() {
+  return {
+    replaceUser: vi.fn(async (id: string, user: ScimCoreUser) => ({ ...user, id })),
+    findUserByUserName: vi.fn(async () => null),
+    createUser: vi.fn(async (user: ScimCoreUser) => ({ ...user, id: 'ld-new' })),
+  };
+}
+
+/** POST /Users, returning the status and body sent */
+async function createUser(client: ReturnType<typeof fakeProvisioningClient>, body: Partial<ScimCoreUser>) {
+  const req = {
+    body: { schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'], active: true, ...body },
+    baseUrl: '/scim/v2',
+  } as unknown as Request;
+  const res = { status: vi.fn(), header: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  res.header.mockReturnValue(res);
+  await createUsersController(config, client as unknown as LaunchDarklyScimClient).createUser(req, res as unknown as Response);
+  return { status: res.status.mock.calls[0][0] as number, body: res.json.mock.calls[0][0] as ScimCoreUser & { id: string } };
+}
+
+describe('createUsersController', () => {
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    runWithDatabase(db, () => {
+      // Ada's userName is rewritten on its way to LD
+      provision('alice-ada', 'Ada@corp.example.com', 'ld-ada');
+      provision('alice-bob', 'bob@example.com', 'ld-bob');
+      // Carol's member was renamed in LD since
+      provision('alice-carol', 'carol@example.com', 'ld-carol');
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('listUsers', () => {
+    it('filters on the userName responses show, not the mapped one stored', () => runWithDatabase(db, async () => {
+      expect(await listUserNames('userName eq "ada@corp.example.com"')).toEqual(['Ada@corp.example.com']);
+      expect(await listUserNames('userName eq "ada@example.com"')).toEqual([]);
+      expect(await listUserNames('userName eq "caroline@example.com"')).toEqual(['caroline@example.com']);
+      expect(await listUserNames('userName eq "carol@example.com"')).toEqual([]);
+    }));
+
+    it('excludes users matching a negated userName filter', () => runWithDatabase(db, async () => {
+      const others = ['bob@example.com', 'caroline@example.com'];
+      expect(await listUserNames('userName ne "Ada@corp.example.com"')).toEqual(others);
+      expect(await listUserNames('not (userName eq "Ada@corp.example.com")')).toEqual(others);
+      expect(await listUserNames('not (userName sw "ada")')).toEqual(others);
+    }));
+
+    it('combines userName with id and externalId', () => runWithDatabase(db, async () => {
+      expect(await listUserNames('id eq "alice-bob" or userName co "corp"')).toEqual(['Ada@corp.example.com', 'bob@example.com']);
+      expect(await listUserNames('userName pr and not (id eq "alice-carol")')).toEqual(['Ada@corp.example.com', 'bob@example.com']);
+    }));
+  });
+
+  describe('createUser', () => {
+    beforeEach(() => runWithDatabase(db, () => {
+      createUserMapping('alice-dan', 'okta-dan', 'ld-dan', 'dan@example.com');
+      deleteKeepingMember('alice-dan');
+    }));
+
+    it('relinks a user deleted before by externalId, even under a new userName', () => runWithDatabase(db, async () => {
+      const client = fakeProvisioningClient();
+
+      const { status, body } = await createUser(client, { externalId: 'okta-dan', userName: 'daniel@example.com' });
+
+      expect(status).toBe(201);
+      expect(body.id).toBe('alice-dan');
+      expect(client.replaceUser).toHaveBeenCalledWith('ld-dan', expect.objectContaining({ userName: 'daniel@example.com' }));
+      expect(client.createUser).not.toHaveBeenCalled();
+      expect(getUserMappingByAliceId('alice-dan')).toMatchObject({ ldId: 'ld-dan', aliceExternalId: 'okta-dan' });
+      expect(getAllUserTombstones()).toEqual([]);
+    }));
+
+    it('relinks by the mapped userName, ignoring case, when no externalId matches', () => runWithDatabase(db, async () => {
+      const client = fakeProvisioningClient();
+
+      const { body } = await createUser(client, { externalId: 'okta-dan-2', userName: 'Dan@corp.example.com' });
+
+      expect(body.id).toBe('alice-dan');
+      expect(client.replaceUser).toHaveBeenCalledWith('ld-dan', expect.anything());
+      expect(getUserMappingByAliceId('alice-dan')).toMatchObject({ ldId: 'ld-dan', aliceExternalId: 'okta-dan-2' });
+    }));
+
+    it('prefers the externalId match to another user\'s userName match', () => runWithDatabase(db, async () => {
+      createUserMapping('alice-erin', 'okta-erin', 'ld-erin', 'erin@example.com');
+      deleteKeepingMember('alice-erin');
+      const client = fakeProvisioningClient();
+
+      const { body } = await createUser(client, { externalId: 'okta-erin', userName: 'dan@example.com' });
+
+      expect(body.id).toBe('alice-erin');
+      expect(client.replaceUser).toHaveBeenCalledWith('ld-erin', expect.anything());
+      expect(getAllUserTombstones().map((t) => t.aliceId)).toEqual(['alice-dan']);
+    }));
+
+    it('creates a new member when no tombstone matches', () => runWithDatabase(db, async () => {
+      const client = fakeProvisioningClient();
+
+      const { body } = await createUser(client, { externalId: 'okta-frank', userName: 'frank@example.com' });
+
+      expect(body.id).not.toBe('alice-dan');
+      expect(client.replaceUser).not.toHaveBeenCalled();
+      expect(client.createUser).toHaveBeenCalledTimes(1);
+      expect(getAllUserTombstones()).toHaveLength(1);
+    }));
+  });
+});
@@ -6,25 +6,84 @@
 
 import type { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { AppConfig } from '../../config/index.js';
-import { LaunchDarklyScimClient, LdScimError } from '../client/launchdarkly.js';
+import { AppConfig, MappingConfig } from '../../config/index.js';
+import { LaunchDarklyScimClient } from '../client/launchdarkly.js';
 import { ScimCoreUser, ScimPatchRequest, createScimError, SCIM_CORE_USER_SCHEMA } from '../schemas/core.js';
 import { LD_SCIM_EXTENSION_SCHEMA, LdScimUserResponse } from '../schemas/launchdarkly.js';
-import { transformAliceUserToLdUser, extractCustomRolesFromAliceUser, shouldUpdateRoles } from '../../mapping/transformer.js';
 import {
+  transformAliceUserToLdUser,
+  transformLdUserToAliceUser,
+  buildLdPatchOperations,
+  isDowngraded,
+  recordRoleMappingResults,
+} from '../../mapping/transformer.js';
+import { provisionLdUser } from '../../mapping/provision.js';
+import { deprovisionLdUser, removeDeletedUser } from '../../mapping/deprovision.js';
+import { applyAttributeMappings, primaryEmail } from '../../mapping/attributes.js';
+import { TargetSync } from '../../mapping/target-sync.js';
+import { requestApprovals, rolesInEffect } from '../../mapping/approvals.js';
+import {
+  UserMapping,
+  PENDING_LD_ID,
   createUserMapping,
   getUserMappingByAliceId,
   getUserMappingByExternalId,
   updateUserMapping,
-  deleteUserMapping,
   getAllUserMappings,
+  isPendingLdUser,
 } from '../../db/user-mapping.js';
-import { logger } from '../../middleware/logging.js';
+import { findUserTombstone, deleteUserTombstone } from '../../db/user-tombstones.js';
+import { getGroupsForUser } from '../../db/groups.js';
+import { saveIdpUserState, getIdpUserState } from '../../db/idp-state.js';
+import { getApprovedEntries } from '../../db/role-approvals.js';
+import { enqueueJob, hasOpenJobs } from '../../db/jobs.js';
+import { transaction } from '../../db/index.js';
+import { getLogger } from '../../middleware/logging.js';
+import { handleError } from './errors.js';
+import { applyPatchOperations, ScimPatchError } from '../patch.js';
+import {
+  FilterExpression,
+  ScimFilterError,
+  parseFilter,
+  evaluateFilter,
+  getFilterAttributes,
+} from '../filter.js';
+
+/**
+ * Attributes that can be filtered on using only the stored user mappings
+ */
+const MAPPING_FILTER_ATTRIBUTES = new Set(['id', 'username', 'externalid']);
 
 /**
  * Create the users controller with dependencies
+ *
+ * @param targetSync fans writes out to the additional accounts in LD_TARGETS
  */
-export function createUsersController(config: AppConfig, ldClient: LaunchDarklyScimClient) {
+export function createUsersController(
+  config: AppConfig,
+  ldClient: LaunchDarklyScimClient,
+  targetSync?: TargetSync
+) {
+  /**
+   * Group displayNames whose mapped roles are assigned to the member directly.
+   * With Teams sync enabled, group roles are attached to the LD team instead.
+   */
+  function memberGroupNames(aliceId: string): string[] {
+    if (config.ldTeams) {
+      return [];
+    }
+    return getGroupsForUser(aliceId).map((g) => g.displayName);
+  }
+
+  /**
+   * Users whose writes are still queued are answered from the document Alice
+   * submitted, since their LD member does not reflect it yet
+   */
+  function isQueued(mapping: UserMapping): boolean {
+    return isPendingLdUser(mapping)
+      || (hasOpenJobs(mapping.aliceId) && getIdpUserState(mapping.aliceId) !== null);
+  }
+
   return {
     /**
      * POST /scim/v2/Users - Create a new user
@@ -34,70 +93,80 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
         const aliceUser = req.body as ScimCoreUser;
 
         // Validate required fields - emails is required by LaunchDarkly SCIM API
-        const emailValue = aliceUser.emails?.[0]?.value || aliceUser.userName;
+        const mapped = applyAttributeMappings(aliceUser, config.mappings);
+        const emailValue = primaryEmail(mapped) || mapped.userName;
         if (!emailValue) {
           res.status(400).json(createScimError(400, 'Missing emails or userName', 'invalidValue'));
           return;
         }
 
-        logger.info({ userName: aliceUser.userName, email: emailValue, externalId: aliceUser.externalId }, 'Creating user');
+        getLogger().info({ userName: aliceUser.userName, email: emailValue, externalId: aliceUser.externalId }, 'Creating user');
 
         // Check if user already exists (by externalId)
         if (aliceUser.externalId) {
           const existingMapping = getUserMappingByExternalId(aliceUser.externalId);
           if (existingMapping) {
-            logger.warn({ externalId: aliceUser.externalId }, 'User already exists');
+            getLogger().warn({ externalId: aliceUser.externalId }, 'User already exists');
             res.status(409).json(createScimError(409, 'User already exists', 'uniqueness'));
             return;
           }
         }
 
-        // Check if user already exists in LD by userName (or email if userName not provided)
-        const searchUserName = aliceUser.userName || emailValue;
-        const existingLdUser = await ldClient.findUserByUserName(searchUserName);
-        if (existingLdUser) {
-          // User exists in LD but not in our mapping - create mapping and return
-          const aliceId = uuidv4();
-          createUserMapping(
-            aliceId,
-            aliceUser.externalId || null,
-            existingLdUser.id,
-            existingLdUser.userName
-          );
+        // A user Alice deleted before gets their ID and the LD member kept for them back
+        const tombstone = findUserTombstone(aliceUser.externalId || null, mapped.userName || emailValue);
+        if (tombstone) {
+          getLogger().info({ aliceId: tombstone.aliceId, ldId: tombstone.ldId }, 'Relinking user deleted before');
+        }
 
-          // Update the user's roles in LD
-          const customRoles = extractCustomRolesFromAliceUser(aliceUser, config.mappings);
-          if (customRoles.length > 0) {
-            await ldClient.updateUserCustomRoles(existingLdUser.id, customRoles);
-          }
+        if (config.writeMode === 'async') {
+          // Refuse a user the guardrails would refuse now, rather than when the job runs
+          ldClient.checkCreate(transformAliceUserToLdUser(aliceUser, config.mappings));
+
+          const aliceId = tombstone?.aliceId ?? uuidv4();
+          const job = transaction(() => {
+            if (tombstone) {
+              deleteUserTombstone(tombstone.aliceId);
+            }
+            createUserMapping(aliceId, aliceUser.externalId || null, PENDING_LD_ID, mapped.userName || emailValue);
+            saveIdpUserState(aliceId, aliceUser);
+            requestApprovals(config, aliceId, aliceUser);
+            return enqueueJob(aliceId, 'create', { document: aliceUser, previousLdId: tombstone?.ldId });
+          });
 
-          logger.info({ userName: searchUserName, ldId: existingLdUser.id }, 'Linked existing LD user');
+          getLogger().info({ userName: aliceUser.userName, aliceId, jobId: job.id }, 'User creation queued');
+          await targetSync?.propagate([aliceId]);
 
           res.status(201)
             .header('Location', `${req.baseUrl}/Users/${aliceId}`)
-            .json(transformLdResponseToAliceResponse(existingLdUser, aliceId, req.baseUrl));
+            .json(transformLdResponseToAliceResponse(undefined, aliceId, req.baseUrl, config.mappings));
           return;
         }
 
-        // Transform Alice user to LD user
-        const ldUserPayload = transformAliceUserToLdUser(aliceUser, config.mappings);
-
-        // Create user in LaunchDarkly
-        const ldUser = await ldClient.createUser(ldUserPayload);
+        // Create the user in LaunchDarkly, restore their kept member, or link an existing member with the same userName
+        const { ldUser, linked } = await provisionLdUser(config.mappings, ldClient, aliceUser, [], tombstone?.ldId);
+        recordRoleMappingResults(aliceUser, config.mappings);
 
         // Store the ID mapping
-        const aliceId = uuidv4();
+        const aliceId = tombstone?.aliceId ?? uuidv4();
+        if (tombstone) {
+          deleteUserTombstone(tombstone.aliceId);
+        }
         createUserMapping(
           aliceId,
           aliceUser.externalId || null,
           ldUser.id,
           ldUser.userName
         );
+        saveIdpUserState(aliceId, aliceUser);
+        requestApprovals(config, aliceId, aliceUser);
 
-        logger.info({ userName: ldUser.userName, aliceId, ldId: ldUser.id }, 'User created successfully');
+        if (!linked) {
+          getLogger().info({ userName: ldUser.userName, aliceId, ldId: ldUser.id }, 'User created successfully');
+        }
+        await targetSync?.propagate([aliceId]);
 
         // Return SCIM response
-        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl);
+        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl, config.mappings);
         res.status(201)
           .header('Location', `${req.baseUrl}/Users/${aliceId}`)
           .json(response);
@@ -119,8 +188,8 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
           return;
         }
 
-        const ldUser = await ldClient.getUser(mapping.ldId);
-        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl);
+        const ldUser = isQueued(mapping) ? undefined : await ldClient.getUser(mapping.ldId);
+        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl, config.mappings);
         res.json(response);
       } catch (error) {
         handleError(error, res);
@@ -136,19 +205,52 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
         const startIndex = parseInt(req.query.startIndex as string) || 1;
         const count = parseInt(req.query.count as string) || 100;
 
-        logger.debug({ filter, startIndex, count }, 'Listing users');
+        getLogger().debug({ filter, startIndex, count }, 'Listing users');
+
+        let expression: FilterExpression | undefined;
+        if (filter) {
+          try {
+            expression = parseFilter(filter);
+          } catch (error) {
+            if (error instanceof ScimFilterError) {
+              getLogger().warn({ filter, reason: error.message }, 'Invalid filter');
+              res.status(400).json(createScimError(400, `Invalid filter: ${error.message}`, 'invalidFilter'));
+              return;
+            }
+            throw error;
+          }
+        }
 
         // Get all our mappings
         const mappings = getAllUserMappings();
 
-        // If there's a userName filter, apply it
+        // Filters on id, userName and externalId are answered from our mappings;
+        // anything else is evaluated against the users' LaunchDarkly state
         let filteredMappings = mappings;
-        if (filter) {
-          const match = filter.match(/userName\s+eq\s+"([^"]+)"/i);
-          if (match) {
-            const userName = match[1];
-            filteredMappings = mappings.filter((m) => m.ldUserName === userName);
-          }
+        let ldUsers: Map<string, LdScimUserResponse> | undefined;
+        if (expression && isMappingFilter(expression)) {
+          const mappingFilter = expression;
+          filteredMappings = mappings.filter((m) => {
+            // The stored userName is the one sent to LD, after the attribute mappings;
+            // match the one responses show, which is usually the userName Alice sent
+            const submitted = getIdpUserState(m.aliceId)?.document;
+            const userName = submitted
+              ? displayedUserName(submitted, true, isQueued(m) ? undefined : m.ldUserName, config.mappings)
+              : m.ldUserName;
+            return evaluateFilter(mappingFilter, { id: m.aliceId, userName, externalId: m.aliceExternalId ?? undefined });
+          });
+        } else if (expression) {
+          const userFilter = expression;
+          const usersById = await ldClient.listAllUsers({ cached: true });
+          ldUsers = usersById;
+          filteredMappings = mappings.filter((m) => {
+            const queued = isQueued(m);
+            const ldUser = queued ? undefined : usersById.get(m.ldId);
+            return (queued || ldUser !== undefined) && evaluateFilter(
+              userFilter,
+              transformLdResponseToAliceResponse(ldUser, m.aliceId, req.baseUrl, config.mappings)
+            );
+          });
         }
 
         // Paginate
@@ -158,10 +260,13 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
         const resources = await Promise.all(
           paginatedMappings.map(async (mapping) => {
             try {
-              const ldUser = await ldClient.getUser(mapping.ldId);
-              return transformLdResponseToAliceResponse(ldUser, mapping.aliceId, req.baseUrl);
-            } catch {
-              // User might have been deleted from LD
+              const ldUser = isQueued(mapping)
+                ? undefined
+                : ldUsers?.get(mapping.ldId) ?? await ldClient.getUser(mapping.ldId);
+              return transformLdResponseToAliceResponse(ldUser, mapping.aliceId, req.baseUrl, config.mappings);
+            } catch (error) {
+              // User might have been deleted from LD; the reconciler reports these
+              getLogger().warn({ aliceId: mapping.aliceId, ldId: mapping.ldId, error }, 'Skipping user missing from LD');
               return null;
             }
           })
@@ -187,7 +292,7 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
         const aliceId = req.params.id;
         const aliceUser = req.body as ScimCoreUser;
 
-        logger.info({ aliceId, userName: aliceUser.userName }, 'Replacing user');
+        getLogger().info({ aliceId, userName: aliceUser.userName }, 'Replacing user');
 
         const mapping = getUserMappingByAliceId(aliceId);
         if (!mapping) {
@@ -195,16 +300,34 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
           return;
         }
 
-        // Transform and replace in LD
-        const ldUserPayload = transformAliceUserToLdUser(aliceUser, config.mappings);
+        if (config.writeMode === 'async') {
+          const job = transaction(() => {
+            saveIdpUserState(aliceId, aliceUser);
+            requestApprovals(config, aliceId, aliceUser);
+            return enqueueJob(aliceId, 'replace', { document: aliceUser });
+          });
+          getLogger().info({ aliceId, jobId: job.id }, 'User replacement queued');
+          await targetSync?.propagate([aliceId]);
+          res.json(transformLdResponseToAliceResponse(undefined, aliceId, req.baseUrl, config.mappings));
+          return;
+        }
+
+        // Transform and replace in LD, keeping roles granted through group membership and approved grants
+        const groupNames = memberGroupNames(aliceId);
+        const approvedEntries = getApprovedEntries(aliceId);
+        const ldUserPayload = transformAliceUserToLdUser(aliceUser, config.mappings, groupNames, approvedEntries);
         const ldUser = await ldClient.replaceUser(mapping.ldId, ldUserPayload);
+        recordRoleMappingResults(aliceUser, config.mappings, groupNames, approvedEntries);
+        saveIdpUserState(aliceId, aliceUser);
+        requestApprovals(config, aliceId, aliceUser);
+        await targetSync?.propagate([aliceId]);
 
         // Update mapping if userName changed
         if (ldUser.userName !== mapping.ldUserName) {
           updateUserMapping(aliceId, { ldUserName: ldUser.userName });
         }
 
-        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl);
+        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl, config.mappings);
         res.json(response);
       } catch (error) {
         handleError(error, res);
@@ -219,7 +342,7 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
         const aliceId = req.params.id;
         const patchRequest = req.body as ScimPatchRequest;
 
-        logger.info({ aliceId, operations: patchRequest.Operations?.length }, 'Patching user');
+        getLogger().info({ aliceId, operations: patchRequest.Operations?.length }, 'Patching user');
 
         const mapping = getUserMappingByAliceId(aliceId);
         if (!mapping) {
@@ -227,39 +350,79 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
           return;
         }
 
-        // Process patch operations
-        // We need to translate role-related patches
-        const ldOperations = patchRequest.Operations.map((op) => {
-          // If patching 'active', pass through
-          if (op.path === 'active') {
-            return op;
-          }
+        if (!Array.isArray(patchRequest.Operations)) {
+          res.status(400).json(createScimError(400, 'Missing Operations', 'invalidSyntax'));
+          return;
+        }
 
-          // If patching 'roles', translate to LD customRoles
-          if (op.path === 'roles') {
-            const roles = Array.isArray(op.value) ? op.value : [];
-            const customRoles = roles
-              .map((r: { value: string }) => {
-                const roleMapping = config.mappings.roleMappings.find(
-                  (m) => m.aliceRole === r.value
-                );
-                return roleMapping?.ldCustomRoles || [];
-              })
-              .flat();
-
-            return {
-              op: op.op,
-              path: LD_SCIM_EXTENSION_SCHEMA,
-              value: { customRole: customRoles },
-            };
+        // Apply the operations to the user's current state in Alice's shape: the
+        // last document Alice submitted, or one reconstructed from LD if none is stored.
+        // Queued writes only need LD when there is no stored document.
+        const storedUser = getIdpUserState(aliceId)?.document;
+        const currentLdUser = storedUser && config.writeMode === 'async'
+          ? undefined
+          : await ldClient.getUser(mapping.ldId);
+        const currentUser = storedUser ?? transformLdUserToAliceUser(currentLdUser!, config.mappings);
+
+        let patchedUser: ScimCoreUser;
+        try {
+          patchedUser = applyPatchOperations(currentUser, patchRequest.Operations);
+        } catch (error) {
+          if (error instanceof ScimPatchError) {
+            getLogger().warn({ aliceId, reason: error.message }, 'Invalid PATCH request');
+            res.status(400).json(createScimError(400, error.message, error.scimType));
+            return;
           }
+          throw error;
+        }
 
-          // Pass through other operations
-          return op;
-        });
+        // Some IdPs send booleans as strings ("False")
+        if (typeof patchedUser.active === 'string') {
+          patchedUser.active = (patchedUser.active as string).toLowerCase() === 'true';
+        }
+
+        if (config.writeMode === 'async') {
+          const job = transaction(() => {
+            saveIdpUserState(aliceId, patchedUser);
+            requestApprovals(config, aliceId, patchedUser);
+            return enqueueJob(aliceId, 'patch', { before: currentUser, after: patchedUser });
+          });
+          getLogger().info({ aliceId, jobId: job.id }, 'User patch queued');
+          await targetSync?.propagate([aliceId]);
+          res.json(transformLdResponseToAliceResponse(undefined, aliceId, req.baseUrl, config.mappings));
+          return;
+        }
+
+        // Translate the change into LD operations by comparing both states in LD's shape
+        const groupNames = memberGroupNames(aliceId);
+        const approvedEntries = getApprovedEntries(aliceId);
+        const ldOperations = buildLdPatchOperations(
+          transformAliceUserToLdUser(currentUser, config.mappings, groupNames, approvedEntries),
+          transformAliceUserToLdUser(patchedUser, config.mappings, groupNames, approvedEntries)
+        );
+
+        let ldUser = currentLdUser!;
+        if (isDowngraded(currentUser, config.mappings) && !isDowngraded(patchedUser, config.mappings)) {
+          // Reactivating a downgraded member replaces it, so it loses the no_access base role too
+          ldUser = await ldClient.replaceUser(
+            mapping.ldId, transformAliceUserToLdUser(patchedUser, config.mappings, groupNames, approvedEntries)
+          );
+        } else if (ldOperations.length > 0) {
+          ldUser = await ldClient.patchUser(mapping.ldId, ldOperations);
+        } else {
+          getLogger().debug({ aliceId }, 'PATCH resulted in no LD changes');
+        }
+        recordRoleMappingResults(patchedUser, config.mappings, groupNames, approvedEntries);
+        saveIdpUserState(aliceId, patchedUser);
+        requestApprovals(config, aliceId, patchedUser);
+        await targetSync?.propagate([aliceId]);
 
-        const ldUser = await ldClient.patchUser(mapping.ldId, ldOperations);
-        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl);
+        // Update mapping if userName changed
+        if (ldUser.userName !== mapping.ldUserName) {
+          updateUserMapping(aliceId, { ldUserName: ldUser.userName });
+        }
+
+        const response = transformLdResponseToAliceResponse(ldUser, aliceId, req.baseUrl, config.mappings);
         res.json(response);
       } catch (error) {
         handleError(error, res);
@@ -267,13 +430,13 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
     },
 
     /**
-     * DELETE /scim/v2/Users/:id - Delete/deactivate a user
+     * DELETE /scim/v2/Users/:id - Deprovision a user under the deprovisioning policy
      */
     async deleteUser(req: Request, res: Response): Promise<void> {
       try {
         const aliceId = req.params.id;
 
-        logger.info({ aliceId }, 'Deleting user');
+        getLogger().info({ aliceId }, 'Deleting user');
 
         const mapping = getUserMappingByAliceId(aliceId);
         if (!mapping) {
@@ -282,20 +445,28 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
           return;
         }
 
-        // Delete from LaunchDarkly
-        try {
-          await ldClient.deleteUser(mapping.ldId);
-        } catch (error) {
-          // If already deleted in LD, continue to clean up mapping
-          if (!(error instanceof LdScimError && error.status === 404)) {
-            throw error;
-          }
+        const policy = config.mappings.deprovisioning;
+
+        if (config.writeMode === 'async') {
+          const job = transaction(() => {
+            const ldId = isPendingLdUser(mapping) ? null : mapping.ldId;
+            removeDeletedUser(mapping, policy, ldId !== null);
+            return enqueueJob(aliceId, 'delete', { ldId, action: policy.onDelete });
+          });
+          getLogger().info({ aliceId, jobId: job.id, action: policy.onDelete }, 'User deletion queued');
+          await targetSync?.propagate([aliceId]);
+          res.status(204).send();
+          return;
         }
 
-        // Remove the mapping
-        deleteUserMapping(aliceId);
+        // Delete, deactivate or downgrade the member; a member already deleted in LD leaves no tombstone
+        const hasLdMember = await deprovisionLdUser(ldClient, mapping.ldId, policy.onDelete);
 
-        logger.info({ aliceId, ldId: mapping.ldId }, 'User deleted successfully');
+        // Remove the mapping, stored IdP state and any group memberships
+        removeDeletedUser(mapping, policy, hasLdMember);
+        await targetSync?.propagate([aliceId]);
+
+        getLogger().info({ aliceId, ldId: mapping.ldId, action: policy.onDelete }, 'User deleted successfully');
         res.status(204).send();
       } catch (error) {
         handleError(error, res);
@@ -305,52 +476,91 @@ export function createUsersController(config: AppConfig, ldClient: LaunchDarklyS
 }
 
 /**
- * Transform LD user response to Alice-compatible SCIM response
+ * Whether a filter only references attributes held in the user mappings
+ */
+function isMappingFilter(expression: FilterExpression): boolean {
+  return getFilterAttributes(expression).every((attr) => MAPPING_FILTER_ATTRIBUTES.has(attr));
+}
+
+/**
+ * Transform LD user response to Alice-compatible SCIM response.
+ *
+ * The response is built from the last document Alice submitted, so Alice sees
+ * her own role values and attributes rather than LaunchDarkly's. Live LD state
+ * is authoritative for active, except for users Alice set inactive, and,
+ * unless it only differs in case or by the attribute mappings, userName.
+ * Users without a stored document are reconstructed from LD, with custom roles
+ * mapped back to Alice role values. Without an LD user (writes still queued),
+ * the response is the stored document alone. Role values whose grant is held
+ * for approval are left out until it is approved.
  */
 function transformLdResponseToAliceResponse(
-  ldUser: LdScimUserResponse,
+  ldUser: LdScimUserResponse | undefined,
   aliceId: string,
-  baseUrl: string
+  baseUrl: string,
+  mappings: MappingConfig
 ): ScimCoreUser {
-  // Get the LD extension if present
-  const ldExtension = ldUser[LD_SCIM_EXTENSION_SCHEMA];
+  const state = getIdpUserState(aliceId);
+  const submitted = state?.document ?? transformLdUserToAliceUser(ldUser!, mappings);
+
+  // Group membership is read-only on the User and owned by the /Groups resource
+  const groups = getGroupsForUser(aliceId).map((group) => ({
+    value: group.aliceId,
+    display: group.displayName,
+    $ref: `${baseUrl}/Groups/${group.aliceId}`,
+    type: 'direct' as const,
+  }));
 
-  // Convert LD customRoles back to SCIM roles for Alice
-  // This is informational - Alice sees what roles are actually assigned
-  const roles = ldExtension?.customRole?.map((role) => ({
-    value: role,
-    type: 'launchdarkly',
-  })) || [];
+  const userName = displayedUserName(submitted, state !== null, ldUser?.userName, mappings);
+
+  // Roles held for approval are not in effect
+  const roles = rolesInEffect(aliceId, submitted.roles, mappings);
 
   return {
-    schemas: [SCIM_CORE_USER_SCHEMA],
+    ...submitted,
+    ...(roles && { roles }),
+    schemas: submitted.schemas?.length ? submitted.schemas : [SCIM_CORE_USER_SCHEMA],
     id: aliceId,
-    externalId: ldUser.externalId,
-    userName: ldUser.userName,
-    name: ldUser.name,
-    active: ldUser.active,
-    roles,
+    externalId: submitted.externalId ?? ldUser?.externalId,
+    userName,
+    // Members downgraded for being inactive stay active in LD
+    active: submitted.active === false ? false : ldUser?.active ?? submitted.active,
+    ...(groups.length > 0 && { groups }),
     meta: {
       resourceType: 'User',
       location: `${baseUrl}/Users/${aliceId}`,
-      created: ldUser.meta?.created,
-      lastModified: ldUser.meta?.lastModified,
+      created: ldUser ? ldUser.meta?.created : toIsoTimestamp(state?.createdAt),
+      lastModified: ldUser ? ldUser.meta?.lastModified : toIsoTimestamp(state?.updatedAt),
     },
   };
 }
 
 /**
- * Handle errors and return appropriate SCIM error responses
+ * The userName a response shows: the one Alice sent, unless the LD member's
+ * differs from it by more than case or the attribute mappings
+ *
+ * @param stored whether submitted is the stored IdP document, rather than rebuilt from LD
+ * @param ldUserName the LD member's userName, or undefined while its writes are queued
  */
-function handleError(error: unknown, res: Response): void {
-  logger.error({ error }, 'Request error');
-
-  if (error instanceof LdScimError) {
-    res.status(error.status).json(createScimError(error.status, error.detail));
-    return;
+function displayedUserName(
+  submitted: ScimCoreUser,
+  stored: boolean,
+  ldUserName: string | undefined,
+  mappings: MappingConfig
+): string {
+  if (ldUserName === undefined) {
+    return submitted.userName;
   }
-
-  const message = error instanceof Error ? error.message : 'Unknown error';
-  res.status(500).json(createScimError(500, message));
+  const mappedUserName = stored ? applyAttributeMappings(submitted, mappings).userName : submitted.userName;
+  return submitted.userName?.toLowerCase() === ldUserName.toLowerCase()
+    || mappedUserName?.toLowerCase() === ldUserName.toLowerCase()
+    ? submitted.userName
+    : ldUserName;
 }
 
+/**
+ * Convert an SQLite datetime('now') value (UTC) to ISO 8601
+ */
+function toIsoTimestamp(value: string | undefined): string | undefined {
+  return value ? new Date(`${value.replace(' ', 'T')}Z`).toISOString() : undefined;
+}
@@ -0,0 +1,33 @@
+/**
+ * Tenant Context
+ *
+ * Tracks which tenant the current work belongs to. A tenant's requests and
+ * background tasks run inside runInTenant, which also selects the tenant's
+ * database and adds the tenant to log lines.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type Database from 'better-sqlite3';
+import { runWithDatabase } from '../db/index.js';
+import { withLogBindings } from '../middleware/logging.js';
+
+/** Name of the only tenant of a gateway without TENANTS */
+export const DEFAULT_TENANT = 'default';
+
+const tenantStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Name of the tenant the current work belongs to, if any
+ */
+export function currentTenant(): string | undefined {
+  return tenantStorage.getStore();
+}
+
+/**
+ * Run fn, and everything it starts, as work of a tenant
+ */
+export function runInTenant<T>(tenant: string, database: Database.Database, fn: () => T): T {
+  const run = () => runWithDatabase(database, () => tenantStorage.run(tenant, fn));
+  // A single-tenant gateway logs as before, without a tenant field
+  return tenant === DEFAULT_TENANT ? run() : withLogBindings({ tenant }, run);
+}
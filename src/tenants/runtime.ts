@@ -0,0 +1,314 @@
+/**
+ * Tenant Runtime
+ *
+ * Everything that serves one IdP/LaunchDarkly pairing: its database, token
+ * provider and LaunchDarkly clients, SCIM and admin routes, health checks and
+ * background tasks. A single-tenant gateway runs one tenant at the root
+ * paths; with TENANTS set, each tenant is served under /t/{tenant}.
+ */
+
+import { Express, Request, Response, NextFunction } from 'express';
+import { AppConfig, LdTargetConfig, PRIMARY_TARGET } from '../config/index.js';
+import { watchMappingConfig } from '../config/reload.js';
+import { openDatabase, closeDatabase } from '../db/index.js';
+import { interruptRunningReapplyRuns } from '../db/reapply-runs.js';
+import { countJobsByStatus } from '../db/jobs.js';
+import { countUserMappings } from '../db/user-mapping.js';
+import { countUserTargetMappings } from '../db/user-target-mapping.js';
+import { countActiveInboundTokens } from '../db/inbound-tokens.js';
+import { countUserTombstones } from '../db/user-tombstones.js';
+import { countRoleApprovals } from '../db/role-approvals.js';
+import { logger } from '../middleware/logging.js';
+import { trackUserMappings } from '../middleware/metrics.js';
+import { bearerTokenAuth, inboundTokenAuth } from '../middleware/auth.js';
+import { TokenManager, TokenStatus } from '../auth/token-manager.js';
+import { createTokenCache } from '../auth/token-cache.js';
+import { createJwtVerifier } from '../auth/jwt.js';
+import { LaunchDarklyScimClient, createStaticTokenProvider, TokenProvider } from '../scim/client/launchdarkly.js';
+import { LaunchDarklyTeamsClient } from '../scim/client/launchdarkly-teams.js';
+import { createConcurrencyLimiter } from '../scim/client/limiter.js';
+import { createLdUserCache } from '../scim/client/user-cache.js';
+import { createCircuitBreaker } from '../scim/client/circuit-breaker.js';
+import { createWriteGuard } from '../mapping/guardrails.js';
+import { createReadinessChecker, ReadinessReport } from '../health/readiness.js';
+import { createTeamSync, TeamSync } from '../mapping/team-sync.js';
+import { createTargetSync } from '../mapping/target-sync.js';
+import { createScimRouter } from '../scim/server/routes.js';
+import { createMappingReapplier } from '../mapping/reapply.js';
+import { createReconciler } from '../mapping/reconcile.js';
+import { createApprovalQueue } from '../mapping/approvals.js';
+import { createAdminRouter } from '../admin/routes.js';
+import { createJobWorker } from '../jobs/worker.js';
+import { runInTenant } from './context.js';
+
+export type Tenant = ReturnType<typeof createTenant>;
+
+/**
+ * Create a tenant's runtime. Nothing runs in the background until start().
+ */
+export function createTenant(name: string, config: AppConfig) {
+  const database = openDatabase(config.databasePath);
+  const run = <T>(fn: () => T): T => runInTenant(name, database, fn);
+
+  return run(() => {
+    // Runs left in progress by a previous process can be resumed through the admin API
+    const interruptedRuns = interruptRunningReapplyRuns();
+    if (interruptedRuns > 0) {
+      logger.warn({ count: interruptedRuns }, 'Marked unfinished mapping re-application runs as interrupted');
+    }
+
+    if (!config.gatewayBearerToken && !config.inboundJwt && countActiveInboundTokens() === 0) {
+      logger.warn('No inbound authentication: GATEWAY_BEARER_TOKEN and INBOUND_JWT_* are not set and no token has been issued, so SCIM requests will be rejected');
+    }
+
+    // Shared by every LaunchDarkly client of the tenant
+    const ldLimiter = createConcurrencyLimiter(config.ldMaxConcurrency);
+    const ldUserCache = config.ldUserCacheTtlSeconds > 0
+      ? createLdUserCache(config.ldUserCacheTtlSeconds * 1000)
+      : undefined;
+
+    // Fails SCIM requests fast while LaunchDarkly is down
+    const ldCircuitBreaker = config.ldCircuitBreaker
+      ? createCircuitBreaker(config.ldCircuitBreaker)
+      : undefined;
+
+    const tokenProvider = createTokenProvider({ name: PRIMARY_TARGET, ...config }, config.ldTokenCacheKey);
+
+    const ldClient = new LaunchDarklyScimClient({
+      baseUrl: config.ldScimBaseUrl,
+      tokenProvider,
+      retry: config.ldRetry,
+      limiter: ldLimiter,
+      userCache: ldUserCache,
+      circuitBreaker: ldCircuitBreaker,
+      guard: createWriteGuard(() => config.mappings.guardrails, PRIMARY_TARGET),
+    });
+
+    // Optional LaunchDarkly Teams sync for Alice groups
+    let teamSync: TeamSync | undefined;
+    if (config.ldTeams) {
+      logger.info({ apiBaseUrl: config.ldTeams.apiBaseUrl }, 'Syncing Alice groups to LaunchDarkly Teams');
+      const teamsClient = new LaunchDarklyTeamsClient({
+        baseUrl: config.ldTeams.apiBaseUrl,
+        tokenProvider,
+        limiter: ldLimiter,
+      });
+      teamSync = createTeamSync(config, teamsClient);
+    }
+
+    // Additional LaunchDarkly accounts, each with its own limiter and circuit breaker
+    const targets = config.ldTargets.map((target) => {
+      logger.info({ target: target.name, ldScimBaseUrl: target.ldScimBaseUrl }, 'Provisioning into additional LaunchDarkly account');
+      const circuitBreaker = config.ldCircuitBreaker ? createCircuitBreaker(config.ldCircuitBreaker) : undefined;
+      const tokenProvider = createTokenProvider(target, config.ldTokenCacheKey);
+      const client = new LaunchDarklyScimClient({
+        baseUrl: target.ldScimBaseUrl,
+        tokenProvider,
+        retry: config.ldRetry,
+        limiter: createConcurrencyLimiter(config.ldMaxConcurrency),
+        circuitBreaker,
+        target: target.name,
+        // Accounts the mappings have no target entry for use the top-level guardrails
+        guard: createWriteGuard(
+          () => (config.mappings.targets.find((t) => t.name === target.name)?.mappings ?? config.mappings).guardrails,
+          target.name
+        ),
+      });
+      return { name: target.name, client, circuitBreaker, tokenProvider };
+    });
+    const targetSync = targets.length > 0
+      ? createTargetSync(config, new Map(targets.map((t) => [t.name, t.client])))
+      : undefined;
+
+    // Optional validation of JWTs signed by the IdP, alongside bearer tokens
+    const jwtVerifier = config.inboundJwt ? createJwtVerifier(config.inboundJwt) : undefined;
+
+    const scimRouter = createScimRouter(config, ldClient, teamSync, targetSync);
+    const reconciler = createReconciler(config, ldClient);
+    const adminRouter = config.adminBearerToken
+      ? createAdminRouter(
+        createMappingReapplier(config, ldClient, targetSync, teamSync),
+        reconciler,
+        createApprovalQueue(config, ldClient, targetSync)
+      )
+      : undefined;
+
+    // Database, LD token and a recent LD probe
+    const readiness = createReadinessChecker(config, tokenProvider, ldClient, ldCircuitBreaker);
+
+    // Applies queued writes. It also runs in sync mode, to drain jobs queued
+    // before switching from async mode.
+    const jobWorker = createJobWorker(config, ldClient, targetSync, teamSync);
+
+    trackUserMappings(name, () => run(countUserMappings));
+
+    /**
+     * Run the rest of the request as work of this tenant
+     */
+    function scope(_req: Request, res: Response, next: NextFunction): void {
+      res.locals.tenant = name;
+      run(next);
+    }
+
+    function health() {
+      return run(() => {
+        const { version, hash, loadedAt, lastReloadError } = config.mappingsInfo;
+        return {
+          mappings: { version, hash, loadedAt, lastReloadError },
+          ldRequests: ldLimiter.stats(),
+          ldUserCache: ldUserCache?.stats() ?? 'disabled',
+          ldCircuitBreaker: ldCircuitBreaker?.status() ?? 'disabled',
+          ldToken: tokenStatus(tokenProvider),
+          writeMode: config.writeMode,
+          jobs: countJobsByStatus(),
+          deprovisioning: { ...config.mappings.deprovisioning, tombstones: countUserTombstones() },
+          roleApprovals: countRoleApprovals(),
+          ldTargets: targets.length > 0
+            ? Object.fromEntries(targets.map((t) => [t.name, {
+              members: countUserTargetMappings(t.name),
+              jobs: countJobsByStatus(t.name),
+              circuitBreaker: t.circuitBreaker?.status() ?? 'disabled',
+              token: tokenStatus(t.tokenProvider),
+            }]))
+            : 'disabled',
+        };
+      });
+    }
+
+    function ready(): Promise<ReadinessReport> {
+      return run(() => readiness.check());
+    }
+
+    return {
+      name,
+      config,
+      health,
+      ready,
+
+      /**
+       * Serve the tenant's health, readiness, SCIM and admin endpoints under a
+       * path prefix ('' for the root)
+       */
+      mount(app: Express, prefix: string): void {
+        // Health endpoints (unauthenticated): liveness and readiness only
+        app.get(`${prefix}/health`, scope, (_req, res) => {
+          res.json({ status: 'ok', timestamp: new Date().toISOString() });
+        });
+        app.get(`${prefix}/ready`, scope, async (_req, res) => {
+          const report = await ready();
+          res.status(report.status === 'ready' ? 200 : 503).json(report);
+        });
+
+        // SCIM routes (authenticated)
+        app.use(`${prefix}/scim/v2`, scope, inboundTokenAuth(config.gatewayBearerToken, jwtVerifier), scimRouter);
+
+        // Admin routes (authenticated with a separate token, disabled unless configured)
+        if (adminRouter) {
+          const adminAuth = bearerTokenAuth(config.adminBearerToken!);
+          // Job, token, tombstone and approval state is for operators only
+          app.get(`${prefix}/admin/health`, scope, adminAuth, (_req, res) => {
+            res.json({ status: 'ok', timestamp: new Date().toISOString(), ...health() });
+          });
+          app.use(`${prefix}/admin`, scope, adminAuth, adminRouter);
+        }
+      },
+
+      /**
+       * Start the tenant's background tasks: LaunchDarkly token refresh, the
+       * job worker, the LaunchDarkly probe, scheduled reconciliation and
+       * mapping reload. Returns a function that stops them.
+       */
+      start(): () => void {
+        return run(() => {
+          jwtVerifier?.preload();
+          const stopRefreshingTokens = [tokenProvider, ...targets.map((t) => t.tokenProvider)]
+            .map((provider) => (provider instanceof TokenManager ? provider.start() : () => undefined));
+          const stopJobWorker = jobWorker.start();
+          const stopProbingLd = readiness.start();
+          const stopReconcileSchedule = config.reconcile.intervalMinutes > 0
+            ? reconciler.schedule()
+            : undefined;
+          // Reload mappings.yaml on change or SIGHUP, keeping the last good config
+          const stopWatchingMappings = watchMappingConfig(config);
+
+          return () => {
+            stopWatchingMappings();
+            stopReconcileSchedule?.();
+            stopProbingLd();
+            stopJobWorker();
+            stopRefreshingTokens.forEach((stop) => stop());
+          };
+        });
+      },
+
+      /**
+       * Close the tenant's database, once its requests and tasks have stopped
+       */
+      close(): void {
+        closeDatabase(database);
+      },
+
+      /**
+       * Settings worth logging at startup
+       */
+      describe(): Record<string, unknown> {
+        return run(() => ({
+          ldScimBaseUrl: config.ldScimBaseUrl,
+          authMethod: config.ldOAuth ? 'oauth2' : 'static_token',
+          inboundTokens: { issued: countActiveInboundTokens(), gatewayBearerToken: Boolean(config.gatewayBearerToken) },
+          inboundJwt: config.inboundJwt
+            ? { issuer: config.inboundJwt.issuer, jwks: config.inboundJwt.jwksUrl ?? config.inboundJwt.jwksFile }
+            : 'disabled',
+          ldTargets: config.ldTargets.map((t) => t.name),
+          teamsSync: Boolean(config.ldTeams),
+          adminApi: Boolean(config.adminBearerToken),
+          writeMode: config.writeMode,
+          reconcile: config.reconcile.intervalMinutes > 0 ? config.reconcile : 'disabled',
+          mappingsCount: config.mappings.roleMappings.length,
+          mappingsVersion: config.mappingsInfo.version,
+          mappingsHash: config.mappingsInfo.hash,
+          defaultRole: config.mappings.defaultRole,
+        }));
+      },
+    };
+  });
+}
+
+/**
+ * Create the token provider (OAuth2 client credentials or static token) of a LaunchDarkly account
+ *
+ * @param cacheKey LD_TOKEN_CACHE_KEY, to keep OAuth tokens in the database
+ */
+function createTokenProvider(
+  account: Pick<LdTargetConfig, 'name' | 'ldOAuth' | 'ldAccessToken'>,
+  cacheKey: string | undefined
+): TokenProvider {
+  const { name: target, ldOAuth, ldAccessToken } = account;
+  if (ldOAuth) {
+    logger.info(
+      { target, scope: ldOAuth.scope, userId: ldOAuth.userId, tokenCache: Boolean(cacheKey) },
+      'Using OAuth2 client credentials for LaunchDarkly authentication'
+    );
+    return new TokenManager({
+      tokenUrl: ldOAuth.tokenUrl,
+      clientId: ldOAuth.clientId,
+      clientSecret: ldOAuth.clientSecret,
+      scope: ldOAuth.scope,
+      userId: ldOAuth.userId,
+      target,
+      cache: cacheKey ? createTokenCache(target, ldOAuth, cacheKey) : undefined,
+    });
+  }
+  if (ldAccessToken) {
+    logger.info({ target }, 'Using static access token for LaunchDarkly authentication');
+    return createStaticTokenProvider(ldAccessToken);
+  }
+  throw new Error('No LaunchDarkly authentication configured');
+}
+
+/**
+ * State of an OAuth token, for /health
+ */
+function tokenStatus(provider: TokenProvider): TokenStatus | 'static_token' {
+  return provider instanceof TokenManager ? provider.status() : 'static_token';
+}
@@ -0,0 +1,32 @@
+/**
+ * Test Configuration
+ *
+ * Builds the AppConfig of a test through loadConfig, from the mappings.yaml
+ * contents and the environment variables the test needs, so tests run
+ * against a configuration the gateway would accept.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AppConfig, loadConfig } from '../config/index.js';
+
+/**
+ * Load a configuration with the given mappings. LaunchDarkly credentials and
+ * an in-memory database path are set unless env overrides them.
+ */
+export function createTestConfig(mappingsYaml = '', env: NodeJS.ProcessEnv = {}): AppConfig {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scim-gateway-test-'));
+  try {
+    const mappingsFile = path.join(dir, 'mappings.yaml');
+    fs.writeFileSync(mappingsFile, mappingsYaml);
+    return loadConfig({
+      LD_ACCESS_TOKEN: 'test-access-token',
+      DATABASE_PATH: ':memory:',
+      MAPPINGS_FILE: mappingsFile,
+      ...env,
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}